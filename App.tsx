@@ -6,15 +6,21 @@ import { Platform } from "react-native";
 
 import { AppNavigator } from "./src/navigation/AppNavigator";
 import { AuthProvider } from "./src/contexts/AuthContext";
+import { AppLockProvider } from "./src/contexts/AppLockContext";
 import { NotificationProvider } from "./src/contexts/NotificationContext";
 import { FavoritesProvider } from "./src/contexts/FavoritesContext";
 import { CartProvider } from "./src/contexts/CartContext";
+import { ConnectivityProvider } from "./src/contexts/ConnectivityContext";
+import { productOutbox } from "./src/services/productOutbox";
 import { theme } from "./src/utils/theme";
 
 export default function App() {
 	useEffect(() => {
 		// Configurar permissões de notificação
 		configurarNotificacoes();
+
+		// Retomar envios de produtos pendentes
+		productOutbox.start();
 	}, []);
 
 	const configurarNotificacoes = async () => {
@@ -44,19 +50,23 @@ export default function App() {
 
 	return (
 		<PaperProvider theme={theme}>
-			<AuthProvider>
-				<NotificationProvider>
-					<FavoritesProvider>
-						<CartProvider>
-							<StatusBar
-								style="light"
-								backgroundColor="#6200ea"
-							/>
-							<AppNavigator />
-						</CartProvider>
-					</FavoritesProvider>
-				</NotificationProvider>
-			</AuthProvider>
+			<ConnectivityProvider>
+				<AuthProvider>
+					<AppLockProvider>
+						<NotificationProvider>
+							<FavoritesProvider>
+								<CartProvider>
+									<StatusBar
+										style="light"
+										backgroundColor="#6200ea"
+									/>
+									<AppNavigator />
+								</CartProvider>
+							</FavoritesProvider>
+						</NotificationProvider>
+					</AppLockProvider>
+				</AuthProvider>
+			</ConnectivityProvider>
 		</PaperProvider>
 	);
 }
@@ -0,0 +1,864 @@
+// Servidor mock da API para desenvolvimento offline.
+// Espelha os contratos de ProductService, AuthService e MyProductsService
+// usados pelo backend REST do app (src/services/restBackend.ts).
+//
+// Uso: bun run mock-server  (porta padrão 4000, ou defina PORT)
+// Conta de demonstração: veja DEMO_CREDENTIALS em src/services/fakeData.ts
+// Login social: provedor OIDC de teste em /oidc (ou defina OIDC_ISSUER)
+import {
+	createHash,
+	randomBytes,
+	randomInt,
+	randomUUID,
+} from "node:crypto";
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { Product, ProductQuery, ProductSort } from "../src/types";
+import { AuthError, AuthErrorCode } from "../src/services/errors";
+import {
+	DEMO_CREDENTIALS,
+	FakeDataLocale,
+	generateFakeProducts,
+	generateFakeUser,
+} from "../src/services/fakeData";
+import {
+	InvalidCursorError,
+	MAX_BATCH_IDS,
+	ProductCatalog,
+} from "../src/services/productCatalog";
+import { NewProductData, ProductChanges } from "../src/services/backend";
+import { fetchOidcProfile } from "../src/services/oidc";
+import {
+	MAX_PRODUCT_IMAGES,
+	isProductImageList,
+} from "../src/services/productImages";
+import { OtpStore, emailChangeKey } from "../src/services/otpStore";
+import { SessionStore } from "../src/services/sessionStore";
+import {
+	UserDirectory,
+	requirePasswordPolicy,
+	toPublicUser,
+} from "../src/services/userDirectory";
+
+const PORT = Number(process.env.PORT) || 4000;
+const SEED = Number(process.env.SEED) || 42;
+const COUNT = Number(process.env.CATALOG_COUNT) || 10000;
+const LOCALE = (process.env.CATALOG_LOCALE || "pt_BR") as FakeDataLocale;
+// Login com email desconhecido cria a conta (DEMO_MODE=true)
+const DEMO_MODE = process.env.DEMO_MODE === "true";
+// Validade do token de acesso (padrão 15 min); valores curtos ajudam a
+// testar a renovação
+const ACCESS_TOKEN_TTL = Number(process.env.ACCESS_TOKEN_TTL_SECONDS) || 0;
+// Provedor OIDC do login social. Por padrão, o provedor de teste deste
+// servidor; num aparelho, use o IP da máquina
+// (ex.: OIDC_ISSUER=http://192.168.0.10:4000/oidc)
+const OIDC_ISSUER =
+	process.env.OIDC_ISSUER || `http://localhost:${PORT}/oidc`;
+const OIDC_CLIENT_ID = process.env.OIDC_CLIENT_ID || "photo-product-app";
+
+// Semente fixa só para o catálogo e a conta de demonstração, que são
+// reproduzíveis; ids criados depois são sempre novos, mesmo após reiniciar
+const catalog = new ProductCatalog(
+	generateFakeProducts(COUNT, { seed: SEED, locale: LOCALE }),
+	randomUUID
+);
+const users = new UserDirectory(
+	[],
+	() => randomBytes(16).toString("hex"),
+	randomUUID
+);
+await users.create({
+	...generateFakeUser({ seed: SEED + 1, locale: LOCALE }),
+	...DEMO_CREDENTIALS,
+});
+const sessions = new SessionStore(
+	randomBytes(32).toString("hex"),
+	() => randomBytes(24).toString("hex"),
+	[],
+	{ accessTokenTtlMs: ACCESS_TOKEN_TTL ? ACCESS_TOKEN_TTL * 1000 : undefined }
+);
+const otps = new OtpStore(() =>
+	randomInt(0, 1000000).toString().padStart(6, "0")
+);
+const myProducts = new Map<string, Product[]>(); // userId -> produtos
+
+class HttpError extends Error {
+	constructor(public status: number, public code: string, message: string) {
+		super(message);
+	}
+}
+
+// Resposta que não é JSON (páginas e redirecionamentos do provedor de teste)
+class RawResponse {
+	constructor(
+		public status: number,
+		public headers: Record<string, string>,
+		public body: string = ""
+	) {}
+}
+
+interface RequestContext {
+	params: Record<string, string>;
+	query: URLSearchParams;
+	body: unknown;
+	token: string | null;
+}
+
+type Handler = (ctx: RequestContext) => unknown | Promise<unknown>;
+
+interface Route {
+	method: string;
+	pattern: RegExp;
+	keys: string[];
+	handler: Handler;
+}
+
+const routes: Route[] = [];
+
+const route = (method: string, path: string, handler: Handler) => {
+	const keys: string[] = [];
+	const pattern = new RegExp(
+		`^${path.replace(/:(\w+)/g, (_, key) => {
+			keys.push(key);
+			return "([^/]+)";
+		})}$`
+	);
+	routes.push({ method, pattern, keys, handler });
+};
+
+const SORTS: ProductSort[] = ["newest", "price_asc", "price_desc", "name"];
+
+const readNumber = (query: URLSearchParams, key: string) => {
+	const value = query.get(key);
+	return value !== null && value !== "" && !isNaN(Number(value))
+		? Number(value)
+		: undefined;
+};
+
+const readProductQuery = (query: URLSearchParams): ProductQuery => {
+	const sort = query.get("sort") as ProductSort | null;
+	const createdAfter = query.get("createdAfter");
+
+	return {
+		page: Math.max(readNumber(query, "page") ?? 1, 1),
+		limit: Math.min(Math.max(readNumber(query, "limit") ?? 10, 1), 100),
+		category: query.get("category") || undefined,
+		minPrice: readNumber(query, "minPrice"),
+		maxPrice: readNumber(query, "maxPrice"),
+		inStockOnly: query.get("inStockOnly") === "true",
+		createdAfter: createdAfter ? new Date(createdAfter) : undefined,
+		sellerId: query.get("sellerId") || undefined,
+		sort: sort && SORTS.includes(sort) ? sort : undefined,
+	};
+};
+
+const AUTH_ERROR_STATUS: Record<AuthErrorCode, number> = {
+	USER_NOT_FOUND: 401,
+	WRONG_PASSWORD: 401,
+	EMAIL_IN_USE: 409,
+	INVALID_TOKEN: 401,
+	TOKEN_EXPIRED: 401,
+	SESSION_EXPIRED: 401,
+	OTP_INVALID: 400,
+	OTP_EXPIRED: 400,
+	OTP_LOCKED: 429,
+	OIDC_FAILED: 401,
+	EMAIL_NOT_VERIFIED: 403,
+	WEAK_PASSWORD: 400,
+};
+
+// Campos do corpo da requisição; o que não for um objeto JSON vira {}
+const readFields = (body: unknown): Record<string, unknown> =>
+	typeof body === "object" && body !== null && !Array.isArray(body)
+		? (body as Record<string, unknown>)
+		: {};
+
+const requireCredentials = (body: unknown) => {
+	const { email, password } = readFields(body);
+	if (typeof email !== "string" || typeof password !== "string") {
+		throw new HttpError(
+			400,
+			"INVALID_CREDENTIALS",
+			"Email e senha são obrigatórios"
+		);
+	}
+	return { email, password };
+};
+
+const requireRefreshToken = (body: unknown) => {
+	const { refreshToken } = readFields(body);
+	if (typeof refreshToken !== "string") {
+		throw new HttpError(
+			400,
+			"INVALID_REFRESH_TOKEN",
+			"Refresh token é obrigatório"
+		);
+	}
+	return refreshToken;
+};
+
+// Usuário dono do token de acesso enviado em "Authorization: Bearer"
+const requireUser = (ctx: RequestContext) => {
+	const user = users.findById(sessions.verifyAccessToken(ctx.token));
+	if (!user) {
+		throw new AuthError("INVALID_TOKEN");
+	}
+	return user;
+};
+
+// Produtos
+route("GET", "/products", ({ query }) => {
+	return catalog.list(readProductQuery(query));
+});
+
+route("GET", "/products/search", ({ query }) => {
+	return catalog.search(query.get("q") || "", readProductQuery(query));
+});
+
+route("GET", "/products/page", ({ query }) => {
+	const { page, ...filters } = readProductQuery(query);
+	try {
+		return catalog.listPage({
+			...filters,
+			search: query.get("q") || undefined,
+			cursor: query.get("cursor"),
+		});
+	} catch (error) {
+		if (error instanceof InvalidCursorError) {
+			throw new HttpError(400, "INVALID_CURSOR", error.message);
+		}
+		throw error;
+	}
+});
+
+route("GET", "/products/suggestions", ({ query }) => {
+	return catalog.suggest(
+		query.get("q") || "",
+		Math.min(readNumber(query, "limit") ?? 5, 20)
+	);
+});
+
+route("GET", "/categories", () => catalog.categories());
+
+route("GET", "/categories/popular", ({ query }) => {
+	return catalog.popularCategories(
+		Math.min(readNumber(query, "limit") ?? 6, 20)
+	);
+});
+
+// Versão atual dos produtos guardados no carrinho e nos favoritos
+route("GET", "/products/batch", ({ query }) => {
+	const ids = (query.get("ids") || "").split(",").filter(Boolean);
+	return catalog.getMany(ids.slice(0, MAX_BATCH_IDS));
+});
+
+route("GET", "/products/:id", ({ params }) => {
+	const product = catalog.get(params.id);
+	if (!product) {
+		throw new HttpError(404, "NOT_FOUND", "Produto não encontrado");
+	}
+	return product;
+});
+
+const PRODUCT_FIELDS = [
+	"name",
+	"description",
+	"price",
+	"images",
+	"category",
+	"inStock",
+] as const;
+
+type ProductField = (typeof PRODUCT_FIELDS)[number];
+
+const isText = (value: unknown) => typeof value === "string";
+
+// Tipo e mensagem de erro de cada campo que o cliente pode enviar
+const PRODUCT_FIELD_RULES: Record<
+	ProductField,
+	{ isValid: (value: unknown) => boolean; message: string }
+> = {
+	name: {
+		isValid: (value) => isText(value) && !!String(value).trim(),
+		message: "Nome não pode ficar vazio",
+	},
+	description: { isValid: isText, message: "Descrição inválida" },
+	price: {
+		isValid: (value) =>
+			typeof value === "number" && Number.isFinite(value) && value > 0,
+		message: "Preço deve ser um número maior que zero",
+	},
+	images: {
+		isValid: isProductImageList,
+		message: `O produto deve ter de 1 a ${MAX_PRODUCT_IMAGES} fotos`,
+	},
+	category: { isValid: isText, message: "Categoria inválida" },
+	inStock: {
+		isValid: (value) => typeof value === "boolean",
+		message: "Estoque deve ser verdadeiro ou falso",
+	},
+};
+
+// Só os campos de PRODUCT_FIELDS, com o tipo conferido; id, vendedor e
+// datas ficam com o servidor
+const readProductChanges = (body: unknown): ProductChanges => {
+	const fields = readFields(body);
+	const changes = PRODUCT_FIELDS.filter(
+		(field) => fields[field] !== undefined
+	);
+
+	for (const field of changes) {
+		if (!PRODUCT_FIELD_RULES[field].isValid(fields[field])) {
+			throw new HttpError(
+				400,
+				"INVALID_PRODUCT",
+				PRODUCT_FIELD_RULES[field].message
+			);
+		}
+	}
+	return Object.fromEntries(
+		changes.map((field) => [field, fields[field]])
+	) as ProductChanges;
+};
+
+route("POST", "/products", (ctx) => {
+	const user = requireUser(ctx);
+
+	// Clientes antigos enviam só "image"; vira a lista de fotos
+	const { image } = readFields(ctx.body);
+	const data = readProductChanges(ctx.body);
+	if (data.images === undefined && typeof image === "string" && image) {
+		data.images = [image];
+	}
+
+	if (PRODUCT_FIELDS.some((field) => data[field] === undefined)) {
+		throw new HttpError(
+			400,
+			"INVALID_PRODUCT",
+			"Todos os campos do produto são obrigatórios"
+		);
+	}
+	return catalog.add(data as NewProductData, user.id);
+});
+
+// Só o vendedor pode editar ou arquivar o produto
+const requireOwnProduct = (ctx: RequestContext) => {
+	const userId = requireUser(ctx).id;
+	const list = myProducts.get(userId) ?? [];
+	const product = catalog.get(ctx.params.id);
+	if (!product || product.archivedAt) {
+		throw new HttpError(404, "NOT_FOUND", "Produto não encontrado");
+	}
+	if (product.sellerId !== userId) {
+		throw new HttpError(
+			403,
+			"FORBIDDEN",
+			"Só é possível alterar os seus produtos"
+		);
+	}
+	return { userId, list };
+};
+
+route("PATCH", "/products/:id", (ctx) => {
+	const { userId, list } = requireOwnProduct(ctx);
+
+	const changes = readProductChanges(ctx.body);
+	const product = catalog.update(ctx.params.id, changes)!;
+	myProducts.set(
+		userId,
+		list.map((item) => (item.id === product.id ? product : item))
+	);
+	return product;
+});
+
+// O produto continua acessível pelo id, marcado como arquivado
+route("DELETE", "/products/:id", (ctx) => {
+	requireOwnProduct(ctx);
+	return catalog.archive(ctx.params.id)!;
+});
+
+// Autenticação
+route("POST", "/auth/login", async ({ body }) => {
+	const { email, password } = requireCredentials(body);
+
+	if (DEMO_MODE && !users.findByEmail(email)) {
+		await users.create({
+			name: generateFakeUser({ locale: LOCALE }).name,
+			email,
+			password,
+		});
+	}
+
+	const user = await users.authenticate(email, password);
+	return { user, tokens: sessions.issue(user.id) };
+});
+
+route("POST", "/auth/register", async ({ body }) => {
+	const { email, password } = requireCredentials(body);
+	const { name } = readFields(body);
+	if (typeof name !== "string" || !name.trim()) {
+		throw new HttpError(400, "INVALID_USER", "Nome é obrigatório");
+	}
+	requirePasswordPolicy(password, { email, name });
+
+	const user = await users.create({ name, email, password });
+	return { user, tokens: sessions.issue(user.id) };
+});
+
+// Login social: o código vem do app, que fez o PKCE com o provedor
+route("POST", "/auth/oidc", async ({ body }) => {
+	const { code, codeVerifier, redirectUri } = readFields(body);
+	if (
+		typeof code !== "string" ||
+		typeof codeVerifier !== "string" ||
+		typeof redirectUri !== "string"
+	) {
+		throw new HttpError(
+			400,
+			"INVALID_OIDC",
+			"Código, code verifier e redirect URI são obrigatórios"
+		);
+	}
+
+	const profile = await fetchOidcProfile(
+		{ issuer: OIDC_ISSUER, clientId: OIDC_CLIENT_ID },
+		{ code, codeVerifier, redirectUri }
+	);
+	const user = await users.signInWithIdentity(profile);
+	return { user, tokens: sessions.issue(user.id) };
+});
+
+route("POST", "/auth/refresh", ({ body }) => {
+	return sessions.refresh(requireRefreshToken(body)).tokens;
+});
+
+route("GET", "/auth/me", (ctx) => toPublicUser(requireUser(ctx)));
+
+// Perfil público de quem vende (sem email e telefone)
+route("GET", "/sellers/:id", ({ params }) => {
+	const seller = users.getSeller(params.id);
+	if (!seller) {
+		throw new HttpError(404, "NOT_FOUND", "Vendedor não encontrado");
+	}
+	return seller;
+});
+
+route("POST", "/auth/logout", ({ body }) => {
+	sessions.revoke(requireRefreshToken(body));
+	return { success: true };
+});
+
+// Mesma resposta exista ou não a conta; o código só é "enviado" (no log)
+// para contas existentes
+route("POST", "/auth/password-reset/otp", ({ body }) => {
+	const { email } = readFields(body);
+	if (typeof email !== "string") {
+		throw new HttpError(400, "INVALID_EMAIL", "Email é obrigatório");
+	}
+
+	const { code, challenge } = otps.issue(email);
+	if (code && users.findByEmail(email)) {
+		console.log(`OTP para ${email}: ${code}`);
+	}
+	return challenge;
+});
+
+route("POST", "/auth/password-reset", async ({ body }) => {
+	const { email, otp, newPassword } = readFields(body);
+	if (
+		typeof email !== "string" ||
+		typeof otp !== "string" ||
+		typeof newPassword !== "string"
+	) {
+		throw new HttpError(
+			400,
+			"INVALID_RESET",
+			"Email, código e nova senha são obrigatórios"
+		);
+	}
+
+	// Antes do código, que só vale uma vez
+	requirePasswordPolicy(newPassword, { email });
+	otps.verify(email, otp);
+	if (!(await users.setPassword(email, newPassword))) {
+		throw new AuthError("OTP_INVALID");
+	}
+	return { success: true };
+});
+
+// Troca de email: o novo email só vale depois de confirmado com o código
+route("POST", "/me/email", (ctx) => {
+	const user = requireUser(ctx);
+	const { email } = readFields(ctx.body);
+	if (typeof email !== "string" || !/\S+@\S+\.\S+/.test(email)) {
+		throw new HttpError(400, "INVALID_EMAIL", "Email inválido");
+	}
+	if (users.findByEmail(email)) {
+		throw new AuthError("EMAIL_IN_USE");
+	}
+
+	const { code, challenge } = otps.issue(emailChangeKey(user.id, email));
+	if (code) {
+		console.log(`Código para confirmar ${email}: ${code}`);
+	}
+	return challenge;
+});
+
+route("POST", "/me/email/confirm", (ctx) => {
+	const userId = requireUser(ctx).id;
+	const { email, otp } = readFields(ctx.body);
+	if (typeof email !== "string" || typeof otp !== "string") {
+		throw new HttpError(
+			400,
+			"INVALID_EMAIL_CHANGE",
+			"Email e código são obrigatórios"
+		);
+	}
+
+	otps.verify(emailChangeKey(userId, email), otp);
+	return users.changeEmail(userId, email);
+});
+
+// Só nome, telefone e foto; email e senha têm rotas próprias
+route("PATCH", "/me", (ctx) => {
+	const userId = requireUser(ctx).id;
+	const { name, phone, profileImage } = readFields(ctx.body);
+	if (name !== undefined && (!isText(name) || !String(name).trim())) {
+		throw new HttpError(
+			400,
+			"INVALID_PROFILE",
+			"Nome não pode ficar vazio"
+		);
+	}
+	if (
+		(phone !== undefined && !isText(phone)) ||
+		(profileImage !== undefined && !isText(profileImage))
+	) {
+		throw new HttpError(400, "INVALID_PROFILE", "Perfil inválido");
+	}
+
+	return users.updateProfile(userId, {
+		name: name as string | undefined,
+		phone: phone as string | undefined,
+		profileImage: profileImage as string | undefined,
+	});
+});
+
+// Troca de senha: as outras sessões do usuário deixam de valer
+route("POST", "/me/password", async (ctx) => {
+	const user = requireUser(ctx);
+	const userId = user.id;
+	const { currentPassword, newPassword } = readFields(ctx.body);
+	if (
+		typeof currentPassword !== "string" ||
+		typeof newPassword !== "string"
+	) {
+		throw new HttpError(
+			400,
+			"INVALID_PASSWORD_CHANGE",
+			"Senha atual e nova senha são obrigatórias"
+		);
+	}
+
+	requirePasswordPolicy(newPassword, user);
+	await users.changePassword(userId, currentPassword, newPassword);
+	sessions.revokeUser(userId);
+	return sessions.issue(userId);
+});
+
+// Exclusão da conta, confirmada com a senha
+route("DELETE", "/me", async (ctx) => {
+	const userId = requireUser(ctx).id;
+	const { password } = readFields(ctx.body);
+	if (typeof password !== "string") {
+		throw new HttpError(400, "INVALID_PASSWORD", "Senha é obrigatória");
+	}
+
+	await users.remove(userId, password);
+	sessions.revokeUser(userId);
+	myProducts.delete(userId);
+	catalog.archiveBySeller(userId);
+	return { success: true };
+});
+
+// Produtos do usuário
+route("GET", "/me/products", (ctx) => {
+	return myProducts.get(requireUser(ctx).id) ?? [];
+});
+
+route("POST", "/me/products", (ctx) => {
+	const userId = requireUser(ctx).id;
+	const { productId } = readFields(ctx.body);
+	const product = typeof productId === "string" && catalog.get(productId);
+	if (!product || product.archivedAt) {
+		throw new HttpError(404, "NOT_FOUND", "Produto não encontrado");
+	}
+
+	const list = myProducts.get(userId) ?? [];
+	myProducts.set(userId, [product, ...list]);
+	return { success: true };
+});
+
+route("DELETE", "/me/products/:id", (ctx) => {
+	const userId = requireUser(ctx).id;
+	const list = myProducts.get(userId) ?? [];
+	myProducts.set(
+		userId,
+		list.filter((product) => product.id !== ctx.params.id)
+	);
+	return { success: true };
+});
+
+// Provedor de identidade de teste (OIDC, authorization code com PKCE S256).
+// A página de autorização deixa escolher o email, o nome e se o email está
+// verificado, para testar o vínculo com contas existentes.
+interface TestIdentity {
+	sub: string;
+	email: string;
+	email_verified: boolean;
+	name?: string;
+}
+
+interface TestAuthorizationCode {
+	clientId: string;
+	redirectUri: string;
+	codeChallenge: string;
+	identity: TestIdentity;
+	expiresAt: number;
+}
+
+const testCodes = new Map<string, TestAuthorizationCode>();
+const testTokens = new Map<string, TestIdentity>();
+const testSubjects = new Map<string, string>(); // email -> sub
+
+const AUTHORIZATION_PARAMS = [
+	"client_id",
+	"redirect_uri",
+	"response_type",
+	"scope",
+	"state",
+	"code_challenge",
+	"code_challenge_method",
+];
+
+const escapeHtml = (value: string) =>
+	value.replace(
+		/[&<>"']/g,
+		(char) => `&#${char.charCodeAt(0)};`
+	);
+
+const readAuthorizationRequest = (query: URLSearchParams) => {
+	const params = Object.fromEntries(
+		AUTHORIZATION_PARAMS.map((key) => [key, query.get(key) ?? ""])
+	);
+	if (params.client_id !== OIDC_CLIENT_ID) {
+		throw new HttpError(400, "invalid_client", "Cliente desconhecido");
+	}
+	if (params.response_type !== "code" || !params.redirect_uri) {
+		throw new HttpError(400, "invalid_request", "Requisição inválida");
+	}
+	if (params.code_challenge_method !== "S256" || !params.code_challenge) {
+		throw new HttpError(400, "invalid_request", "PKCE (S256) obrigatório");
+	}
+	return params;
+};
+
+route("GET", "/oidc/.well-known/openid-configuration", () => ({
+	issuer: OIDC_ISSUER,
+	authorization_endpoint: `${OIDC_ISSUER}/authorize`,
+	token_endpoint: `${OIDC_ISSUER}/token`,
+	userinfo_endpoint: `${OIDC_ISSUER}/userinfo`,
+	response_types_supported: ["code"],
+	grant_types_supported: ["authorization_code"],
+	code_challenge_methods_supported: ["S256"],
+	scopes_supported: ["openid", "email", "profile"],
+	subject_types_supported: ["public"],
+}));
+
+route("GET", "/oidc/authorize", ({ query }) => {
+	const params = readAuthorizationRequest(query);
+	const hidden = Object.entries(params)
+		.map(
+			([key, value]) =>
+				`<input type="hidden" name="${key}" value="${escapeHtml(value)}">`
+		)
+		.join("");
+
+	return new RawResponse(
+		200,
+		{ "Content-Type": "text/html; charset=utf-8" },
+		`<!doctype html>
+<html lang="pt-BR">
+<head><meta name="viewport" content="width=device-width, initial-scale=1"><title>Provedor de teste</title></head>
+<body style="font-family: sans-serif; max-width: 360px; margin: 40px auto">
+<h2>Provedor de teste</h2>
+<form method="get" action="authorize/approve">
+${hidden}
+<p><label>Email<br><input name="email" type="email" required value="${DEMO_CREDENTIALS.email}"></label></p>
+<p><label>Nome<br><input name="name"></label></p>
+<p><label><input type="checkbox" name="email_verified" value="true" checked> Email verificado</label></p>
+<button type="submit">Autorizar</button>
+</form>
+</body>
+</html>`
+	);
+});
+
+route("GET", "/oidc/authorize/approve", ({ query }) => {
+	const params = readAuthorizationRequest(query);
+	const email = query.get("email")?.trim().toLowerCase();
+	if (!email) {
+		throw new HttpError(400, "invalid_request", "Email é obrigatório");
+	}
+
+	const sub = testSubjects.get(email) ?? randomBytes(8).toString("hex");
+	testSubjects.set(email, sub);
+
+	const code = randomBytes(16).toString("hex");
+	testCodes.set(code, {
+		clientId: params.client_id,
+		redirectUri: params.redirect_uri,
+		codeChallenge: params.code_challenge,
+		identity: {
+			sub,
+			email,
+			email_verified: query.get("email_verified") === "true",
+			name: query.get("name") || undefined,
+		},
+		expiresAt: Date.now() + 60 * 1000,
+	});
+
+	// Sem normalizar o redirect_uri: o app compara o endereço de volta
+	const result = new URLSearchParams({ code });
+	if (params.state) result.set("state", params.state);
+	const separator = params.redirect_uri.includes("?") ? "&" : "?";
+	return new RawResponse(302, {
+		Location: `${params.redirect_uri}${separator}${result}`,
+	});
+});
+
+// O código vale uma vez e só com o code_verifier que gerou o desafio
+route("POST", "/oidc/token", ({ body }) => {
+	const fields = readFields(body);
+	const code = String(fields.code ?? "");
+	const grant = testCodes.get(code);
+	testCodes.delete(code);
+
+	const challenge = createHash("sha256")
+		.update(String(fields.code_verifier ?? ""))
+		.digest("base64url");
+	if (
+		!grant ||
+		grant.expiresAt <= Date.now() ||
+		fields.grant_type !== "authorization_code" ||
+		fields.client_id !== grant.clientId ||
+		fields.redirect_uri !== grant.redirectUri ||
+		challenge !== grant.codeChallenge
+	) {
+		throw new HttpError(
+			400,
+			"invalid_grant",
+			"Código de autorização inválido"
+		);
+	}
+
+	const accessToken = randomBytes(24).toString("hex");
+	testTokens.set(accessToken, grant.identity);
+	return {
+		access_token: accessToken,
+		token_type: "Bearer",
+		expires_in: 3600,
+	};
+});
+
+route("GET", "/oidc/userinfo", ({ token }) => {
+	const identity = token ? testTokens.get(token) : undefined;
+	if (!identity) {
+		throw new HttpError(401, "invalid_token", "Token inválido");
+	}
+	return identity;
+});
+
+const readBody = (req: IncomingMessage): Promise<unknown> =>
+	new Promise((resolve, reject) => {
+		let raw = "";
+		req.on("data", (chunk) => (raw += chunk));
+		req.on("end", () => {
+			if (!raw) return resolve(undefined);
+
+			// Formato usado pelo endpoint de token do OAuth
+			const type = req.headers["content-type"] || "";
+			if (type.startsWith("application/x-www-form-urlencoded")) {
+				return resolve(Object.fromEntries(new URLSearchParams(raw)));
+			}
+			try {
+				resolve(JSON.parse(raw));
+			} catch {
+				reject(new HttpError(400, "INVALID_JSON", "JSON inválido"));
+			}
+		});
+		req.on("error", reject);
+	});
+
+const send = (res: ServerResponse, status: number, payload: unknown) => {
+	res.writeHead(status, {
+		"Content-Type": "application/json",
+		"Access-Control-Allow-Origin": "*",
+		"Access-Control-Allow-Headers": "Content-Type, Authorization",
+		"Access-Control-Allow-Methods": "GET, POST, PUT, PATCH, DELETE, OPTIONS",
+	});
+	res.end(payload === undefined ? "" : JSON.stringify(payload));
+};
+
+const server = createServer(async (req, res) => {
+	if (req.method === "OPTIONS") {
+		return send(res, 204, undefined);
+	}
+
+	const url = new URL(req.url || "/", `http://localhost:${PORT}`);
+
+	try {
+		for (const { method, pattern, keys, handler } of routes) {
+			const match = url.pathname.match(pattern);
+			if (req.method !== method || !match) continue;
+
+			const params = Object.fromEntries(
+				keys.map((key, i) => [key, decodeURIComponent(match[i + 1])])
+			);
+			const result = await handler({
+				params,
+				query: url.searchParams,
+				body: await readBody(req),
+				token:
+					req.headers.authorization?.replace(/^Bearer /, "") || null,
+			});
+			if (result instanceof RawResponse) {
+				res.writeHead(result.status, result.headers);
+				return res.end(result.body);
+			}
+			return send(res, 200, result);
+		}
+
+		throw new HttpError(404, "NOT_FOUND", "Rota não encontrada");
+	} catch (error) {
+		if (error instanceof HttpError) {
+			return send(res, error.status, {
+				error: { code: error.code, message: error.message },
+			});
+		}
+		if (error instanceof AuthError) {
+			return send(res, AUTH_ERROR_STATUS[error.code], {
+				error: { code: error.code, message: error.message },
+			});
+		}
+		console.error("Erro inesperado:", error);
+		send(res, 500, {
+			error: { code: "INTERNAL", message: "Erro interno do servidor" },
+		});
+	}
+});
+
+server.listen(PORT, () => {
+	console.log(
+		`Servidor mock ouvindo em http://localhost:${PORT} (seed ${SEED})`
+	);
+});
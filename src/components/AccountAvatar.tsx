@@ -0,0 +1,22 @@
+import React from "react";
+import { Avatar } from "react-native-paper";
+import { User } from "../types";
+
+interface AccountAvatarProps {
+	user: Pick<User, "name" | "profileImage">;
+	size?: number;
+}
+
+// Foto do perfil, ou as iniciais quando a conta não tem foto
+export const AccountAvatar: React.FC<AccountAvatarProps> = ({
+	user,
+	size = 40,
+}) =>
+	user.profileImage ? (
+		<Avatar.Image size={size} source={{ uri: user.profileImage }} />
+	) : (
+		<Avatar.Text
+			size={size}
+			label={user.name.substring(0, 2).toUpperCase()}
+		/>
+	);
@@ -0,0 +1,111 @@
+import React, { useState } from "react";
+import { Alert, View, StyleSheet } from "react-native";
+import { ActivityIndicator, List } from "react-native-paper";
+import { User } from "../types";
+import { useAuth } from "../contexts/AuthContext";
+import { AuthError } from "../services/errors";
+import { MAX_ACCOUNTS } from "../services/accounts";
+import { AccountAvatar } from "./AccountAvatar";
+
+interface AccountSwitcherProps {
+	// Substitui a troca direta: tocar só escolhe a conta, que ainda precisa
+	// ser confirmada com a senha
+	onSelect?: (account: User) => void;
+}
+
+// Contas salvas no aparelho, menos a ativa: tocar troca de conta sem
+// digitar a senha e tocar e segurar remove a conta do aparelho
+export const AccountSwitcher: React.FC<AccountSwitcherProps> = ({
+	onSelect,
+}) => {
+	const { user, accounts, switchAccount, addAccount, removeAccount } =
+		useAuth();
+	const [switchingTo, setSwitchingTo] = useState<string | null>(null);
+
+	const otherAccounts = accounts.filter((account) => account.id !== user?.id);
+
+	const handleSwitch = async (userId: string) => {
+		setSwitchingTo(userId);
+		try {
+			await switchAccount(userId);
+		} catch (error) {
+			Alert.alert(
+				"Não foi possível trocar de conta",
+				error instanceof AuthError
+					? "A sessão dessa conta expirou. Entre novamente."
+					: "Tente novamente em instantes."
+			);
+		} finally {
+			setSwitchingTo(null);
+		}
+	};
+
+	const handleRemove = (userId: string, name: string) => {
+		Alert.alert(
+			"Remover conta",
+			`Sair da conta de ${name} neste aparelho?`,
+			[
+				{ text: "Cancelar", style: "cancel" },
+				{
+					text: "Remover",
+					style: "destructive",
+					onPress: () => removeAccount(userId),
+				},
+			]
+		);
+	};
+
+	return (
+		<>
+			{otherAccounts.map((account) => (
+				<List.Item
+					key={account.id}
+					title={account.name}
+					description={account.email}
+					left={() => (
+						<View style={styles.avatar}>
+							<AccountAvatar user={account} />
+						</View>
+					)}
+					right={(props) =>
+						switchingTo === account.id ? (
+							<ActivityIndicator style={styles.loading} />
+						) : (
+							<List.Icon
+								{...props}
+								icon={onSelect ? "login" : "swap-horizontal"}
+							/>
+						)
+					}
+					onPress={() =>
+						onSelect ? onSelect(account) : handleSwitch(account.id)
+					}
+					onLongPress={() => handleRemove(account.id, account.name)}
+					disabled={switchingTo !== null}
+				/>
+			))}
+
+			{!!user && accounts.length < MAX_ACCOUNTS && (
+				<List.Item
+					title="Adicionar conta"
+					description="Entre com outra conta sem sair desta"
+					left={(props) => (
+						<List.Icon {...props} icon="account-plus" />
+					)}
+					onPress={addAccount}
+					disabled={switchingTo !== null}
+				/>
+			)}
+		</>
+	);
+};
+
+const styles = StyleSheet.create({
+	avatar: {
+		marginLeft: 16,
+		justifyContent: "center",
+	},
+	loading: {
+		marginRight: 8,
+	},
+});
@@ -0,0 +1,260 @@
+import React, { useState } from "react";
+import { Alert, StyleSheet } from "react-native";
+import {
+	Button,
+	Dialog,
+	HelperText,
+	List,
+	Portal,
+	RadioButton,
+	Switch,
+	TextInput,
+} from "react-native-paper";
+import { useAppLock } from "../contexts/AppLockContext";
+import { APP_LOCK_TIMEOUTS, PIN_PATTERN } from "../services/appLock";
+
+const formatTimeout = (timeoutMs: number) => {
+	const minutes = timeoutMs / 60000;
+	if (minutes === 0) return "Imediatamente";
+	return `Após ${minutes} ${minutes === 1 ? "minuto" : "minutos"}`;
+};
+
+interface PinDialogProps {
+	visible: boolean;
+	title: string;
+	onDismiss: () => void;
+	onConfirm: (pin: string) => Promise<void>;
+}
+
+// Cadastro do PIN, digitado duas vezes
+const PinDialog: React.FC<PinDialogProps> = ({
+	visible,
+	title,
+	onDismiss,
+	onConfirm,
+}) => {
+	const [pin, setPin] = useState("");
+	const [confirmation, setConfirmation] = useState("");
+	const [error, setError] = useState<string | null>(null);
+	const [isSaving, setIsSaving] = useState(false);
+
+	const close = () => {
+		setPin("");
+		setConfirmation("");
+		setError(null);
+		onDismiss();
+	};
+
+	const handleConfirm = async () => {
+		if (!PIN_PATTERN.test(pin)) {
+			setError("O PIN deve ter de 4 a 6 dígitos");
+			return;
+		}
+		if (pin !== confirmation) {
+			setError("Os PINs não coincidem");
+			return;
+		}
+
+		setIsSaving(true);
+		try {
+			await onConfirm(pin);
+			close();
+		} catch (error) {
+			console.error("Erro ao salvar PIN:", error);
+			setError("Não foi possível salvar o PIN");
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	return (
+		<Portal>
+			<Dialog visible={visible} onDismiss={close}>
+				<Dialog.Title>{title}</Dialog.Title>
+				<Dialog.Content>
+					<TextInput
+						label="PIN (4 a 6 dígitos)"
+						value={pin}
+						onChangeText={(value) =>
+							setPin(value.replace(/\D/g, ""))
+						}
+						mode="outlined"
+						keyboardType="number-pad"
+						secureTextEntry
+						maxLength={6}
+						style={styles.input}
+					/>
+					<TextInput
+						label="Confirmar PIN"
+						value={confirmation}
+						onChangeText={(value) =>
+							setConfirmation(value.replace(/\D/g, ""))
+						}
+						mode="outlined"
+						keyboardType="number-pad"
+						secureTextEntry
+						maxLength={6}
+					/>
+					<HelperText type="error" visible={!!error}>
+						{error}
+					</HelperText>
+				</Dialog.Content>
+				<Dialog.Actions>
+					<Button onPress={close} disabled={isSaving}>
+						Cancelar
+					</Button>
+					<Button
+						onPress={handleConfirm}
+						loading={isSaving}
+						disabled={isSaving}
+					>
+						Salvar
+					</Button>
+				</Dialog.Actions>
+			</Dialog>
+		</Portal>
+	);
+};
+
+// Opções do bloqueio do app exibidas no perfil
+export const AppLockSettings: React.FC = () => {
+	const {
+		settings,
+		biometricsAvailable,
+		enableLock,
+		disableLock,
+		changePin,
+		updateSettings,
+	} = useAppLock();
+	const [pinDialog, setPinDialog] = useState<"enable" | "change" | null>(
+		null
+	);
+	const [isTimeoutDialogVisible, setIsTimeoutDialogVisible] =
+		useState(false);
+
+	const handleToggleLock = (enabled: boolean) => {
+		if (enabled) {
+			setPinDialog("enable");
+			return;
+		}
+
+		Alert.alert(
+			"Desativar bloqueio",
+			"O app deixará de pedir PIN ou biometria ao ser aberto.",
+			[
+				{ text: "Cancelar", style: "cancel" },
+				{
+					text: "Desativar",
+					style: "destructive",
+					onPress: disableLock,
+				},
+			]
+		);
+	};
+
+	return (
+		<>
+			<List.Item
+				title="Bloqueio do app"
+				description="Pedir PIN ou biometria ao voltar para o app"
+				left={(props) => <List.Icon {...props} icon="lock" />}
+				right={() => (
+					<Switch
+						value={settings.enabled}
+						onValueChange={handleToggleLock}
+					/>
+				)}
+			/>
+
+			{settings.enabled && (
+				<>
+					<List.Item
+						title="Desbloquear com biometria"
+						description={
+							biometricsAvailable
+								? "Digital ou reconhecimento facial"
+								: "Indisponível neste aparelho"
+						}
+						left={(props) => (
+							<List.Icon {...props} icon="fingerprint" />
+						)}
+						right={() => (
+							<Switch
+								value={settings.biometricsEnabled}
+								disabled={!biometricsAvailable}
+								onValueChange={(biometricsEnabled) =>
+									updateSettings({ biometricsEnabled })
+								}
+							/>
+						)}
+					/>
+
+					<List.Item
+						title="Bloquear"
+						description={formatTimeout(settings.timeoutMs)}
+						left={(props) => (
+							<List.Icon {...props} icon="timer-lock-outline" />
+						)}
+						right={(props) => (
+							<List.Icon {...props} icon="chevron-right" />
+						)}
+						onPress={() => setIsTimeoutDialogVisible(true)}
+					/>
+
+					<List.Item
+						title="Alterar PIN"
+						left={(props) => (
+							<List.Icon
+								{...props}
+								icon="form-textbox-password"
+							/>
+						)}
+						right={(props) => (
+							<List.Icon {...props} icon="chevron-right" />
+						)}
+						onPress={() => setPinDialog("change")}
+					/>
+				</>
+			)}
+
+			<PinDialog
+				visible={pinDialog !== null}
+				title={pinDialog === "change" ? "Alterar PIN" : "Criar PIN"}
+				onDismiss={() => setPinDialog(null)}
+				onConfirm={pinDialog === "change" ? changePin : enableLock}
+			/>
+
+			<Portal>
+				<Dialog
+					visible={isTimeoutDialogVisible}
+					onDismiss={() => setIsTimeoutDialogVisible(false)}
+				>
+					<Dialog.Title>Bloquear o app</Dialog.Title>
+					<Dialog.Content>
+						<RadioButton.Group
+							value={String(settings.timeoutMs)}
+							onValueChange={(value) => {
+								updateSettings({ timeoutMs: Number(value) });
+								setIsTimeoutDialogVisible(false);
+							}}
+						>
+							{APP_LOCK_TIMEOUTS.map((timeoutMs) => (
+								<RadioButton.Item
+									key={timeoutMs}
+									label={formatTimeout(timeoutMs)}
+									value={String(timeoutMs)}
+								/>
+							))}
+						</RadioButton.Group>
+					</Dialog.Content>
+				</Dialog>
+			</Portal>
+		</>
+	);
+};
+
+const styles = StyleSheet.create({
+	input: {
+		marginBottom: 8,
+	},
+});
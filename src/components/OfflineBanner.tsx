@@ -0,0 +1,36 @@
+import React from "react";
+import { View, StyleSheet } from "react-native";
+import { Text, Icon } from "react-native-paper";
+import { useConnectivity } from "../contexts/ConnectivityContext";
+
+// Aviso exibido enquanto o servidor está inacessível
+export const OfflineBanner: React.FC = () => {
+	const { isOnline } = useConnectivity();
+
+	if (isOnline) return null;
+
+	return (
+		<View style={styles.banner}>
+			<Icon source="cloud-off-outline" size={18} color="white" />
+			<Text style={styles.text}>
+				Você está offline. Exibindo os dados salvos no aparelho.
+			</Text>
+		</View>
+	);
+};
+
+const styles = StyleSheet.create({
+	banner: {
+		flexDirection: "row",
+		alignItems: "center",
+		gap: 8,
+		paddingHorizontal: 16,
+		paddingVertical: 8,
+		backgroundColor: "#616161",
+	},
+	text: {
+		flex: 1,
+		color: "white",
+		fontSize: 13,
+	},
+});
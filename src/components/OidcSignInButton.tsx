@@ -0,0 +1,97 @@
+import React, { useState } from "react";
+import { Alert, StyleSheet } from "react-native";
+import { Button } from "react-native-paper";
+import {
+	makeRedirectUri,
+	ResponseType,
+	useAuthRequest,
+	useAutoDiscovery,
+} from "expo-auth-session";
+import * as WebBrowser from "expo-web-browser";
+import { useAuth } from "../contexts/AuthContext";
+import { OidcConfig } from "../services/config";
+
+// Fecha o navegador quando o provedor redireciona de volta (web)
+WebBrowser.maybeCompleteAuthSession();
+
+interface OidcSignInButtonProps {
+	config: OidcConfig;
+	disabled?: boolean;
+}
+
+// Login social: abre o provedor no navegador (authorization code com PKCE)
+// e entrega o código ao backend, que vincula a identidade à conta pelo
+// email verificado
+export const OidcSignInButton: React.FC<OidcSignInButtonProps> = ({
+	config,
+	disabled,
+}) => {
+	const { loginWithOidc } = useAuth();
+	const [isSigningIn, setIsSigningIn] = useState(false);
+	const discovery = useAutoDiscovery(config.issuer);
+	const redirectUri = makeRedirectUri({
+		scheme: "photoproductapp",
+		path: "oauth",
+	});
+	const [request, , promptAsync] = useAuthRequest(
+		{
+			clientId: config.clientId,
+			redirectUri,
+			scopes: config.scopes,
+			responseType: ResponseType.Code,
+			usePKCE: true,
+		},
+		discovery
+	);
+
+	const handlePress = async () => {
+		if (!request?.codeVerifier) return;
+
+		setIsSigningIn(true);
+		try {
+			const result = await promptAsync();
+			if (result.type === "error") {
+				throw new Error(
+					result.error?.description ??
+						"O provedor recusou a autorização"
+				);
+			}
+			// Cancelado ou fechado pelo usuário
+			if (result.type !== "success") return;
+
+			await loginWithOidc({
+				code: result.params.code,
+				codeVerifier: request.codeVerifier,
+				redirectUri,
+			});
+		} catch (error) {
+			Alert.alert(
+				"Erro no login",
+				error instanceof Error
+					? error.message
+					: "Não foi possível entrar com o provedor"
+			);
+		} finally {
+			setIsSigningIn(false);
+		}
+	};
+
+	return (
+		<Button
+			mode="outlined"
+			icon="login-variant"
+			onPress={handlePress}
+			style={styles.button}
+			disabled={disabled || !request || isSigningIn}
+			loading={isSigningIn}
+		>
+			{`Entrar com ${config.displayName}`}
+		</Button>
+	);
+};
+
+const styles = StyleSheet.create({
+	button: {
+		paddingVertical: 4,
+	},
+});
@@ -0,0 +1,108 @@
+import React from "react";
+import { View, StyleSheet } from "react-native";
+import { Text, Icon, ProgressBar } from "react-native-paper";
+import {
+	PasswordContext,
+	PasswordStrength,
+	checkPassword,
+} from "../utils/passwordPolicy";
+
+interface PasswordStrengthMeterProps extends PasswordContext {
+	password: string;
+}
+
+const STRENGTH_LABELS: Record<PasswordStrength, string> = {
+	weak: "Fraca",
+	fair: "Razoável",
+	good: "Boa",
+	strong: "Forte",
+};
+
+const STRENGTH_COLORS: Record<PasswordStrength, string> = {
+	weak: "#D32F2F",
+	fair: "#F57C00",
+	good: "#7CB342",
+	strong: "#2E7D32",
+};
+
+// Força da senha e regras da política, atualizadas enquanto o usuário digita
+export const PasswordStrengthMeter: React.FC<PasswordStrengthMeterProps> = ({
+	password,
+	email,
+	name,
+}) => {
+	if (!password) return null;
+
+	const { rules, score, strength } = checkPassword(password, { email, name });
+	const color = STRENGTH_COLORS[strength];
+
+	return (
+		<View style={styles.container}>
+			<View style={styles.header}>
+				<View style={styles.barContainer}>
+					<ProgressBar
+						progress={Math.max(score, 0.5) / 4}
+						color={color}
+						style={styles.bar}
+					/>
+				</View>
+				<Text style={[styles.strength, { color }]}>
+					{STRENGTH_LABELS[strength]}
+				</Text>
+			</View>
+
+			{rules.map((rule) => (
+				<View key={rule.id} style={styles.rule}>
+					<Icon
+						source={rule.passed ? "check-circle" : "circle-outline"}
+						size={16}
+						color={rule.passed ? STRENGTH_COLORS.strong : "#9E9E9E"}
+					/>
+					<Text
+						style={[styles.ruleLabel, rule.passed && styles.rulePassed]}
+					>
+						{rule.label}
+					</Text>
+				</View>
+			))}
+		</View>
+	);
+};
+
+const styles = StyleSheet.create({
+	container: {
+		marginBottom: 8,
+	},
+	header: {
+		flexDirection: "row",
+		alignItems: "center",
+		gap: 8,
+		marginBottom: 6,
+	},
+	barContainer: {
+		flex: 1,
+	},
+	bar: {
+		height: 6,
+		borderRadius: 3,
+	},
+	strength: {
+		fontSize: 12,
+		fontWeight: "bold",
+		minWidth: 60,
+		textAlign: "right",
+	},
+	rule: {
+		flexDirection: "row",
+		alignItems: "center",
+		gap: 6,
+		paddingVertical: 2,
+	},
+	ruleLabel: {
+		fontSize: 12,
+		color: "#757575",
+	},
+	rulePassed: {
+		color: "#2E7D32",
+	},
+});
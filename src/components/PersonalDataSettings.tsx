@@ -0,0 +1,184 @@
+import React, { useState } from "react";
+import { Alert, StyleSheet } from "react-native";
+import {
+	ActivityIndicator,
+	Button,
+	Dialog,
+	HelperText,
+	List,
+	Paragraph,
+	Portal,
+	TextInput,
+} from "react-native-paper";
+import { useAuth } from "../contexts/AuthContext";
+import { useCart } from "../contexts/CartContext";
+import { useFavorites } from "../contexts/FavoritesContext";
+import { useNotifications } from "../contexts/NotificationContext";
+import { MyProductsService } from "../services/api";
+import { exportPersonalData } from "../services/dataExport";
+import { AuthError } from "../services/errors";
+
+// Exportação dos dados da conta e exclusão da conta, exibidas no perfil
+export const PersonalDataSettings: React.FC = () => {
+	const { user, deleteAccount } = useAuth();
+	const { cartItems } = useCart();
+	const { favorites } = useFavorites();
+	const { notifications } = useNotifications();
+	const [isExporting, setIsExporting] = useState(false);
+	const [isDeleteDialogVisible, setIsDeleteDialogVisible] = useState(false);
+	const [password, setPassword] = useState("");
+	const [error, setError] = useState<string | null>(null);
+	const [isDeleting, setIsDeleting] = useState(false);
+
+	const handleExport = async () => {
+		if (!user) return;
+
+		setIsExporting(true);
+		try {
+			await exportPersonalData({
+				user,
+				myProducts: await MyProductsService.loadMyProducts(),
+				favorites,
+				cart: cartItems,
+				notifications,
+			});
+		} catch (error) {
+			console.error("Erro ao exportar dados:", error);
+			Alert.alert(
+				"Erro",
+				error instanceof Error
+					? error.message
+					: "Não foi possível exportar seus dados"
+			);
+		} finally {
+			setIsExporting(false);
+		}
+	};
+
+	const closeDeleteDialog = () => {
+		setPassword("");
+		setError(null);
+		setIsDeleteDialogVisible(false);
+	};
+
+	// Contas do login social sem senha confirmam só no diálogo
+	const needsPassword = user?.hasPassword !== false;
+
+	const handleDelete = async () => {
+		if (needsPassword && !password) {
+			setError("Digite sua senha para confirmar");
+			return;
+		}
+
+		setIsDeleting(true);
+		try {
+			// Ao terminar, a navegação volta sozinha para o login
+			await deleteAccount(password);
+		} catch (error) {
+			if (
+				error instanceof AuthError &&
+				error.code === "WRONG_PASSWORD"
+			) {
+				setError("Senha incorreta");
+			} else {
+				console.error("Erro ao excluir conta:", error);
+				setError("Não foi possível excluir a conta. Tente novamente.");
+			}
+			setIsDeleting(false);
+		}
+	};
+
+	return (
+		<>
+			<List.Item
+				title="Baixar meus dados"
+				description="Perfil, produtos, favoritos, carrinho e notificações"
+				left={(props) => <List.Icon {...props} icon="download" />}
+				right={(props) =>
+					isExporting ? (
+						<ActivityIndicator style={styles.loading} />
+					) : (
+						<List.Icon {...props} icon="chevron-right" />
+					)
+				}
+				onPress={handleExport}
+				disabled={isExporting}
+			/>
+
+			<List.Item
+				title="Excluir conta"
+				description="Apaga sua conta e todos os seus dados"
+				titleStyle={styles.danger}
+				left={(props) => (
+					<List.Icon
+						{...props}
+						icon="account-remove"
+						color="#d32f2f"
+					/>
+				)}
+				onPress={() => setIsDeleteDialogVisible(true)}
+			/>
+
+			<Portal>
+				<Dialog
+					visible={isDeleteDialogVisible}
+					onDismiss={isDeleting ? undefined : closeDeleteDialog}
+				>
+					<Dialog.Title>Excluir conta</Dialog.Title>
+					<Dialog.Content>
+						<Paragraph style={styles.warning}>
+							Sua conta, seus produtos e os dados salvos
+							neste aparelho serão apagados. Isso não pode ser
+							desfeito.
+						</Paragraph>
+						{needsPassword && (
+							<TextInput
+								label="Senha"
+								value={password}
+								onChangeText={(value) => {
+									setPassword(value);
+									setError(null);
+								}}
+								mode="outlined"
+								secureTextEntry
+								error={!!error}
+								disabled={isDeleting}
+							/>
+						)}
+						<HelperText type="error" visible={!!error}>
+							{error}
+						</HelperText>
+					</Dialog.Content>
+					<Dialog.Actions>
+						<Button
+							onPress={closeDeleteDialog}
+							disabled={isDeleting}
+						>
+							Cancelar
+						</Button>
+						<Button
+							onPress={handleDelete}
+							loading={isDeleting}
+							disabled={isDeleting}
+							textColor="#d32f2f"
+						>
+							Excluir
+						</Button>
+					</Dialog.Actions>
+				</Dialog>
+			</Portal>
+		</>
+	);
+};
+
+const styles = StyleSheet.create({
+	loading: {
+		marginRight: 8,
+	},
+	danger: {
+		color: "#d32f2f",
+	},
+	warning: {
+		marginBottom: 16,
+	},
+});
@@ -0,0 +1,243 @@
+import React, { useEffect, useState } from "react";
+import { View, StyleSheet, ScrollView } from "react-native";
+import {
+	Modal,
+	Portal,
+	Text,
+	Title,
+	Chip,
+	TextInput,
+	Switch,
+	Button,
+	Divider,
+} from "react-native-paper";
+import { ProductFilters } from "../types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const CREATED_WITHIN_OPTIONS: { label: string; days: number | null }[] = [
+	{ label: "Qualquer data", days: null },
+	{ label: "Últimos 7 dias", days: 7 },
+	{ label: "Últimos 30 dias", days: 30 },
+	{ label: "Último ano", days: 365 },
+];
+
+// Quantidade de filtros ativos (ordenação não conta)
+export const countActiveFilters = (filters: ProductFilters) =>
+	[
+		filters.category,
+		filters.minPrice !== undefined || filters.maxPrice !== undefined,
+		filters.inStockOnly,
+		filters.createdAfter,
+	].filter(Boolean).length;
+
+const toDays = (createdAfter?: Date) =>
+	createdAfter
+		? Math.round((Date.now() - new Date(createdAfter).getTime()) / DAY_MS)
+		: null;
+
+const parsePrice = (value: string) => {
+	const price = parseFloat(value.replace(",", "."));
+	return isNaN(price) ? undefined : price;
+};
+
+interface ProductFilterSheetProps {
+	visible: boolean;
+	filters: ProductFilters;
+	categories: string[];
+	onDismiss: () => void;
+	onApply: (filters: ProductFilters) => void;
+}
+
+export const ProductFilterSheet: React.FC<ProductFilterSheetProps> = ({
+	visible,
+	filters,
+	categories,
+	onDismiss,
+	onApply,
+}) => {
+	const [category, setCategory] = useState<string | undefined>();
+	const [minPrice, setMinPrice] = useState("");
+	const [maxPrice, setMaxPrice] = useState("");
+	const [inStockOnly, setInStockOnly] = useState(false);
+	const [createdWithin, setCreatedWithin] = useState<number | null>(null);
+
+	// Reiniciar o rascunho com os filtros atuais sempre que abrir
+	useEffect(() => {
+		if (visible) {
+			setCategory(filters.category);
+			setMinPrice(filters.minPrice?.toString() ?? "");
+			setMaxPrice(filters.maxPrice?.toString() ?? "");
+			setInStockOnly(!!filters.inStockOnly);
+			setCreatedWithin(toDays(filters.createdAfter));
+		}
+	}, [visible]);
+
+	const handleApply = () => {
+		onApply({
+			sort: filters.sort,
+			category,
+			minPrice: parsePrice(minPrice),
+			maxPrice: parsePrice(maxPrice),
+			inStockOnly: inStockOnly || undefined,
+			createdAfter:
+				createdWithin !== null
+					? new Date(Date.now() - createdWithin * DAY_MS)
+					: undefined,
+		});
+	};
+
+	const handleClear = () => {
+		onApply({ sort: filters.sort });
+	};
+
+	return (
+		<Portal>
+			<Modal
+				visible={visible}
+				onDismiss={onDismiss}
+				contentContainerStyle={styles.sheet}
+			>
+				<ScrollView showsVerticalScrollIndicator={false}>
+					<Title style={styles.title}>Filtros</Title>
+
+					<Text style={styles.sectionLabel}>Categoria</Text>
+					<View style={styles.chipWrap}>
+						{categories.map((item) => (
+							<Chip
+								key={item}
+								selected={category === item}
+								showSelectedCheck={false}
+								mode={category === item ? "flat" : "outlined"}
+								onPress={() =>
+									setCategory((current) =>
+										current === item ? undefined : item
+									)
+								}
+								style={styles.chip}
+							>
+								{item}
+							</Chip>
+						))}
+					</View>
+
+					<Divider style={styles.divider} />
+
+					<Text style={styles.sectionLabel}>Preço (R$)</Text>
+					<View style={styles.priceRow}>
+						<TextInput
+							label="Mínimo"
+							value={minPrice}
+							onChangeText={setMinPrice}
+							mode="outlined"
+							keyboardType="numeric"
+							style={styles.priceInput}
+						/>
+						<TextInput
+							label="Máximo"
+							value={maxPrice}
+							onChangeText={setMaxPrice}
+							mode="outlined"
+							keyboardType="numeric"
+							style={styles.priceInput}
+						/>
+					</View>
+
+					<Divider style={styles.divider} />
+
+					<View style={styles.switchRow}>
+						<Text style={styles.sectionLabel}>
+							Apenas em estoque
+						</Text>
+						<Switch
+							value={inStockOnly}
+							onValueChange={setInStockOnly}
+						/>
+					</View>
+
+					<Divider style={styles.divider} />
+
+					<Text style={styles.sectionLabel}>Adicionado em</Text>
+					<View style={styles.chipWrap}>
+						{CREATED_WITHIN_OPTIONS.map((option) => (
+							<Chip
+								key={option.label}
+								selected={createdWithin === option.days}
+								showSelectedCheck={false}
+								mode={
+									createdWithin === option.days
+										? "flat"
+										: "outlined"
+								}
+								onPress={() => setCreatedWithin(option.days)}
+								style={styles.chip}
+							>
+								{option.label}
+							</Chip>
+						))}
+					</View>
+				</ScrollView>
+
+				<View style={styles.actions}>
+					<Button mode="outlined" onPress={handleClear}>
+						Limpar
+					</Button>
+					<Button mode="contained" onPress={handleApply}>
+						Aplicar filtros
+					</Button>
+				</View>
+			</Modal>
+		</Portal>
+	);
+};
+
+const styles = StyleSheet.create({
+	sheet: {
+		backgroundColor: "white",
+		marginTop: "auto",
+		borderTopLeftRadius: 16,
+		borderTopRightRadius: 16,
+		padding: 20,
+		maxHeight: "85%",
+	},
+	title: {
+		fontSize: 20,
+		fontWeight: "bold",
+		marginBottom: 12,
+	},
+	sectionLabel: {
+		fontSize: 14,
+		fontWeight: "bold",
+		color: "#333",
+		marginBottom: 8,
+	},
+	chipWrap: {
+		flexDirection: "row",
+		flexWrap: "wrap",
+		gap: 8,
+	},
+	chip: {
+		marginBottom: 4,
+	},
+	divider: {
+		marginVertical: 16,
+	},
+	priceRow: {
+		flexDirection: "row",
+		gap: 12,
+	},
+	priceInput: {
+		flex: 1,
+	},
+	switchRow: {
+		flexDirection: "row",
+		justifyContent: "space-between",
+		alignItems: "center",
+	},
+	actions: {
+		flexDirection: "row",
+		justifyContent: "flex-end",
+		gap: 12,
+		marginTop: 16,
+	},
+});
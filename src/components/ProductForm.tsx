@@ -0,0 +1,252 @@
+import React from "react";
+import { View, StyleSheet, Text, Image, ScrollView } from "react-native";
+import {
+	Button,
+	Card,
+	IconButton,
+	Switch,
+	TextInput,
+} from "react-native-paper";
+import { Product } from "../types";
+import { MAX_PRODUCT_IMAGES } from "../services/productImages";
+
+export interface ProductFormValues {
+	name: string;
+	description: string;
+	price: string;
+	category: string;
+	inStock: boolean;
+}
+
+export const EMPTY_PRODUCT_FORM: ProductFormValues = {
+	name: "",
+	description: "",
+	price: "",
+	category: "",
+	inStock: true,
+};
+
+export const productToFormValues = (product: Product): ProductFormValues => ({
+	name: product.name,
+	description: product.description,
+	price: String(product.price),
+	category: product.category,
+	inStock: product.inStock,
+});
+
+// Mensagem do primeiro problema do formulário, ou null se estiver válido
+export const getProductFormError = (values: ProductFormValues) => {
+	if (!values.name.trim() || !values.price.trim()) {
+		return "Nome e preço são obrigatórios";
+	}
+
+	const price = parseFloat(values.price);
+	if (isNaN(price) || price <= 0) {
+		return "Preço deve ser um número válido maior que zero";
+	}
+	return null;
+};
+
+interface ProductFormProps {
+	values: ProductFormValues;
+	onChange: (values: ProductFormValues) => void;
+	// A primeira foto é a capa
+	images: string[];
+	// Sem essas funções, as fotos são só exibidas
+	onChangeImages?: (images: string[]) => void;
+	onAddImage?: () => void;
+	disabled?: boolean;
+}
+
+// Campos do produto usados na criação pela câmera e na edição
+export const ProductForm: React.FC<ProductFormProps> = ({
+	values,
+	onChange,
+	images,
+	onChangeImages,
+	onAddImage,
+	disabled,
+}) => {
+	const setField = <K extends keyof ProductFormValues>(
+		field: K,
+		value: ProductFormValues[K]
+	) => onChange({ ...values, [field]: value });
+
+	const moveImage = (index: number, offset: number) => {
+		const reordered = [...images];
+		const [uri] = reordered.splice(index, 1);
+		reordered.splice(index + offset, 0, uri);
+		onChangeImages?.(reordered);
+	};
+
+	const removeImage = (index: number) =>
+		onChangeImages?.(images.filter((_, i) => i !== index));
+
+	return (
+		<View>
+			{images.length > 0 && (
+				<Card.Cover
+					source={{ uri: images[0] }}
+					style={styles.previewImage}
+				/>
+			)}
+
+			{(images.length > 1 || onChangeImages) && (
+				<ScrollView
+					horizontal
+					showsHorizontalScrollIndicator={false}
+					contentContainerStyle={styles.thumbnailRow}
+				>
+					{images.map((uri, index) => (
+						<View key={`${index}-${uri}`} style={styles.thumbnail}>
+							<Image
+								source={{ uri }}
+								style={styles.thumbnailImage}
+							/>
+							{index === 0 && (
+								<Text style={styles.coverLabel}>Capa</Text>
+							)}
+							{onChangeImages && (
+								<View style={styles.thumbnailActions}>
+									<IconButton
+										icon="chevron-left"
+										size={16}
+										style={styles.thumbnailAction}
+										onPress={() => moveImage(index, -1)}
+										disabled={disabled || index === 0}
+									/>
+									<IconButton
+										icon="delete-outline"
+										size={16}
+										style={styles.thumbnailAction}
+										onPress={() => removeImage(index)}
+										disabled={disabled}
+									/>
+									<IconButton
+										icon="chevron-right"
+										size={16}
+										style={styles.thumbnailAction}
+										onPress={() => moveImage(index, 1)}
+										disabled={
+											disabled ||
+											index === images.length - 1
+										}
+									/>
+								</View>
+							)}
+						</View>
+					))}
+				</ScrollView>
+			)}
+
+			{onAddImage && images.length < MAX_PRODUCT_IMAGES && (
+				<Button
+					icon="image-plus"
+					onPress={onAddImage}
+					style={styles.imageButton}
+					disabled={disabled}
+				>
+					Adicionar foto
+				</Button>
+			)}
+
+			<TextInput
+				label="Nome do produto *"
+				value={values.name}
+				onChangeText={(text) => setField("name", text)}
+				mode="outlined"
+				style={styles.input}
+				disabled={disabled}
+			/>
+
+			<TextInput
+				label="Descrição"
+				value={values.description}
+				onChangeText={(text) => setField("description", text)}
+				mode="outlined"
+				multiline
+				numberOfLines={3}
+				style={styles.input}
+				disabled={disabled}
+			/>
+
+			<TextInput
+				label="Preço *"
+				value={values.price}
+				onChangeText={(text) => setField("price", text)}
+				mode="outlined"
+				keyboardType="numeric"
+				style={styles.input}
+				disabled={disabled}
+			/>
+
+			<TextInput
+				label="Categoria"
+				value={values.category}
+				onChangeText={(text) => setField("category", text)}
+				mode="outlined"
+				style={styles.input}
+				disabled={disabled}
+			/>
+
+			<View style={styles.switchRow}>
+				<Text>Em estoque</Text>
+				<Switch
+					value={values.inStock}
+					onValueChange={(value) => setField("inStock", value)}
+					disabled={disabled}
+				/>
+			</View>
+		</View>
+	);
+};
+
+const styles = StyleSheet.create({
+	previewImage: {
+		height: 200,
+		marginBottom: 16,
+	},
+	thumbnailRow: {
+		gap: 8,
+		marginBottom: 8,
+	},
+	thumbnail: {
+		width: 104,
+		alignItems: "center",
+	},
+	thumbnailImage: {
+		width: 104,
+		height: 104,
+		borderRadius: 8,
+	},
+	coverLabel: {
+		position: "absolute",
+		top: 4,
+		left: 4,
+		paddingHorizontal: 6,
+		borderRadius: 4,
+		backgroundColor: "rgba(0, 0, 0, 0.6)",
+		color: "white",
+		fontSize: 11,
+	},
+	thumbnailActions: {
+		flexDirection: "row",
+		justifyContent: "center",
+	},
+	thumbnailAction: {
+		margin: 0,
+	},
+	imageButton: {
+		alignSelf: "center",
+		marginBottom: 8,
+	},
+	input: {
+		marginBottom: 12,
+	},
+	switchRow: {
+		flexDirection: "row",
+		justifyContent: "space-between",
+		alignItems: "center",
+		marginBottom: 12,
+	},
+});
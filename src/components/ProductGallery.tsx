@@ -0,0 +1,400 @@
+import React, { useMemo, useRef, useState } from "react";
+import {
+	View,
+	StyleSheet,
+	FlatList,
+	Image,
+	Modal,
+	Pressable,
+	Animated,
+	PanResponder,
+	Dimensions,
+	NativeTouchEvent,
+	NativeSyntheticEvent,
+	NativeScrollEvent,
+	useWindowDimensions,
+} from "react-native";
+import { IconButton, Text } from "react-native-paper";
+
+const MAX_ZOOM = 4;
+const DOUBLE_TAP_ZOOM = 2.5;
+const DOUBLE_TAP_DELAY = 300;
+
+interface Transform {
+	scale: number;
+	x: number;
+	y: number;
+}
+
+const IDENTITY: Transform = { scale: 1, x: 0, y: 0 };
+
+const clamp = (value: number, min: number, max: number) =>
+	Math.min(Math.max(value, min), max);
+
+const touchDistance = ([first, second]: NativeTouchEvent[]) =>
+	Math.hypot(first.pageX - second.pageX, first.pageY - second.pageY);
+
+const pageOf = (
+	event: NativeSyntheticEvent<NativeScrollEvent>,
+	width: number
+) => Math.round(event.nativeEvent.contentOffset.x / width);
+
+const imageKey = (uri: string, index: number) => `${index}-${uri}`;
+
+interface ZoomableImageProps {
+	uri: string;
+	width: number;
+	height: number;
+	onZoomChange: (zoomed: boolean) => void;
+}
+
+// Pinça para ampliar, arrastar com a imagem ampliada e toque duplo para
+// alternar o zoom. Sem zoom, o arraste fica com a lista (troca de foto).
+const ZoomableImage: React.FC<ZoomableImageProps> = ({
+	uri,
+	width,
+	height,
+	onZoomChange,
+}) => {
+	const scale = useRef(new Animated.Value(1)).current;
+	const translateX = useRef(new Animated.Value(0)).current;
+	const translateY = useRef(new Animated.Value(0)).current;
+	// Animated.Value não expõe o valor atual de forma síncrona
+	const current = useRef<Transform>(IDENTITY);
+	// Transformação e toques no início do gesto (ou da pinça em andamento)
+	const gesture = useRef({ ...IDENTITY, distance: 0, dx: 0, dy: 0 });
+	const lastTap = useRef(0);
+
+	// A imagem ampliada não sai da área visível
+	const bounded = (next: Transform): Transform => {
+		const maxX = (width * (next.scale - 1)) / 2;
+		const maxY = (height * (next.scale - 1)) / 2;
+		return {
+			scale: next.scale,
+			x: clamp(next.x, -maxX, maxX),
+			y: clamp(next.y, -maxY, maxY),
+		};
+	};
+
+	const apply = (next: Transform) => {
+		current.current = bounded(next);
+		scale.setValue(current.current.scale);
+		translateX.setValue(current.current.x);
+		translateY.setValue(current.current.y);
+	};
+
+	const animateTo = (next: Transform) => {
+		current.current = bounded(next);
+		onZoomChange(current.current.scale > 1);
+		Animated.parallel([
+			Animated.spring(scale, {
+				toValue: current.current.scale,
+				useNativeDriver: true,
+			}),
+			Animated.spring(translateX, {
+				toValue: current.current.x,
+				useNativeDriver: true,
+			}),
+			Animated.spring(translateY, {
+				toValue: current.current.y,
+				useNativeDriver: true,
+			}),
+		]).start();
+	};
+
+	const panResponder = useMemo(
+		() =>
+			PanResponder.create({
+				onStartShouldSetPanResponder: (event) =>
+					event.nativeEvent.touches.length === 2,
+				onMoveShouldSetPanResponder: (event, state) =>
+					event.nativeEvent.touches.length === 2 ||
+					(current.current.scale > 1 &&
+						(Math.abs(state.dx) > 2 || Math.abs(state.dy) > 2)),
+				// Com zoom, a lista não pode roubar o arraste
+				onPanResponderTerminationRequest: () =>
+					current.current.scale <= 1,
+				onPanResponderGrant: () => {
+					gesture.current = {
+						...current.current,
+						distance: 0,
+						dx: 0,
+						dy: 0,
+					};
+				},
+				onPanResponderMove: (event, state) => {
+					const { touches } = event.nativeEvent;
+
+					if (touches.length >= 2) {
+						const distance = touchDistance(touches);
+						if (!gesture.current.distance) {
+							gesture.current = {
+								...current.current,
+								distance,
+								dx: state.dx,
+								dy: state.dy,
+							};
+							return;
+						}
+						apply({
+							...current.current,
+							scale: clamp(
+								(gesture.current.scale * distance) /
+									gesture.current.distance,
+								1,
+								MAX_ZOOM
+							),
+						});
+						return;
+					}
+
+					if (current.current.scale <= 1) return;
+					// Fim da pinça com um dedo ainda na tela: o arraste
+					// recomeça daqui
+					if (gesture.current.distance) {
+						gesture.current = {
+							...current.current,
+							distance: 0,
+							dx: state.dx,
+							dy: state.dy,
+						};
+					}
+					apply({
+						scale: current.current.scale,
+						x: gesture.current.x + state.dx - gesture.current.dx,
+						y: gesture.current.y + state.dy - gesture.current.dy,
+					});
+				},
+				onPanResponderRelease: () =>
+					animateTo(
+						current.current.scale > 1.05
+							? current.current
+							: IDENTITY
+					),
+				onPanResponderTerminate: () => animateTo(current.current),
+			}),
+		[width, height, onZoomChange]
+	);
+
+	const handlePress = () => {
+		const now = Date.now();
+		if (now - lastTap.current < DOUBLE_TAP_DELAY) {
+			lastTap.current = 0;
+			animateTo(
+				current.current.scale > 1
+					? IDENTITY
+					: { scale: DOUBLE_TAP_ZOOM, x: 0, y: 0 }
+			);
+		} else {
+			lastTap.current = now;
+		}
+	};
+
+	return (
+		<View
+			style={[styles.zoomArea, { width, height }]}
+			{...panResponder.panHandlers}
+		>
+			<Pressable onPress={handlePress}>
+				<Animated.Image
+					source={{ uri }}
+					resizeMode="contain"
+					style={{
+						width,
+						height,
+						transform: [
+							{ translateX },
+							{ translateY },
+							{ scale },
+						],
+					}}
+				/>
+			</Pressable>
+		</View>
+	);
+};
+
+interface ImageViewerProps {
+	images: string[];
+	initialIndex: number;
+	// Recebe a foto em exibição ao fechar
+	onClose: (index: number) => void;
+}
+
+// Fotos em tela cheia, deslizando de uma para outra
+const ImageViewer: React.FC<ImageViewerProps> = ({
+	images,
+	initialIndex,
+	onClose,
+}) => {
+	const { width, height } = useWindowDimensions();
+	const [index, setIndex] = useState(initialIndex);
+	const [isZoomed, setIsZoomed] = useState(false);
+
+	return (
+		<Modal
+			visible
+			animationType="fade"
+			onRequestClose={() => onClose(index)}
+			statusBarTranslucent
+		>
+			<View style={styles.viewer}>
+				<FlatList
+					data={images}
+					keyExtractor={imageKey}
+					horizontal
+					pagingEnabled
+					scrollEnabled={!isZoomed}
+					initialScrollIndex={initialIndex}
+					getItemLayout={(_, itemIndex) => ({
+						length: width,
+						offset: width * itemIndex,
+						index: itemIndex,
+					})}
+					onMomentumScrollEnd={(event) =>
+						setIndex(pageOf(event, width))
+					}
+					showsHorizontalScrollIndicator={false}
+					renderItem={({ item }) => (
+						<ZoomableImage
+							uri={item}
+							width={width}
+							height={height}
+							onZoomChange={setIsZoomed}
+						/>
+					)}
+				/>
+
+				<IconButton
+					icon="close"
+					iconColor="white"
+					size={28}
+					style={styles.closeButton}
+					onPress={() => onClose(index)}
+					accessibilityLabel="Fechar fotos"
+				/>
+				{images.length > 1 && (
+					<Text style={styles.counter}>
+						{index + 1} / {images.length}
+					</Text>
+				)}
+			</View>
+		</Modal>
+	);
+};
+
+interface ProductGalleryProps {
+	images: string[];
+	height: number;
+}
+
+// Fotos do produto deslizáveis; um toque abre a foto em tela cheia com zoom
+export const ProductGallery: React.FC<ProductGalleryProps> = ({
+	images,
+	height,
+}) => {
+	const listRef = useRef<FlatList<string>>(null);
+	const [width, setWidth] = useState(Dimensions.get("window").width);
+	const [index, setIndex] = useState(0);
+	const [viewerIndex, setViewerIndex] = useState<number | null>(null);
+
+	// A galeria acompanha a última foto vista em tela cheia
+	const handleCloseViewer = (lastIndex: number) => {
+		setViewerIndex(null);
+		setIndex(lastIndex);
+		listRef.current?.scrollToIndex({ index: lastIndex, animated: false });
+	};
+
+	return (
+		<View onLayout={(event) => setWidth(event.nativeEvent.layout.width)}>
+			<FlatList
+				ref={listRef}
+				data={images}
+				keyExtractor={imageKey}
+				horizontal
+				pagingEnabled
+				getItemLayout={(_, itemIndex) => ({
+					length: width,
+					offset: width * itemIndex,
+					index: itemIndex,
+				})}
+				onMomentumScrollEnd={(event) => setIndex(pageOf(event, width))}
+				showsHorizontalScrollIndicator={false}
+				renderItem={({ item, index: itemIndex }) => (
+					<Pressable
+						onPress={() => setViewerIndex(itemIndex)}
+						accessibilityLabel="Ampliar foto"
+					>
+						<Image
+							source={{ uri: item }}
+							style={{ width, height }}
+						/>
+					</Pressable>
+				)}
+			/>
+
+			{images.length > 1 && (
+				<View style={styles.dots} pointerEvents="none">
+					{images.map((uri, dotIndex) => (
+						<View
+							key={imageKey(uri, dotIndex)}
+							style={[
+								styles.dot,
+								dotIndex === index && styles.activeDot,
+							]}
+						/>
+					))}
+				</View>
+			)}
+
+			{viewerIndex !== null && (
+				<ImageViewer
+					images={images}
+					initialIndex={viewerIndex}
+					onClose={handleCloseViewer}
+				/>
+			)}
+		</View>
+	);
+};
+
+const styles = StyleSheet.create({
+	zoomArea: {
+		overflow: "hidden",
+	},
+	viewer: {
+		flex: 1,
+		backgroundColor: "black",
+	},
+	closeButton: {
+		position: "absolute",
+		top: 40,
+		right: 8,
+		backgroundColor: "rgba(0, 0, 0, 0.5)",
+	},
+	counter: {
+		position: "absolute",
+		bottom: 40,
+		alignSelf: "center",
+		color: "white",
+		fontSize: 14,
+	},
+	dots: {
+		position: "absolute",
+		bottom: 12,
+		left: 0,
+		right: 0,
+		flexDirection: "row",
+		justifyContent: "center",
+		gap: 6,
+	},
+	dot: {
+		width: 8,
+		height: 8,
+		borderRadius: 4,
+		backgroundColor: "rgba(255, 255, 255, 0.6)",
+	},
+	activeDot: {
+		backgroundColor: "white",
+	},
+});
@@ -0,0 +1,248 @@
+import React, { useState, useEffect } from "react";
+import {
+	View,
+	StyleSheet,
+	Keyboard,
+	StyleProp,
+	ViewStyle,
+} from "react-native";
+import {
+	Searchbar,
+	Surface,
+	List,
+	Chip,
+	Text,
+	Button,
+	Divider,
+} from "react-native-paper";
+import { ProductService } from "../services/api";
+import { SearchHistoryService } from "../services/searchHistory";
+import { foldText } from "../services/searchIndex";
+import { useAuth } from "../contexts/AuthContext";
+
+const COMPLETION_DELAY_MS = 150;
+const MAX_MATCHING_RECENTS = 3;
+
+interface ProductSearchBarProps {
+	value: string;
+	onChangeText: (text: string) => void;
+	// Executar a busca imediatamente (sem esperar o debounce)
+	onSubmitSearch: (query: string) => void;
+	style?: StyleProp<ViewStyle>;
+}
+
+// Barra de busca com buscas recentes, categorias populares e autocompletar
+export const ProductSearchBar: React.FC<ProductSearchBarProps> = ({
+	value,
+	onChangeText,
+	onSubmitSearch,
+	style,
+}) => {
+	const { user } = useAuth();
+
+	const [isFocused, setIsFocused] = useState(false);
+	const [recentSearches, setRecentSearches] = useState<string[]>([]);
+	const [popularCategories, setPopularCategories] = useState<string[]>([]);
+	const [completions, setCompletions] = useState<string[]>([]);
+
+	useEffect(() => {
+		if (user) {
+			SearchHistoryService.getRecentSearches(user.id).then(
+				setRecentSearches
+			);
+		} else {
+			setRecentSearches([]);
+		}
+	}, [user?.id]);
+
+	useEffect(() => {
+		ProductService.getPopularCategories()
+			.then(setPopularCategories)
+			.catch((error) =>
+				console.error("Erro ao carregar categorias populares:", error)
+			);
+	}, []);
+
+	// Autocompletar com nomes de produtos enquanto o usuário digita
+	useEffect(() => {
+		const text = value.trim();
+		if (!isFocused || text.length < 2) {
+			setCompletions([]);
+			return;
+		}
+
+		let cancelled = false;
+		const timer = setTimeout(async () => {
+			try {
+				const names = await ProductService.getSearchSuggestions(text);
+				if (!cancelled) setCompletions(names);
+			} catch (error) {
+				console.error("Erro ao carregar sugestões:", error);
+			}
+		}, COMPLETION_DELAY_MS);
+
+		return () => {
+			cancelled = true;
+			clearTimeout(timer);
+		};
+	}, [value, isFocused]);
+
+	const runSearch = (query: string) => {
+		const trimmed = query.trim();
+
+		Keyboard.dismiss();
+		setIsFocused(false);
+		if (trimmed !== value) onChangeText(trimmed);
+		onSubmitSearch(trimmed);
+
+		if (trimmed && user) {
+			SearchHistoryService.addRecentSearch(user.id, trimmed).then(
+				setRecentSearches
+			);
+		}
+	};
+
+	const handleClearHistory = async () => {
+		if (!user) return;
+		await SearchHistoryService.clearRecentSearches(user.id);
+		setRecentSearches([]);
+	};
+
+	const text = value.trim();
+	const matchingRecents = text
+		? recentSearches
+				.filter((item) => foldText(item).includes(foldText(text)))
+				.slice(0, MAX_MATCHING_RECENTS)
+		: recentSearches;
+	const visibleCompletions = completions.filter(
+		(name) => !matchingRecents.includes(name)
+	);
+
+	const hasSuggestions = text
+		? matchingRecents.length > 0 || visibleCompletions.length > 0
+		: recentSearches.length > 0 || popularCategories.length > 0;
+
+	return (
+		<View style={style}>
+			<Searchbar
+				placeholder="Buscar produtos..."
+				onChangeText={onChangeText}
+				value={value}
+				autoCapitalize="none"
+				autoCorrect={false}
+				returnKeyType="search"
+				onFocus={() => setIsFocused(true)}
+				onBlur={() => setIsFocused(false)}
+				onSubmitEditing={() => runSearch(value)}
+			/>
+
+			{isFocused && hasSuggestions && (
+				<Surface style={styles.dropdown} elevation={3}>
+					{matchingRecents.length > 0 && (
+						<>
+							<View style={styles.sectionHeader}>
+								<Text style={styles.sectionTitle}>
+									Buscas recentes
+								</Text>
+								{!text && (
+									<Button
+										compact
+										onPress={handleClearHistory}
+									>
+										Limpar histórico
+									</Button>
+								)}
+							</View>
+							{matchingRecents.map((item) => (
+								<List.Item
+									key={`recent-${item}`}
+									title={item}
+									left={(props) => (
+										<List.Icon {...props} icon="history" />
+									)}
+									onPress={() => runSearch(item)}
+									style={styles.item}
+								/>
+							))}
+						</>
+					)}
+
+					{visibleCompletions.length > 0 && (
+						<>
+							{matchingRecents.length > 0 && <Divider />}
+							{visibleCompletions.map((name) => (
+								<List.Item
+									key={`completion-${name}`}
+									title={name}
+									titleNumberOfLines={1}
+									left={(props) => (
+										<List.Icon {...props} icon="magnify" />
+									)}
+									onPress={() => runSearch(name)}
+									style={styles.item}
+								/>
+							))}
+						</>
+					)}
+
+					{!text && popularCategories.length > 0 && (
+						<>
+							{recentSearches.length > 0 && <Divider />}
+							<Text
+								style={[
+									styles.sectionTitle,
+									styles.sectionHeader,
+								]}
+							>
+								Categorias populares
+							</Text>
+							<View style={styles.chipWrap}>
+								{popularCategories.map((category) => (
+									<Chip
+										key={category}
+										icon="tag-outline"
+										compact
+										onPress={() => runSearch(category)}
+									>
+										{category}
+									</Chip>
+								))}
+							</View>
+						</>
+					)}
+				</Surface>
+			)}
+		</View>
+	);
+};
+
+const styles = StyleSheet.create({
+	dropdown: {
+		marginTop: 4,
+		borderRadius: 8,
+		backgroundColor: "white",
+		paddingVertical: 4,
+	},
+	sectionHeader: {
+		flexDirection: "row",
+		justifyContent: "space-between",
+		alignItems: "center",
+		paddingHorizontal: 16,
+		paddingTop: 8,
+	},
+	sectionTitle: {
+		fontSize: 12,
+		fontWeight: "bold",
+		color: "#666",
+		textTransform: "uppercase",
+	},
+	item: {
+		paddingVertical: 2,
+	},
+	chipWrap: {
+		flexDirection: "row",
+		flexWrap: "wrap",
+		gap: 8,
+		padding: 12,
+	},
+});
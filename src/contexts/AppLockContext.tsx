@@ -0,0 +1,197 @@
+import React, { createContext, useContext, useEffect, useRef, useState } from 'react';
+import { AppState } from 'react-native';
+import {
+  AppLockService,
+  AppLockSettings,
+  DEFAULT_APP_LOCK_SETTINGS,
+  NO_PIN_ATTEMPTS,
+  PinAttempts,
+} from '../services/appLock';
+import { useAuth } from './AuthContext';
+
+// PINs errados seguidos antes de encerrar a sessão
+export const MAX_PIN_ATTEMPTS = 5;
+
+interface AppLockContextType {
+  settings: AppLockSettings;
+  // Configurações carregadas; antes disso não dá para saber se o app abre bloqueado
+  isReady: boolean;
+  isLocked: boolean;
+  biometricsAvailable: boolean;
+  remainingPinAttempts: number;
+  // Depois de alguns erros, o PIN só é aceito a partir deste momento (ms)
+  pinLockedUntil: number;
+  unlockWithBiometrics: () => Promise<boolean>;
+  unlockWithPin: (pin: string) => Promise<boolean>;
+  enableLock: (pin: string) => Promise<void>;
+  disableLock: () => Promise<void>;
+  changePin: (pin: string) => Promise<void>;
+  updateSettings: (changes: Partial<Omit<AppLockSettings, 'enabled'>>) => Promise<void>;
+}
+
+const AppLockContext = createContext<AppLockContextType | undefined>(undefined);
+
+export const AppLockProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { isAuthenticated, isLoading, logout } = useAuth();
+  const [settings, setSettings] = useState(DEFAULT_APP_LOCK_SETTINGS);
+  const [isReady, setIsReady] = useState(false);
+  const [isLocked, setIsLocked] = useState(false);
+  const [biometricsAvailable, setBiometricsAvailable] = useState(false);
+  const [pinAttempts, setPinAttempts] = useState(NO_PIN_ATTEMPTS);
+
+  const settingsRef = useRef(settings);
+  const backgroundAtRef = useRef<number | null>(null);
+  // Verificação de sessão ainda em andamento ou com sessão restaurada
+  const mayHaveSessionRef = useRef(true);
+  mayHaveSessionRef.current = isAuthenticated || isLoading;
+
+  // Ao abrir o app, uma sessão salva só aparece depois do desbloqueio
+  useEffect(() => {
+    const load = async () => {
+      const [saved, available, attempts] = await Promise.all([
+        AppLockService.getSettings(),
+        AppLockService.isBiometricsAvailable(),
+        AppLockService.getPinAttempts(),
+      ]);
+      settingsRef.current = saved;
+      setSettings(saved);
+      setBiometricsAvailable(available);
+      setPinAttempts(attempts);
+      setIsLocked(saved.enabled && mayHaveSessionRef.current);
+      setIsReady(true);
+    };
+
+    load();
+  }, []);
+
+  // Sem sessão não há o que bloquear; o próximo login entra desbloqueado
+  useEffect(() => {
+    if (!isAuthenticated && !isLoading) {
+      setIsLocked(false);
+      resetPinAttempts();
+    }
+  }, [isAuthenticated, isLoading]);
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (state) => {
+      // "inactive" também acontece durante o próprio prompt de biometria
+      if (state === 'background') {
+        backgroundAtRef.current = Date.now();
+        return;
+      }
+
+      const backgroundAt = backgroundAtRef.current;
+      if (state !== 'active' || backgroundAt === null) return;
+
+      backgroundAtRef.current = null;
+      const { enabled, timeoutMs } = settingsRef.current;
+      const elapsed = Date.now() - backgroundAt;
+      if (enabled && mayHaveSessionRef.current && elapsed >= timeoutMs) {
+        setIsLocked(true);
+      }
+    });
+
+    return () => subscription.remove();
+  }, []);
+
+  const saveSettings = async (next: AppLockSettings) => {
+    await AppLockService.saveSettings(next);
+    settingsRef.current = next;
+    setSettings(next);
+  };
+
+  const resetPinAttempts = () => {
+    setPinAttempts(NO_PIN_ATTEMPTS);
+    AppLockService.resetPinAttempts().catch((error) =>
+      console.error('Erro ao zerar tentativas de PIN:', error)
+    );
+  };
+
+  const unlock = () => {
+    setIsLocked(false);
+    resetPinAttempts();
+  };
+
+  const unlockWithBiometrics = async () => {
+    if (!settings.biometricsEnabled || !biometricsAvailable) return false;
+
+    try {
+      const success = await AppLockService.authenticateWithBiometrics();
+      if (success) unlock();
+      return success;
+    } catch (error) {
+      console.error('Erro na autenticação biométrica:', error);
+      return false;
+    }
+  };
+
+  // A contagem salva vale mais que o estado: o app pode ter sido reaberto
+  // no meio das tentativas
+  const unlockWithPin = async (pin: string) => {
+    const saved = await AppLockService.getPinAttempts();
+    if (saved.failed >= MAX_PIN_ATTEMPTS) {
+      await logout();
+      return false;
+    }
+    if (saved.lockedUntil > Date.now()) {
+      setPinAttempts(saved);
+      return false;
+    }
+
+    if (await AppLockService.verifyPin(pin)) {
+      unlock();
+      return true;
+    }
+
+    const attempts = await AppLockService.recordFailedPin();
+    setPinAttempts(attempts);
+    if (attempts.failed >= MAX_PIN_ATTEMPTS) {
+      await logout();
+    }
+    return false;
+  };
+
+  const enableLock = async (pin: string) => {
+    await AppLockService.setPin(pin);
+    await saveSettings({ ...settings, enabled: true });
+  };
+
+  const disableLock = async () => {
+    await AppLockService.clearPin();
+    await saveSettings({ ...settings, enabled: false, biometricsEnabled: false });
+  };
+
+  const changePin = (pin: string) => AppLockService.setPin(pin);
+
+  const updateSettings = (changes: Partial<Omit<AppLockSettings, 'enabled'>>) =>
+    saveSettings({ ...settings, ...changes });
+
+  const value: AppLockContextType = {
+    settings,
+    isReady,
+    isLocked,
+    biometricsAvailable,
+    remainingPinAttempts: MAX_PIN_ATTEMPTS - pinAttempts.failed,
+    pinLockedUntil: pinAttempts.lockedUntil,
+    unlockWithBiometrics,
+    unlockWithPin,
+    enableLock,
+    disableLock,
+    changePin,
+    updateSettings,
+  };
+
+  return (
+    <AppLockContext.Provider value={value}>
+      {children}
+    </AppLockContext.Provider>
+  );
+};
+
+export const useAppLock = () => {
+  const context = useContext(AppLockContext);
+  if (context === undefined) {
+    throw new Error('useAppLock deve ser usado dentro de um AppLockProvider');
+  }
+  return context;
+};
@@ -1,13 +1,35 @@
 import React, { createContext, useContext, useEffect, useReducer } from 'react';
 import * as SecureStore from 'expo-secure-store';
 import { AuthState, User, LoginCredentials, RegisterCredentials } from '../types';
-import { AuthService } from '../services/api';
+import { AuthService, session } from '../services/api';
+import { AccountService } from '../services/accounts';
+import { AuthTokens, OidcAuthorization, ProfileChanges } from '../services/backend';
+import { AuthError } from '../services/errors';
+import { OfflineCacheService } from '../services/offlineCache';
+import { productOutbox } from '../services/productOutbox';
+import { queryCache } from '../services/queryCache';
+import { clearUserStorage, migrateLegacyStorage } from '../services/userStorage';
+import { getPasswordPolicyError } from '../utils/passwordPolicy';
+
+interface LogoutOptions {
+  // Apagar também carrinho, favoritos, cache e envios pendentes da conta
+  wipeLocalData?: boolean;
+}
 
 interface AuthContextType extends AuthState {
   login: (credentials: LoginCredentials) => Promise<void>;
+  loginWithOidc: (authorization: OidcAuthorization) => Promise<void>;
   register: (credentials: RegisterCredentials) => Promise<void>;
-  logout: () => Promise<void>;
-  updateUser: (user: Partial<User>) => Promise<void>;
+  resetPassword: (email: string, otp: string, newPassword: string) => Promise<void>;
+  logout: (options?: LogoutOptions) => Promise<void>;
+  // O email só muda pela confirmação do código (confirmEmailChange)
+  updateUser: (changes: ProfileChanges) => Promise<void>;
+  confirmEmailChange: (newEmail: string, otp: string) => Promise<void>;
+  changePassword: (currentPassword: string, newPassword: string) => Promise<void>;
+  deleteAccount: (password: string) => Promise<void>;
+  switchAccount: (userId: string) => Promise<void>;
+  addAccount: () => Promise<void>;
+  removeAccount: (userId: string) => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -16,7 +38,9 @@ type AuthAction =
   | { type: 'SET_LOADING'; payload: boolean }
   | { type: 'SET_USER'; payload: User | null }
   | { type: 'LOGIN_SUCCESS'; payload: User }
-  | { type: 'LOGOUT' };
+  | { type: 'LOGOUT' }
+  | { type: 'SESSION_EXPIRED' }
+  | { type: 'SET_ACCOUNTS'; payload: User[] };
 
 const authReducer = (state: AuthState, action: AuthAction): AuthState => {
   switch (action.type) {
@@ -35,6 +59,7 @@ const authReducer = (state: AuthState, action: AuthAction): AuthState => {
         user: action.payload,
         isAuthenticated: true,
         isLoading: false,
+        sessionExpired: false,
       };
     case 'LOGOUT':
       return {
@@ -42,7 +67,18 @@ const authReducer = (state: AuthState, action: AuthAction): AuthState => {
         user: null,
         isAuthenticated: false,
         isLoading: false,
+        sessionExpired: false,
       };
+    case 'SESSION_EXPIRED':
+      return {
+        ...state,
+        user: null,
+        isAuthenticated: false,
+        isLoading: false,
+        sessionExpired: true,
+      };
+    case 'SET_ACCOUNTS':
+      return { ...state, accounts: action.payload };
     default:
       return state;
   }
@@ -52,30 +88,113 @@ const initialState: AuthState = {
   user: null,
   isLoading: true,
   isAuthenticated: false,
+  sessionExpired: false,
+  accounts: [],
 };
 
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [state, dispatch] = useReducer(authReducer, initialState);
 
-  // Verificar se existe token salvo ao inicializar
+  // Verificar se existe sessão salva ao inicializar
   useEffect(() => {
     checkAuthStatus();
   }, []);
 
+  // Cache e fila de envio passam a ser os da conta logada
+  useEffect(() => {
+    const userId = state.user?.id ?? null;
+    queryCache.clear();
+    OfflineCacheService.setUser(userId);
+    productOutbox.setUser(userId);
+  }, [state.user?.id]);
+
+  // Renovação recusada pelo backend: voltar para o login avisando o usuário
+  useEffect(() => {
+    return session.onExpired((accountId) => {
+      forgetAccount(accountId);
+      dispatch({ type: 'SESSION_EXPIRED' });
+    });
+  }, []);
+
+  // Apagar a sessão salva da conta e tirá-la da lista. Encerrar no backend é
+  // melhor esforço: sem conexão o refresh token apenas expira sozinho.
+  const forgetAccount = async (userId: string) => {
+    const refreshToken = await session.discard(userId);
+    if (refreshToken) {
+      AuthService.logout(refreshToken).catch((error) =>
+        console.error('Erro ao encerrar sessão no servidor:', error)
+      );
+    }
+
+    const accounts = await AccountService.removeAccount(userId);
+    dispatch({ type: 'SET_ACCOUNTS', payload: accounts });
+  };
+
+  // Tornar a conta ativa e colocá-la no topo da lista de contas salvas
+  const activateAccount = async (user: User) => {
+    // Antes de carrinho, favoritos etc. serem lidos para a conta
+    try {
+      await migrateLegacyStorage(user.id);
+    } catch (error) {
+      console.error('Erro ao migrar dados antigos:', error);
+    }
+
+    await AccountService.setActiveAccountId(user.id);
+    const { accounts, dropped } = await AccountService.saveAccount(user);
+    await Promise.all(dropped.map((account) => forgetAccount(account.id)));
+
+    dispatch({ type: 'SET_ACCOUNTS', payload: accounts });
+    dispatch({ type: 'LOGIN_SUCCESS', payload: user });
+  };
+
+  const startSession = async (user: User, tokens: AuthTokens) => {
+    await session.start(user.id, tokens);
+    await activateAccount(user);
+  };
+
   const checkAuthStatus = async () => {
+    let activeId: string | null = null;
+
     try {
-      const token = await SecureStore.getItemAsync('authToken');
-      const userString = await SecureStore.getItemAsync('userData');
-      
-      if (token && userString) {
-        const user = JSON.parse(userString);
-        dispatch({ type: 'SET_USER', payload: user });
-      } else {
+      // Chaves de versões anteriores, com uma única conta
+      await Promise.all(
+        ['authToken', 'authTokens', 'userData'].map((key) => SecureStore.deleteItemAsync(key))
+      );
+
+      const accounts = await AccountService.getAccounts();
+      dispatch({ type: 'SET_ACCOUNTS', payload: accounts });
+
+      activeId = await AccountService.getActiveAccountId();
+      const account = accounts.find((item) => item.id === activeId);
+      if (!account) {
         dispatch({ type: 'SET_LOADING', payload: false });
+        return;
+      }
+
+      if (!(await session.restore(account.id))) {
+        throw new AuthError('SESSION_EXPIRED');
+      }
+
+      try {
+        const user = await AuthService.getCurrentUser();
+        dispatch({ type: 'SET_ACCOUNTS', payload: await AccountService.updateAccount(user) });
+        dispatch({ type: 'SET_USER', payload: user });
+      } catch (error) {
+        if (error instanceof AuthError) throw error;
+
+        // Sem conexão: seguir com os dados salvos da conta
+        dispatch({ type: 'SET_USER', payload: account });
       }
     } catch (error) {
       console.error('Erro ao verificar status de autenticação:', error);
-      dispatch({ type: 'SET_LOADING', payload: false });
+
+      if (error instanceof AuthError && activeId) {
+        await forgetAccount(activeId);
+        dispatch({ type: 'SESSION_EXPIRED' });
+      } else {
+        session.detach();
+        dispatch({ type: 'LOGOUT' });
+      }
     }
   };
 
@@ -83,13 +202,24 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     try {
       dispatch({ type: 'SET_LOADING', payload: true });
       
-      const { user, token } = await AuthService.login(credentials.email, credentials.password);
+      const { user, tokens } = await AuthService.login(credentials.email, credentials.password);
       
-      // Salvar dados no SecureStore
-      await SecureStore.setItemAsync('authToken', token);
-      await SecureStore.setItemAsync('userData', JSON.stringify(user));
-      
-      dispatch({ type: 'LOGIN_SUCCESS', payload: user });
+      // Salvar a sessão no SecureStore
+      await startSession(user, tokens);
+    } catch (error) {
+      dispatch({ type: 'SET_LOADING', payload: false });
+      throw error;
+    }
+  };
+
+  // Código de autorização obtido pelo app no provedor OIDC (com PKCE)
+  const loginWithOidc = async (authorization: OidcAuthorization) => {
+    try {
+      dispatch({ type: 'SET_LOADING', payload: true });
+
+      const { user, tokens } = await AuthService.loginWithOidc(authorization);
+
+      await startSession(user, tokens);
     } catch (error) {
       dispatch({ type: 'SET_LOADING', payload: false });
       throw error;
@@ -101,55 +231,146 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       if (credentials.password !== credentials.confirmPassword) {
         throw new Error('Senhas não coincidem');
       }
+
+      const passwordError = getPasswordPolicyError(credentials.password, credentials);
+      if (passwordError) {
+        throw new Error(passwordError);
+      }
       
       dispatch({ type: 'SET_LOADING', payload: true });
       
-      const { user, token } = await AuthService.register({
+      const { user, tokens } = await AuthService.register({
         name: credentials.name,
         email: credentials.email,
         password: credentials.password,
       });
       
-      // Salvar dados no SecureStore
-      await SecureStore.setItemAsync('authToken', token);
-      await SecureStore.setItemAsync('userData', JSON.stringify(user));
-      
-      dispatch({ type: 'LOGIN_SUCCESS', payload: user });
+      // Salvar a sessão no SecureStore
+      await startSession(user, tokens);
     } catch (error) {
       dispatch({ type: 'SET_LOADING', payload: false });
       throw error;
     }
   };
 
-  const logout = async () => {
+  // Não altera o estado de login: o usuário entra depois com a nova senha
+  const resetPassword = async (email: string, otp: string, newPassword: string) => {
+    const passwordError = getPasswordPolicyError(newPassword, { email });
+    if (passwordError) {
+      throw new Error(passwordError);
+    }
+
+    await AuthService.resetPassword(email, otp, newPassword);
+  };
+
+  const logout = async ({ wipeLocalData = false }: LogoutOptions = {}) => {
     try {
-      await SecureStore.deleteItemAsync('authToken');
-      await SecureStore.deleteItemAsync('userData');
+      if (state.user) {
+        if (wipeLocalData) {
+          await productOutbox.clear();
+          await clearUserStorage(state.user.id);
+        }
+        await forgetAccount(state.user.id);
+      }
       dispatch({ type: 'LOGOUT' });
     } catch (error) {
       console.error('Erro ao fazer logout:', error);
     }
   };
 
-  const updateUser = async (updatedData: Partial<User>) => {
+  // Entrar com outra conta salva, sem digitar a senha
+  const switchAccount = async (userId: string) => {
+    const account = state.accounts.find((item) => item.id === userId);
+    if (!account || account.id === state.user?.id) return;
+
+    if (!(await session.restore(account.id))) {
+      await forgetAccount(account.id);
+      throw new AuthError('SESSION_EXPIRED');
+    }
+
+    await activateAccount(account);
+  };
+
+  // Voltar ao login para entrar com mais uma conta; a atual continua salva
+  const addAccount = async () => {
+    session.detach();
+    await AccountService.setActiveAccountId(null);
+    dispatch({ type: 'LOGOUT' });
+  };
+
+  // Salva no backend; a cópia local só muda com o perfil que ele retornar
+  const updateUser = async (changes: ProfileChanges) => {
     try {
-      if (state.user) {
-        const updatedUser = { ...state.user, ...updatedData, updatedAt: new Date() };
-        await SecureStore.setItemAsync('userData', JSON.stringify(updatedUser));
-        dispatch({ type: 'SET_USER', payload: updatedUser });
-      }
+      const updatedUser = await AuthService.updateProfile(changes);
+      dispatch({ type: 'SET_ACCOUNTS', payload: await AccountService.updateAccount(updatedUser) });
+      dispatch({ type: 'SET_USER', payload: updatedUser });
     } catch (error) {
       console.error('Erro ao atualizar usuário:', error);
       throw error;
     }
   };
 
+  // As outras sessões da conta são encerradas; esta segue com tokens novos
+  const changePassword = async (currentPassword: string, newPassword: string) => {
+    if (!state.user) return;
+
+    const passwordError = getPasswordPolicyError(newPassword, state.user);
+    if (passwordError) {
+      throw new Error(passwordError);
+    }
+    if (newPassword === currentPassword) {
+      throw new Error('A nova senha deve ser diferente da atual');
+    }
+
+    const tokens = await AuthService.changePassword(currentPassword, newPassword);
+    await session.start(state.user.id, tokens);
+
+    // Conta do login social que acabou de definir a primeira senha
+    if (state.user.hasPassword === false) {
+      const updatedUser = { ...state.user, hasPassword: true };
+      dispatch({ type: 'SET_ACCOUNTS', payload: await AccountService.updateAccount(updatedUser) });
+      dispatch({ type: 'SET_USER', payload: updatedUser });
+    }
+  };
+
+  // Apagar a conta no backend e tudo o que ela deixou no aparelho
+  const deleteAccount = async (password: string) => {
+    if (!state.user) return;
+    const userId = state.user.id;
+
+    await AuthService.deleteAccount(password);
+
+    await productOutbox.clear();
+    await clearUserStorage(userId);
+    await forgetAccount(userId);
+    dispatch({ type: 'LOGOUT' });
+  };
+
+  // Aplicar o novo email depois que o backend aceitar o código
+  const confirmEmailChange = async (newEmail: string, otp: string) => {
+    const confirmed = await AuthService.confirmEmailChange(newEmail, otp);
+
+    if (state.user?.id === confirmed.id) {
+      const updatedUser = { ...state.user, email: confirmed.email, updatedAt: confirmed.updatedAt };
+      dispatch({ type: 'SET_ACCOUNTS', payload: await AccountService.updateAccount(updatedUser) });
+      dispatch({ type: 'SET_USER', payload: updatedUser });
+    }
+  };
+
   const value: AuthContextType = {
     ...state,
     login,
+    loginWithOidc,
     register,
+    resetPassword,
     logout,
     updateUser,
+    confirmEmailChange,
+    changePassword,
+    deleteAccount,
+    switchAccount,
+    addAccount,
+    removeAccount: forgetAccount,
   };
 
   return (
@@ -1,6 +1,12 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Product } from '../types';
+import { userStorageKey } from '../services/userStorage';
+import { isProductAvailable } from '../services/productSnapshots';
+import { reviveProductImages } from '../services/productImages';
+import { useCatalogSync } from '../hooks/useCatalogSync';
+import { useAuth } from './AuthContext';
+import { useNotifications } from './NotificationContext';
 
 interface CartItem {
   product: Product;
@@ -14,6 +20,7 @@ interface CartContextType {
   updateQuantity: (productId: string, quantity: number) => void;
   clearCart: () => void;
   getTotalItems: () => number;
+  // Itens indisponíveis ficam no carrinho, mas fora do total
   getTotalPrice: () => number;
   isInCart: (productId: string) => boolean;
 }
@@ -21,31 +28,63 @@ interface CartContextType {
 const CartContext = createContext<CartContextType | undefined>(undefined);
 
 export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const { addNotification } = useNotifications();
+  const userId = user?.id;
   const [cartItems, setCartItems] = useState<CartItem[]>([]);
 
+  // Cada conta tem o próprio carrinho
   useEffect(() => {
-    loadCart();
-  }, []);
-
-  const loadCart = async () => {
+    setCartItems([]);
+    if (!userId) return;
+
+    let active = true;
+    loadCart(userId).then((items) => {
+      if (active) setCartItems(items);
+    });
+    return () => {
+      active = false;
+    };
+  }, [userId]);
+
+  const loadCart = async (userId: string): Promise<CartItem[]> => {
     try {
-      const stored = await AsyncStorage.getItem('cart');
-      if (stored) {
-        setCartItems(JSON.parse(stored));
-      }
+      const stored = await AsyncStorage.getItem(userStorageKey('cart', userId));
+      return stored ? JSON.parse(stored, reviveProductImages) : [];
     } catch (error) {
       console.error('Erro ao carregar carrinho:', error);
+      return [];
     }
   };
 
   const saveCart = async (newCartItems: CartItem[]) => {
+    if (!userId) return;
+
     try {
-      await AsyncStorage.setItem('cart', JSON.stringify(newCartItems));
+      await AsyncStorage.setItem(userStorageKey('cart', userId), JSON.stringify(newCartItems));
     } catch (error) {
       console.error('Erro ao salvar carrinho:', error);
     }
   };
 
+  // Produtos editados ou retirados do catálogo depois de entrarem no carrinho
+  useCatalogSync(
+    cartItems.map(item => item.product),
+    ({ products, newlyUnavailable }) => {
+      const newCartItems = cartItems.map((item, index) => ({ ...item, product: products[index] }));
+      setCartItems(newCartItems);
+      saveCart(newCartItems);
+
+      newlyUnavailable.forEach(product =>
+        addNotification({
+          title: 'Produto indisponível',
+          message: `${product.name} não está mais à venda e não entra no total do carrinho`,
+          type: 'warning',
+        })
+      );
+    }
+  );
+
   const addToCart = (product: Product, quantity: number = 1) => {
     const existingItemIndex = cartItems.findIndex(item => item.product.id === product.id);
     
@@ -96,7 +135,9 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
   };
 
   const getTotalPrice = () => {
-    return cartItems.reduce((total, item) => total + (item.product.price * item.quantity), 0);
+    return cartItems
+      .filter(item => isProductAvailable(item.product))
+      .reduce((total, item) => total + (item.product.price * item.quantity), 0);
   };
 
   const isInCart = (productId: string) => {
@@ -0,0 +1,63 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { AppState } from 'react-native';
+import { connectivity } from '../services/connectivity';
+import { queryCache } from '../services/queryCache';
+import { ProductService } from '../services/api';
+
+interface ConnectivityContextType {
+  isOnline: boolean;
+}
+
+const ConnectivityContext = createContext<ConnectivityContextType | undefined>(undefined);
+
+// Intervalo entre tentativas de reconectar enquanto estiver offline
+const PROBE_INTERVAL_MS = 15000;
+
+const probeConnection = () => {
+  // O resultado da requisição atualiza o estado de conexão
+  ProductService.getCategories().catch(() => undefined);
+};
+
+export const ConnectivityProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [isOnline, setIsOnline] = useState(connectivity.isOnline());
+
+  useEffect(() => {
+    return connectivity.subscribe((online) => {
+      setIsOnline(online);
+
+      // Sincronizar as listas exibidas com o servidor ao reconectar
+      if (online) {
+        queryCache.invalidate('products');
+        queryCache.invalidate('myProducts');
+      }
+    });
+  }, []);
+
+  useEffect(() => {
+    if (isOnline) return;
+
+    const timer = setInterval(probeConnection, PROBE_INTERVAL_MS);
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') probeConnection();
+    });
+
+    return () => {
+      clearInterval(timer);
+      subscription.remove();
+    };
+  }, [isOnline]);
+
+  return (
+    <ConnectivityContext.Provider value={{ isOnline }}>
+      {children}
+    </ConnectivityContext.Provider>
+  );
+};
+
+export const useConnectivity = () => {
+  const context = useContext(ConnectivityContext);
+  if (context === undefined) {
+    throw new Error('useConnectivity deve ser usado dentro de um ConnectivityProvider');
+  }
+  return context;
+};
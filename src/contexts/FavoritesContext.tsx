@@ -1,6 +1,11 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Product } from '../types';
+import { userStorageKey } from '../services/userStorage';
+import { reviveProductImages } from '../services/productImages';
+import { useCatalogSync } from '../hooks/useCatalogSync';
+import { useAuth } from './AuthContext';
+import { useNotifications } from './NotificationContext';
 
 interface FavoritesContextType {
   favorites: Product[];
@@ -13,31 +18,59 @@ interface FavoritesContextType {
 const FavoritesContext = createContext<FavoritesContextType | undefined>(undefined);
 
 export const FavoritesProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const { addNotification } = useNotifications();
+  const userId = user?.id;
   const [favorites, setFavorites] = useState<Product[]>([]);
 
+  // Cada conta tem os próprios favoritos
   useEffect(() => {
-    loadFavorites();
-  }, []);
+    setFavorites([]);
+    if (!userId) return;
 
-  const loadFavorites = async () => {
+    let active = true;
+    loadFavorites(userId).then((items) => {
+      if (active) setFavorites(items);
+    });
+    return () => {
+      active = false;
+    };
+  }, [userId]);
+
+  const loadFavorites = async (userId: string): Promise<Product[]> => {
     try {
-      const stored = await AsyncStorage.getItem('favorites');
-      if (stored) {
-        setFavorites(JSON.parse(stored));
-      }
+      const stored = await AsyncStorage.getItem(userStorageKey('favorites', userId));
+      return stored ? JSON.parse(stored, reviveProductImages) : [];
     } catch (error) {
       console.error('Erro ao carregar favoritos:', error);
+      return [];
     }
   };
 
   const saveFavorites = async (newFavorites: Product[]) => {
+    if (!userId) return;
+
     try {
-      await AsyncStorage.setItem('favorites', JSON.stringify(newFavorites));
+      await AsyncStorage.setItem(userStorageKey('favorites', userId), JSON.stringify(newFavorites));
     } catch (error) {
       console.error('Erro ao salvar favoritos:', error);
     }
   };
 
+  // Produtos editados ou retirados do catálogo depois de favoritados
+  useCatalogSync(favorites, ({ products, newlyUnavailable }) => {
+    setFavorites(products);
+    saveFavorites(products);
+
+    newlyUnavailable.forEach(product =>
+      addNotification({
+        title: 'Favorito indisponível',
+        message: `${product.name} não está mais à venda`,
+        type: 'warning',
+      })
+    );
+  });
+
   const addToFavorites = (product: Product) => {
     const newFavorites = [...favorites, product];
     setFavorites(newFavorites);
@@ -1,7 +1,9 @@
-import React, { createContext, useContext, useEffect, useState } from 'react';
+import React, { createContext, useContext, useEffect, useRef, useState } from 'react';
 import * as Notifications from 'expo-notifications';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { NotificationData } from '../types';
+import { userStorageKey } from '../services/userStorage';
+import { useAuth } from './AuthContext';
 
 interface NotificationContextType {
   notifications: NotificationData[];
@@ -24,12 +26,30 @@ Notifications.setNotificationHandler({
 });
 
 export const NotificationProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const userId = user?.id;
   const [notifications, setNotifications] = useState<NotificationData[]>([]);
   const [unreadCount, setUnreadCount] = useState(0);
 
+  // Cada conta tem as próprias notificações
+  useEffect(() => {
+    setNotifications([]);
+    setUnreadCount(0);
+    if (!userId) return;
+
+    let active = true;
+    loadNotifications(userId).then((items) => {
+      if (active) {
+        setNotifications(items);
+        updateUnreadCount(items);
+      }
+    });
+    return () => {
+      active = false;
+    };
+  }, [userId]);
+
   useEffect(() => {
-    loadNotifications();
-    
     // Listener para notificações recebidas quando o app está em foreground
     const subscription = Notifications.addNotificationReceivedListener(notification => {
       const newNotification: NotificationData = {
@@ -41,28 +61,27 @@ export const NotificationProvider: React.FC<{ children: React.ReactNode }> = ({
         createdAt: new Date(),
       };
       
-      addNotification(newNotification);
+      addNotificationRef.current(newNotification);
     });
 
     return () => subscription.remove();
   }, []);
 
-  const loadNotifications = async () => {
+  const loadNotifications = async (userId: string): Promise<NotificationData[]> => {
     try {
-      const stored = await AsyncStorage.getItem('notifications');
-      if (stored) {
-        const parsedNotifications = JSON.parse(stored);
-        setNotifications(parsedNotifications);
-        updateUnreadCount(parsedNotifications);
-      }
+      const stored = await AsyncStorage.getItem(userStorageKey('notifications', userId));
+      return stored ? JSON.parse(stored) : [];
     } catch (error) {
       console.error('Erro ao carregar notificações:', error);
+      return [];
     }
   };
 
   const saveNotifications = async (newNotifications: NotificationData[]) => {
+    if (!userId) return;
+
     try {
-      await AsyncStorage.setItem('notifications', JSON.stringify(newNotifications));
+      await AsyncStorage.setItem(userStorageKey('notifications', userId), JSON.stringify(newNotifications));
     } catch (error) {
       console.error('Erro ao salvar notificações:', error);
     }
@@ -87,6 +106,10 @@ export const NotificationProvider: React.FC<{ children: React.ReactNode }> = ({
     saveNotifications(updatedNotifications);
   };
 
+  // O listener é registrado uma vez; a ref mantém a lista e a conta atuais
+  const addNotificationRef = useRef(addNotification);
+  addNotificationRef.current = addNotification;
+
   const markAsRead = (id: string) => {
     const updatedNotifications = notifications.map(notification =>
       notification.id === id ? { ...notification, read: true } : notification
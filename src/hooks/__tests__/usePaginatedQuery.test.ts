@@ -0,0 +1,84 @@
+import { describe, expect, it, mock } from "bun:test";
+import { CursorPage } from "../../types";
+
+mock.module("@react-native-async-storage/async-storage", () => ({
+	default: {
+		getItem: async () => null,
+		setItem: async () => {},
+	},
+}));
+
+const { appendUnique, refetchLoadedPages } = await import(
+	"../usePaginatedQuery"
+);
+
+interface Item {
+	id: string;
+}
+
+const getId = (item: Item) => item.id;
+
+// Lista em páginas de "size" itens; o cursor é o índice do próximo item
+const createPages = (ids: string[], size: number) => {
+	const requested: (string | null)[] = [];
+	const fetchPage = async (
+		cursor: string | null
+	): Promise<CursorPage<Item>> => {
+		requested.push(cursor);
+		const start = Number(cursor ?? 0);
+		const end = start + size;
+		return {
+			data: ids.slice(start, end).map((id) => ({ id })),
+			nextCursor: end < ids.length ? String(end) : null,
+			total: ids.length,
+		};
+	};
+	return { fetchPage, requested };
+};
+
+describe("appendUnique", () => {
+	it("anexa só os itens que ainda não estão na lista", () => {
+		expect(
+			appendUnique(
+				[{ id: "a" }, { id: "b" }],
+				[{ id: "b" }, { id: "c" }],
+				getId
+			).map(getId)
+		).toEqual(["a", "b", "c"]);
+	});
+});
+
+describe("refetchLoadedPages", () => {
+	it("recarrega todas as páginas já vistas", async () => {
+		const { fetchPage, requested } = createPages(
+			["a", "b", "c", "d", "e", "f", "g"],
+			2
+		);
+
+		const data = await refetchLoadedPages(fetchPage, 5, getId);
+
+		expect(data.items.map(getId)).toEqual(["a", "b", "c", "d", "e", "f"]);
+		expect(data.nextCursor).toBe("6");
+		expect(data.total).toBe(7);
+		expect(requested).toEqual([null, "2", "4"]);
+	});
+
+	it("sem itens carregados, busca só a primeira página", async () => {
+		const { fetchPage, requested } = createPages(["a", "b", "c"], 2);
+
+		const data = await refetchLoadedPages(fetchPage, 0, getId);
+
+		expect(data.items.map(getId)).toEqual(["a", "b"]);
+		expect(data.nextCursor).toBe("2");
+		expect(requested).toEqual([null]);
+	});
+
+	it("para no fim da lista se ela diminuiu", async () => {
+		const { fetchPage } = createPages(["a", "b", "c"], 2);
+
+		const data = await refetchLoadedPages(fetchPage, 10, getId);
+
+		expect(data.items.map(getId)).toEqual(["a", "b", "c"]);
+		expect(data.nextCursor).toBeNull();
+	});
+});
@@ -0,0 +1,52 @@
+import { useEffect, useRef } from "react";
+import { Product } from "../types";
+import { queryCache } from "../services/queryCache";
+import {
+	SnapshotRefresh,
+	refreshProductSnapshots,
+} from "../services/productSnapshots";
+
+const idsOf = (products: Product[]) =>
+	products.map((product) => product.id).join(",");
+
+// Mantém cópias de produtos (carrinho, favoritos) alinhadas ao catálogo:
+// quando os produtos da lista mudam e sempre que o catálogo muda neste
+// aparelho. "onSync" recebe os produtos na mesma ordem da lista passada.
+export const useCatalogSync = (
+	products: Product[],
+	onSync: (refresh: SnapshotRefresh) => void
+) => {
+	const productsRef = useRef(products);
+	const onSyncRef = useRef(onSync);
+	productsRef.current = products;
+	onSyncRef.current = onSync;
+
+	const sync = useRef(async () => {
+		const snapshot = productsRef.current;
+		if (snapshot.length === 0) return;
+
+		try {
+			const refresh = await refreshProductSnapshots(snapshot);
+			// A lista mudou durante a consulta: a próxima sincronização vale
+			if (refresh && idsOf(productsRef.current) === idsOf(snapshot)) {
+				onSyncRef.current(refresh);
+			}
+		} catch (error) {
+			// Sem conexão: as cópias ficam como estão
+			console.error("Erro ao atualizar produtos salvos:", error);
+		}
+	}).current;
+
+	const ids = idsOf(products);
+	useEffect(() => {
+		sync();
+	}, [ids]);
+
+	useEffect(
+		() =>
+			queryCache.subscribe((scope) => {
+				if (scope === "products") sync();
+			}),
+		[]
+	);
+};
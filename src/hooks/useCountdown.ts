@@ -0,0 +1,22 @@
+import { useState, useEffect } from "react";
+
+// Segundos que faltam até "targetTime" (milissegundos desde a época),
+// atualizados a cada segundo até chegar a zero
+export const useCountdown = (targetTime: number) => {
+	const getRemaining = () =>
+		Math.max(Math.ceil((targetTime - Date.now()) / 1000), 0);
+	const [remaining, setRemaining] = useState(getRemaining);
+
+	useEffect(() => {
+		setRemaining(getRemaining());
+
+		const timer = setInterval(() => {
+			const next = getRemaining();
+			setRemaining(next);
+			if (next === 0) clearInterval(timer);
+		}, 1000);
+		return () => clearInterval(timer);
+	}, [targetTime]);
+
+	return remaining;
+};
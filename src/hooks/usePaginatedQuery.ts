@@ -0,0 +1,228 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+import { CursorPage } from "../types";
+import { RequestCancelledError } from "../services/errors";
+import { OfflineCacheService } from "../services/offlineCache";
+import { queryCache } from "../services/queryCache";
+
+const DEFAULT_STALE_TIME_MS = 30 * 1000;
+const MAX_PERSISTED_ITEMS = 50;
+
+type LoadMode = "reset" | "refresh" | "revalidate" | "more";
+
+interface PaginatedData<T> {
+	items: T[];
+	total: number;
+	nextCursor: string | null;
+}
+
+interface PaginatedQueryOptions<T> {
+	// Chave da consulta (ver createQueryKey); mudar a chave recarrega a lista
+	queryKey: string;
+	fetchPage: (
+		cursor: string | null,
+		signal: AbortSignal
+	) => Promise<CursorPage<T>>;
+	getId: (item: T) => string;
+	// Por quanto tempo os dados em cache são exibidos sem revalidar
+	staleTimeMs?: number;
+	// Salvar a lista no aparelho para exibi-la sem conexão e ao abrir o app
+	persist?: boolean;
+}
+
+// Anexar apenas itens que ainda não estão na lista
+export const appendUnique = <T>(
+	current: T[],
+	incoming: T[],
+	getId: (item: T) => string
+) => {
+	const seen = new Set(current.map(getId));
+	return [...current, ...incoming.filter((item) => !seen.has(getId(item)))];
+};
+
+// Recarrega a lista do começo até cobrir os itens já carregados: quem rolou
+// além da primeira página continua no mesmo ponto depois da revalidação
+export const refetchLoadedPages = async <T>(
+	fetchPage: (cursor: string | null) => Promise<CursorPage<T>>,
+	loadedCount: number,
+	getId: (item: T) => string
+): Promise<PaginatedData<T>> => {
+	let page = await fetchPage(null);
+	let items = page.data;
+
+	while (
+		items.length < loadedCount &&
+		page.nextCursor &&
+		page.data.length > 0
+	) {
+		page = await fetchPage(page.nextCursor);
+		items = appendUnique(items, page.data, getId);
+	}
+	return { items, total: page.total, nextCursor: page.nextCursor };
+};
+
+// Salva só o começo da lista; sem o restante, o cursor não teria continuidade
+const toPersisted = <T>(data: PaginatedData<T>): PaginatedData<T> => {
+	if (data.items.length <= MAX_PERSISTED_ITEMS) return data;
+	return {
+		...data,
+		items: data.items.slice(0, MAX_PERSISTED_ITEMS),
+		nextCursor: null,
+	};
+};
+
+// Lista paginada por cursor com cache, pull-to-refresh e scroll infinito.
+// Dados em cache aparecem na hora e são revalidados em segundo plano; uma
+// requisição nova cancela a anterior, então respostas antigas não
+// sobrescrevem as mais recentes.
+export const usePaginatedQuery = <T>({
+	queryKey,
+	fetchPage,
+	getId,
+	staleTimeMs = DEFAULT_STALE_TIME_MS,
+	persist = false,
+}: PaginatedQueryOptions<T>) => {
+	const [data, setData] = useState<PaginatedData<T> | undefined>(
+		() => queryCache.get<PaginatedData<T>>(queryKey)?.data
+	);
+	const [error, setError] = useState<Error | null>(null);
+	const [isLoading, setIsLoading] = useState(
+		() => !queryCache.get(queryKey)
+	);
+	const [isRefreshing, setIsRefreshing] = useState(false);
+	const [isLoadingMore, setIsLoadingMore] = useState(false);
+
+	const controllerRef = useRef<AbortController | null>(null);
+	const fetchPageRef = useRef(fetchPage);
+	fetchPageRef.current = fetchPage;
+
+	const load = useCallback(
+		async (mode: LoadMode, cursor: string | null) => {
+			controllerRef.current?.abort();
+			const controller = new AbortController();
+			controllerRef.current = controller;
+
+			if (mode === "more") setIsLoadingMore(true);
+			else if (mode === "refresh") setIsRefreshing(true);
+			else if (mode === "reset") setIsLoading(true);
+
+			const fetchAt = (pageCursor: string | null) =>
+				queryCache.fetch(
+					`${queryKey}@${pageCursor ?? ""}`,
+					(signal) => fetchPageRef.current(pageCursor, signal),
+					controller.signal
+				);
+
+			try {
+				let next: PaginatedData<T>;
+				if (mode === "revalidate") {
+					const loaded =
+						queryCache.get<PaginatedData<T>>(queryKey)?.data;
+					next = await refetchLoadedPages(
+						fetchAt,
+						loaded?.items.length ?? 0,
+						getId
+					);
+				} else {
+					const page = await fetchAt(cursor);
+					const previous =
+						queryCache.get<PaginatedData<T>>(queryKey)?.data;
+					next = {
+						items:
+							mode === "more" && previous
+								? appendUnique(previous.items, page.data, getId)
+								: page.data,
+						total: page.total,
+						nextCursor: page.nextCursor,
+					};
+				}
+
+				queryCache.set(queryKey, next);
+				setData(next);
+				setError(null);
+
+				if (persist) {
+					OfflineCacheService.saveQuery(queryKey, toPersisted(next));
+				}
+			} catch (error) {
+				if (error instanceof RequestCancelledError) return;
+				console.error("Erro ao carregar lista:", error);
+				setError(error as Error);
+			} finally {
+				if (controllerRef.current === controller) {
+					controllerRef.current = null;
+					setIsLoading(false);
+					setIsRefreshing(false);
+					setIsLoadingMore(false);
+				}
+			}
+		},
+		[queryKey, getId, persist]
+	);
+
+	useEffect(() => {
+		const cached = queryCache.get<PaginatedData<T>>(queryKey);
+		let active = true;
+		setData(cached?.data);
+		setError(null);
+
+		if (!cached) {
+			load("reset", null);
+
+			// Exibir a cópia salva enquanto a primeira página não chega
+			if (persist) {
+				OfflineCacheService.getQuery<PaginatedData<T>>(queryKey).then(
+					(saved) => {
+						if (saved && active && !queryCache.get(queryKey)) {
+							setData(saved);
+						}
+					}
+				);
+			}
+		} else if (queryCache.isStale(queryKey, staleTimeMs)) {
+			load("revalidate", null);
+		}
+
+		// Revalidar quando outra parte do app invalidar esta consulta
+		const unsubscribe = queryCache.subscribe((scope) => {
+			if (queryKey.startsWith(`${scope}:`)) load("revalidate", null);
+		});
+
+		return () => {
+			active = false;
+			unsubscribe();
+			controllerRef.current?.abort();
+		};
+	}, [queryKey, load]);
+
+	const refresh = useCallback(() => load("refresh", null), [load]);
+
+	// Revalida apenas se o cache estiver desatualizado (ex.: ao focar a tela)
+	const revalidate = useCallback(() => {
+		if (
+			!controllerRef.current &&
+			queryCache.isStale(queryKey, staleTimeMs)
+		) {
+			load("revalidate", null);
+		}
+	}, [queryKey, staleTimeMs, load]);
+
+	const nextCursor = data?.nextCursor ?? null;
+	const loadMore = useCallback(() => {
+		if (nextCursor && !controllerRef.current) {
+			load("more", nextCursor);
+		}
+	}, [nextCursor, load]);
+
+	return {
+		items: data?.items ?? [],
+		total: data?.total ?? 0,
+		hasMore: data ? data.nextCursor !== null : true,
+		error,
+		isLoading,
+		isRefreshing,
+		isLoadingMore,
+		refresh,
+		revalidate,
+		loadMore,
+	};
+};
@@ -0,0 +1,25 @@
+import { useState, useEffect, useCallback } from "react";
+import { OutboxEntry, productOutbox } from "../services/productOutbox";
+
+// Produtos aguardando envio, atualizados conforme a fila anda
+export const useProductOutbox = () => {
+	const [entries, setEntries] = useState<OutboxEntry[]>([]);
+
+	useEffect(() => {
+		let active = true;
+		productOutbox.getEntries().then((current) => {
+			if (active) setEntries(current);
+		});
+
+		const unsubscribe = productOutbox.subscribe(setEntries);
+		return () => {
+			active = false;
+			unsubscribe();
+		};
+	}, []);
+
+	const retry = useCallback((id: string) => productOutbox.retry(id), []);
+	const discard = useCallback((id: string) => productOutbox.discard(id), []);
+
+	return { entries, retry, discard };
+};
@@ -1,4 +1,4 @@
-import React from "react";
+import React, { useRef } from "react";
 import { NavigationContainer } from "@react-navigation/native";
 import { createStackNavigator } from "@react-navigation/stack";
 import { createBottomTabNavigator } from "@react-navigation/bottom-tabs";
@@ -7,6 +7,7 @@ import Icon from "react-native-vector-icons/MaterialCommunityIcons";
 
 import { RootStackParamList, MainTabParamList } from "../types";
 import { useAuth } from "../contexts/AuthContext";
+import { useAppLock } from "../contexts/AppLockContext";
 import { useNotifications } from "../contexts/NotificationContext";
 
 // Auth Screens
@@ -14,17 +15,22 @@ import { LoginScreen } from "../screens/LoginScreen";
 import { RegisterScreen } from "../screens/RegisterScreen";
 import { ForgotPasswordScreen } from "../screens/ForgotPasswordScreen";
 import { ResetPasswordScreen } from "../screens/ResetPasswordScreen";
+import { LockScreen } from "../screens/LockScreen";
 
 // Main Screens
 import { HomeScreen } from "../screens/HomeScreen";
 import { ProductsScreen } from "../screens/ProductsScreen";
 import { ProductDetailScreen } from "../screens/ProductDetailScreen";
+import { SellerProfileScreen } from "../screens/SellerProfileScreen";
 import { CameraScreen } from "../screens/CameraScreen";
 import { ProfileScreen } from "../screens/ProfileScreen";
 import { EditProfileScreen } from "../screens/EditProfileScreen";
+import { VerifyEmailScreen } from "../screens/VerifyEmailScreen";
+import { ChangePasswordScreen } from "../screens/ChangePasswordScreen";
 import { NotificationsScreen } from "../screens/NotificationsScreen";
 import { FavoritesScreen } from "../screens/FavoritesScreen";
 import { MyProductsScreen } from "../screens/MyProductsScreen";
+import { EditProductScreen } from "../screens/EditProductScreen";
 import { CartScreen } from "../screens/CartScreen";
 
 const Stack = createStackNavigator<RootStackParamList>();
@@ -141,112 +147,150 @@ const MainTabs: React.FC = () => {
 
 export const AppNavigator: React.FC = () => {
 	const { isAuthenticated, isLoading } = useAuth();
+	const { isReady: isLockReady, isLocked } = useAppLock();
+	const hasCheckedAuthRef = useRef(false);
 
-	if (isLoading) {
+	// Aguardar só a verificação inicial: login e cadastro não devem desmontar
+	// a navegação (a tela de login exibe o próprio carregamento)
+	if (!isLoading && isLockReady) hasCheckedAuthRef.current = true;
+	if (!hasCheckedAuthRef.current) {
 		return null; // Ou um splash screen
 	}
 
 	return (
-		<NavigationContainer>
-			<Stack.Navigator
-				screenOptions={{
-					headerStyle: {
-						backgroundColor: "#6200ea",
-					},
-					headerTintColor: "#ffffff",
-					headerTitleStyle: {
-						fontWeight: "bold",
-					},
-				}}
-			>
-				{!isAuthenticated ? (
-					// Auth Stack
-					<>
-						<Stack.Screen
-							name="Login"
-							component={LoginScreen}
-							options={{
-								headerShown: false,
-								animationTypeForReplace: "push",
-							}}
-						/>
-						<Stack.Screen
-							name="Register"
-							component={RegisterScreen}
-							options={{
-								title: "Criar Conta",
-							}}
-						/>
-						<Stack.Screen
-							name="ForgotPassword"
-							component={ForgotPasswordScreen}
-							options={{
-								title: "Recuperar Senha",
-							}}
-						/>
-						<Stack.Screen
-							name="ResetPassword"
-							component={ResetPasswordScreen}
-							options={{
-								title: "Nova Senha",
-							}}
-						/>
-					</>
-				) : (
-					// Main App Stack
-					<>
-						<Stack.Screen
-							name="MainTabs"
-							component={MainTabs}
-							options={{
-								headerShown: false,
-							}}
-						/>
-						<Stack.Screen
-							name="ProductDetail"
-							component={ProductDetailScreen}
-							options={{
-								title: "Detalhes do Produto",
-							}}
-						/>
-						<Stack.Screen
-							name="Camera"
-							component={CameraScreen}
-							options={{
-								title: "Adicionar Produto",
-							}}
-						/>
-						<Stack.Screen
-							name="EditProfile"
-							component={EditProfileScreen}
-							options={{
-								title: "Editar Perfil",
-							}}
-						/>
-						<Stack.Screen
-							name="Favorites"
-							component={FavoritesScreen}
-							options={{
-								title: "Favoritos",
-							}}
-						/>
-						<Stack.Screen
-							name="MyProducts"
-							component={MyProductsScreen}
-							options={{
-								title: "Meus Produtos",
-							}}
-						/>
-						<Stack.Screen
-							name="Cart"
-							component={CartScreen}
-							options={{
-								title: "Carrinho",
-							}}
-						/>
-					</>
-				)}
-			</Stack.Navigator>
-		</NavigationContainer>
+		<>
+			<NavigationContainer>
+				<Stack.Navigator
+					screenOptions={{
+						headerStyle: {
+							backgroundColor: "#6200ea",
+						},
+						headerTintColor: "#ffffff",
+						headerTitleStyle: {
+							fontWeight: "bold",
+						},
+					}}
+				>
+					{!isAuthenticated ? (
+						// Auth Stack
+						<>
+							<Stack.Screen
+								name="Login"
+								component={LoginScreen}
+								options={{
+									headerShown: false,
+									animationTypeForReplace: "push",
+								}}
+							/>
+							<Stack.Screen
+								name="Register"
+								component={RegisterScreen}
+								options={{
+									title: "Criar Conta",
+								}}
+							/>
+							<Stack.Screen
+								name="ForgotPassword"
+								component={ForgotPasswordScreen}
+								options={{
+									title: "Recuperar Senha",
+								}}
+							/>
+							<Stack.Screen
+								name="ResetPassword"
+								component={ResetPasswordScreen}
+								options={{
+									title: "Nova Senha",
+								}}
+							/>
+						</>
+					) : (
+						// Main App Stack
+						<>
+							<Stack.Screen
+								name="MainTabs"
+								component={MainTabs}
+								options={{
+									headerShown: false,
+								}}
+							/>
+							<Stack.Screen
+								name="ProductDetail"
+								component={ProductDetailScreen}
+								options={{
+									title: "Detalhes do Produto",
+								}}
+							/>
+							<Stack.Screen
+								name="SellerProfile"
+								component={SellerProfileScreen}
+								options={{
+									title: "Vendedor",
+								}}
+							/>
+							<Stack.Screen
+								name="Camera"
+								component={CameraScreen}
+								options={{
+									title: "Adicionar Produto",
+								}}
+							/>
+							<Stack.Screen
+								name="EditProfile"
+								component={EditProfileScreen}
+								options={{
+									title: "Editar Perfil",
+								}}
+							/>
+							<Stack.Screen
+								name="VerifyEmail"
+								component={VerifyEmailScreen}
+								options={{
+									title: "Confirmar Email",
+								}}
+							/>
+							<Stack.Screen
+								name="ChangePassword"
+								component={ChangePasswordScreen}
+								options={{
+									title: "Alterar Senha",
+								}}
+							/>
+							<Stack.Screen
+								name="Favorites"
+								component={FavoritesScreen}
+								options={{
+									title: "Favoritos",
+								}}
+							/>
+							<Stack.Screen
+								name="MyProducts"
+								component={MyProductsScreen}
+								options={{
+									title: "Meus Produtos",
+								}}
+							/>
+							<Stack.Screen
+								name="EditProduct"
+								component={EditProductScreen}
+								options={{
+									title: "Editar Produto",
+								}}
+							/>
+							<Stack.Screen
+								name="Cart"
+								component={CartScreen}
+								options={{
+									title: "Carrinho",
+								}}
+							/>
+						</>
+					)}
+				</Stack.Navigator>
+			</NavigationContainer>
+
+			{/* Sobre a navegação, que continua na mesma tela ao desbloquear */}
+			{isAuthenticated && isLocked && <LockScreen />}
+		</>
 	);
 };
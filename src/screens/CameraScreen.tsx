@@ -13,20 +13,26 @@ import {
 	Button,
 	IconButton,
 	Card,
-	TextInput,
 	Title,
 	Paragraph,
 	ActivityIndicator,
 	Dialog,
 	Portal,
+	Badge,
 } from "react-native-paper";
 import { CameraView, CameraType, useCameraPermissions } from "expo-camera";
 import * as ImagePicker from "expo-image-picker";
 import { useNavigation, useFocusEffect } from "@react-navigation/native";
 import { StackNavigationProp } from "@react-navigation/stack";
 import { RootStackParamList, Product } from "../types";
-import { ProductService, MyProductsService } from "../services/api";
+import { productOutbox } from "../services/productOutbox";
+import { MAX_PRODUCT_IMAGES } from "../services/productImages";
 import { useNotifications } from "../contexts/NotificationContext";
+import {
+	EMPTY_PRODUCT_FORM,
+	ProductForm,
+	getProductFormError,
+} from "../components/ProductForm";
 
 type CameraScreenNavigationProp = StackNavigationProp<
 	RootStackParamList,
@@ -42,17 +48,13 @@ export const CameraScreen: React.FC = () => {
 
 	const [facing, setFacing] = useState<CameraType>("back");
 	const [permission, requestPermission] = useCameraPermissions();
-	const [capturedImage, setCapturedImage] = useState<string | null>(null);
+	// Fotos da sessão atual; a primeira é a capa
+	const [capturedImages, setCapturedImages] = useState<string[]>([]);
 	const [showAddProductDialog, setShowAddProductDialog] = useState(false);
 	const [isSubmitting, setIsSubmitting] = useState(false);
 	const [isCameraActive, setIsCameraActive] = useState(false);
 
-	const [productForm, setProductForm] = useState({
-		name: "",
-		description: "",
-		price: "",
-		category: "",
-	});
+	const [productForm, setProductForm] = useState(EMPTY_PRODUCT_FORM);
 
 	// Controlar quando a câmera deve estar ativa
 	useFocusEffect(
@@ -68,7 +70,21 @@ export const CameraScreen: React.FC = () => {
 		requestPermission();
 	}, []);
 
+	const remainingImages = MAX_PRODUCT_IMAGES - capturedImages.length;
+
+	const alertImageLimit = () =>
+		Alert.alert(
+			"Limite de fotos",
+			`Cada produto pode ter até ${MAX_PRODUCT_IMAGES} fotos`
+		);
+
+	// A câmera continua aberta para as próximas fotos do mesmo produto
 	const handleTakePicture = async () => {
+		if (remainingImages <= 0) {
+			alertImageLimit();
+			return;
+		}
+
 		if (cameraRef.current) {
 			try {
 				const photo = await cameraRef.current.takePictureAsync({
@@ -77,8 +93,7 @@ export const CameraScreen: React.FC = () => {
 				});
 
 				if (photo) {
-					setCapturedImage(photo.uri);
-					setShowAddProductDialog(true);
+					setCapturedImages((current) => [...current, photo.uri]);
 				}
 			} catch (error) {
 				console.error("Erro ao tirar foto:", error);
@@ -88,16 +103,24 @@ export const CameraScreen: React.FC = () => {
 	};
 
 	const handlePickImage = async () => {
+		if (remainingImages <= 0) {
+			alertImageLimit();
+			return;
+		}
+
 		try {
 			const result = await ImagePicker.launchImageLibraryAsync({
 				mediaTypes: ImagePicker.MediaTypeOptions.Images,
-				allowsEditing: true,
-				aspect: [1, 1],
+				allowsMultipleSelection: true,
+				selectionLimit: remainingImages,
 				quality: 0.8,
 			});
 
-			if (!result.canceled && result.assets[0]) {
-				setCapturedImage(result.assets[0].uri);
+			if (!result.canceled && result.assets.length > 0) {
+				const uris = result.assets
+					.slice(0, remainingImages)
+					.map((asset) => asset.uri);
+				setCapturedImages((current) => [...current, ...uris]);
 				setShowAddProductDialog(true);
 			}
 		} catch (error) {
@@ -106,51 +129,51 @@ export const CameraScreen: React.FC = () => {
 		}
 	};
 
+	// Volta à câmera; o botão de confirmar reabre o formulário
+	const handleAddMorePhotos = () => setShowAddProductDialog(false);
+
 	const toggleCameraFacing = () => {
 		setFacing((current) => (current === "back" ? "front" : "back"));
 	};
 
 	const resetForm = () => {
-		setProductForm({
-			name: "",
-			description: "",
-			price: "",
-			category: "",
-		});
-		setCapturedImage(null);
+		setProductForm(EMPTY_PRODUCT_FORM);
+		setCapturedImages([]);
 		setShowAddProductDialog(false);
 	};
 
 	const handleSubmitProduct = async () => {
-		if (!productForm.name.trim() || !productForm.price.trim()) {
-			Alert.alert("Erro", "Nome e preço são obrigatórios");
-			return;
-		}
-
-		const price = parseFloat(productForm.price);
-		if (isNaN(price) || price <= 0) {
-			Alert.alert(
-				"Erro",
-				"Preço deve ser um número válido maior que zero"
-			);
+		const formError = getProductFormError(productForm);
+		if (formError) {
+			Alert.alert("Erro", formError);
 			return;
 		}
 
 		setIsSubmitting(true);
 		try {
-			const newProduct = await ProductService.addProduct({
+			// A fila guarda foto e formulário caso o envio falhe
+			const newProduct = await productOutbox.submit({
 				name: productForm.name,
 				description:
 					productForm.description.trim() ||
 					"Produto adicionado via câmera. Este é um novo produto que foi fotografado e adicionado ao catálogo.",
-				price,
+				price: parseFloat(productForm.price),
 				category: productForm.category || "Outros",
-				image: capturedImage || "https://via.placeholder.com/300",
-				inStock: true,
+				images:
+					capturedImages.length > 0
+						? capturedImages
+						: ["https://via.placeholder.com/300"],
+				inStock: productForm.inStock,
 			});
 
-			// Também salvar em "Meus Produtos"
-			await MyProductsService.addMyProduct(newProduct);
+			if (!newProduct) {
+				resetForm();
+				Alert.alert(
+					"Produto salvo",
+					"Não foi possível enviar o produto agora. Ele ficou salvo em Meus Produtos e será reenviado automaticamente."
+				);
+				return;
+			}
 
 			addNotification({
 				title: "Produto adicionado!",
@@ -259,7 +282,24 @@ export const CameraScreen: React.FC = () => {
 								]}
 							/>
 
-							<View style={styles.placeholder} />
+							{capturedImages.length > 0 ? (
+								<View>
+									<IconButton
+										icon="check"
+										iconColor="white"
+										size={32}
+										onPress={() =>
+											setShowAddProductDialog(true)
+										}
+										style={styles.controlButton}
+									/>
+									<Badge style={styles.photoCount}>
+										{capturedImages.length}
+									</Badge>
+								</View>
+							) : (
+								<View style={styles.placeholder} />
+							)}
 						</View>
 					</View>
 				</CameraView>
@@ -282,69 +322,12 @@ export const CameraScreen: React.FC = () => {
 					<Dialog.ScrollArea>
 						<TouchableWithoutFeedback onPress={Keyboard.dismiss}>
 							<View style={styles.dialogContent}>
-								{capturedImage && (
-									<Card.Cover
-										source={{ uri: capturedImage }}
-										style={styles.previewImage}
-									/>
-								)}
-
-								<TextInput
-									label="Nome do produto *"
-									value={productForm.name}
-									onChangeText={(text) =>
-										setProductForm((prev) => ({
-											...prev,
-											name: text,
-										}))
-									}
-									mode="outlined"
-									style={styles.input}
-									disabled={isSubmitting}
-								/>
-
-								<TextInput
-									label="Descrição"
-									value={productForm.description}
-									onChangeText={(text) =>
-										setProductForm((prev) => ({
-											...prev,
-											description: text,
-										}))
-									}
-									mode="outlined"
-									multiline
-									numberOfLines={3}
-									style={styles.input}
-									disabled={isSubmitting}
-								/>
-
-								<TextInput
-									label="Preço *"
-									value={productForm.price}
-									onChangeText={(text) =>
-										setProductForm((prev) => ({
-											...prev,
-											price: text,
-										}))
-									}
-									mode="outlined"
-									keyboardType="numeric"
-									style={styles.input}
-									disabled={isSubmitting}
-								/>
-
-								<TextInput
-									label="Categoria"
-									value={productForm.category}
-									onChangeText={(text) =>
-										setProductForm((prev) => ({
-											...prev,
-											category: text,
-										}))
-									}
-									mode="outlined"
-									style={styles.input}
+								<ProductForm
+									values={productForm}
+									onChange={setProductForm}
+									images={capturedImages}
+									onChangeImages={setCapturedImages}
+									onAddImage={handleAddMorePhotos}
 									disabled={isSubmitting}
 								/>
 							</View>
@@ -425,17 +408,15 @@ const styles = StyleSheet.create({
 	placeholder: {
 		width: 48,
 	},
+	photoCount: {
+		position: "absolute",
+		top: 0,
+		right: 0,
+	},
 	dialog: {
 		maxHeight: height * 0.8,
 	},
 	dialogContent: {
 		paddingHorizontal: 0,
 	},
-	previewImage: {
-		height: 200,
-		marginBottom: 16,
-	},
-	input: {
-		marginBottom: 12,
-	},
 });
@@ -14,6 +14,7 @@ import { useNavigation } from "@react-navigation/native";
 import { StackNavigationProp } from "@react-navigation/stack";
 import { RootStackParamList, Product } from "../types";
 import { useCart } from "../contexts/CartContext";
+import { isProductAvailable } from "../services/productSnapshots";
 
 interface CartItem {
 	product: Product;
@@ -33,7 +34,13 @@ const CartProductCard = React.memo(
 		onPress: () => void;
 		onRemove: () => void;
 	}) => (
-		<Card style={styles.productCard} onPress={onPress}>
+		<Card
+			style={[
+				styles.productCard,
+				!isProductAvailable(item.product) && styles.unavailableCard,
+			]}
+			onPress={onPress}
+		>
 			<Card.Cover
 				source={{ uri: item.product.image }}
 				style={styles.productImage}
@@ -78,12 +85,17 @@ const CartProductCard = React.memo(
 						textStyle={styles.chipText}
 						style={[
 							styles.stockChip,
-							item.product.inStock
+							item.product.inStock &&
+							isProductAvailable(item.product)
 								? styles.inStockChip
 								: styles.outOfStockChip,
 						]}
 					>
-						{item.product.inStock ? "Em estoque" : "Sem estoque"}
+						{!isProductAvailable(item.product)
+							? "Indisponível"
+							: item.product.inStock
+							? "Em estoque"
+							: "Sem estoque"}
 					</Chip>
 				</View>
 
@@ -128,11 +140,21 @@ export const CartScreen: React.FC = () => {
 		</View>
 	);
 
+	const hasUnavailableItems = cartItems.some(
+		(item) => !isProductAvailable(item.product)
+	);
+
 	const renderFooter = () => {
 		if (cartItems.length === 0) return null;
 
 		return (
 			<View style={styles.footer}>
+				{hasUnavailableItems && (
+					<Text style={styles.unavailableNotice}>
+						Produtos indisponíveis não entram no total. Remova-os
+						para finalizar a compra.
+					</Text>
+				)}
 				<Divider style={styles.divider} />
 				<View style={styles.totalContainer}>
 					<Text style={styles.totalLabel}>Total:</Text>
@@ -161,6 +183,7 @@ export const CartScreen: React.FC = () => {
 							clearCart();
 						}}
 						style={styles.checkoutButton}
+						disabled={hasUnavailableItems}
 					>
 						Finalizar Compra
 					</Button>
@@ -202,6 +225,9 @@ const styles = StyleSheet.create({
 		marginBottom: 16,
 		elevation: 2,
 	},
+	unavailableCard: {
+		opacity: 0.6,
+	},
 	cardContent: {
 		paddingBottom: 16,
 	},
@@ -318,6 +344,11 @@ const styles = StyleSheet.create({
 	divider: {
 		marginBottom: 16,
 	},
+	unavailableNotice: {
+		fontSize: 13,
+		color: "#f44336",
+		marginBottom: 12,
+	},
 	totalContainer: {
 		flexDirection: "row",
 		justifyContent: "space-between",
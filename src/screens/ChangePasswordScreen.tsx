@@ -0,0 +1,241 @@
+import React, { useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import {
+  TextInput,
+  Button,
+  Card,
+  Title,
+  Paragraph,
+  HelperText,
+} from 'react-native-paper';
+import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RootStackParamList } from '../types';
+import { AuthError } from '../services/errors';
+import { useAuth } from '../contexts/AuthContext';
+import { PasswordStrengthMeter } from '../components/PasswordStrengthMeter';
+import { getPasswordPolicyError } from '../utils/passwordPolicy';
+
+type ChangePasswordScreenNavigationProp = StackNavigationProp<RootStackParamList, 'ChangePassword'>;
+
+export const ChangePasswordScreen: React.FC = () => {
+  const navigation = useNavigation<ChangePasswordScreenNavigationProp>();
+  const { user, changePassword } = useAuth();
+  // Conta criada pelo login social: define a primeira senha, sem a atual
+  const isFirstPassword = user?.hasPassword === false;
+
+  const [formData, setFormData] = useState({
+    currentPassword: '',
+    newPassword: '',
+    confirmPassword: '',
+  });
+  const [showPasswords, setShowPasswords] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [errors, setErrors] = useState<{
+    currentPassword?: string;
+    newPassword?: string;
+    confirmPassword?: string;
+  }>({});
+
+  const updateFormData = (field: string, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  const validateForm = () => {
+    const newErrors: typeof errors = {};
+
+    if (!isFirstPassword && !formData.currentPassword) {
+      newErrors.currentPassword = 'Senha atual é obrigatória';
+    }
+
+    if (!formData.newPassword.trim()) {
+      newErrors.newPassword = 'Nova senha é obrigatória';
+    } else if (formData.newPassword === formData.currentPassword) {
+      newErrors.newPassword = 'A nova senha deve ser diferente da atual';
+    } else if (user) {
+      newErrors.newPassword = getPasswordPolicyError(formData.newPassword, user) ?? undefined;
+    }
+
+    if (!formData.confirmPassword.trim()) {
+      newErrors.confirmPassword = 'Confirmação de senha é obrigatória';
+    } else if (formData.newPassword !== formData.confirmPassword) {
+      newErrors.confirmPassword = 'Senhas não coincidem';
+    }
+
+    setErrors(newErrors);
+    return Object.values(newErrors).every((error) => !error);
+  };
+
+  const handleChangePassword = async () => {
+    if (!validateForm()) return;
+
+    setIsLoading(true);
+    try {
+      await changePassword(formData.currentPassword, formData.newPassword);
+
+      Alert.alert(
+        'Sucesso',
+        isFirstPassword
+          ? 'Senha definida! Agora você também pode entrar com email e senha.'
+          : 'Senha alterada! As sessões abertas em outros aparelhos foram encerradas.',
+        [
+          {
+            text: 'OK',
+            onPress: () => navigation.goBack(),
+          },
+        ]
+      );
+    } catch (error) {
+      if (error instanceof AuthError && error.code === 'WRONG_PASSWORD') {
+        setErrors({ currentPassword: 'Senha atual incorreta' });
+      } else {
+        Alert.alert(
+          'Erro',
+          error instanceof Error ? error.message : 'Erro ao alterar senha'
+        );
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const passwordToggle = (
+    <TextInput.Icon
+      icon={showPasswords ? 'eye-off' : 'eye'}
+      onPress={() => setShowPasswords(!showPasswords)}
+    />
+  );
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <ScrollView contentContainerStyle={styles.scrollContainer}>
+        <View style={styles.content}>
+          <Card style={styles.card}>
+            <Card.Content>
+              <Title style={styles.title}>
+                {isFirstPassword ? 'Definir Senha' : 'Alterar Senha'}
+              </Title>
+              <Paragraph style={styles.subtitle}>
+                {isFirstPassword
+                  ? 'Sua conta foi criada pelo login social. Defina uma senha para entrar também com email e senha'
+                  : 'Ao alterar a senha, você sai da conta em todos os outros aparelhos'}
+              </Paragraph>
+
+              {!isFirstPassword && (
+                <>
+                  <TextInput
+                    label="Senha atual"
+                    value={formData.currentPassword}
+                    onChangeText={(value) => updateFormData('currentPassword', value)}
+                    mode="outlined"
+                    secureTextEntry={!showPasswords}
+                    right={passwordToggle}
+                    style={styles.input}
+                    error={!!errors.currentPassword}
+                    disabled={isLoading}
+                  />
+                  <HelperText type="error" visible={!!errors.currentPassword}>
+                    {errors.currentPassword}
+                  </HelperText>
+                </>
+              )}
+
+              <TextInput
+                label="Nova senha"
+                value={formData.newPassword}
+                onChangeText={(value) => updateFormData('newPassword', value)}
+                mode="outlined"
+                secureTextEntry={!showPasswords}
+                right={isFirstPassword ? passwordToggle : undefined}
+                style={styles.input}
+                error={!!errors.newPassword}
+                disabled={isLoading}
+              />
+              <HelperText type="error" visible={!!errors.newPassword}>
+                {errors.newPassword}
+              </HelperText>
+              <PasswordStrengthMeter
+                password={formData.newPassword}
+                email={user?.email}
+                name={user?.name}
+              />
+
+              <TextInput
+                label="Confirmar nova senha"
+                value={formData.confirmPassword}
+                onChangeText={(value) => updateFormData('confirmPassword', value)}
+                mode="outlined"
+                secureTextEntry={!showPasswords}
+                style={styles.input}
+                error={!!errors.confirmPassword}
+                disabled={isLoading}
+              />
+              <HelperText type="error" visible={!!errors.confirmPassword}>
+                {errors.confirmPassword}
+              </HelperText>
+
+              <Button
+                mode="contained"
+                onPress={handleChangePassword}
+                style={styles.saveButton}
+                disabled={isLoading}
+                loading={isLoading}
+              >
+                {isLoading
+                  ? 'Salvando senha...'
+                  : isFirstPassword ? 'Definir senha' : 'Alterar senha'}
+              </Button>
+            </Card.Content>
+          </Card>
+        </View>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  scrollContainer: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    padding: 20,
+  },
+  content: {
+    flex: 1,
+    justifyContent: 'center',
+  },
+  card: {
+    elevation: 4,
+  },
+  title: {
+    textAlign: 'center',
+    marginBottom: 8,
+    fontSize: 28,
+    fontWeight: 'bold',
+  },
+  subtitle: {
+    textAlign: 'center',
+    marginBottom: 24,
+    color: '#666',
+  },
+  input: {
+    marginBottom: 8,
+  },
+  saveButton: {
+    marginTop: 16,
+    paddingVertical: 4,
+  },
+});
\ No newline at end of file
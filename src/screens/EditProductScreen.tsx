@@ -0,0 +1,265 @@
+import React, { useState, useEffect } from "react";
+import {
+	View,
+	StyleSheet,
+	Alert,
+	KeyboardAvoidingView,
+	Platform,
+	ScrollView,
+} from "react-native";
+import { Button, Card, ActivityIndicator } from "react-native-paper";
+import * as ImagePicker from "expo-image-picker";
+import { useNavigation, useRoute, RouteProp } from "@react-navigation/native";
+import { StackNavigationProp } from "@react-navigation/stack";
+import { RootStackParamList } from "../types";
+import { MyProductsService, ProductService } from "../services/api";
+import {
+	deleteProductPhoto,
+	keepProductPhoto,
+} from "../services/productPhotos";
+import { MAX_PRODUCT_IMAGES } from "../services/productImages";
+import { useNotifications } from "../contexts/NotificationContext";
+import {
+	ProductForm,
+	ProductFormValues,
+	getProductFormError,
+	productToFormValues,
+} from "../components/ProductForm";
+
+type EditProductScreenNavigationProp = StackNavigationProp<
+	RootStackParamList,
+	"EditProduct"
+>;
+type EditProductScreenRouteProp = RouteProp<RootStackParamList, "EditProduct">;
+
+const CAMERA_OPTIONS: ImagePicker.ImagePickerOptions = {
+	mediaTypes: ImagePicker.MediaTypeOptions.Images,
+	allowsEditing: true,
+	aspect: [1, 1],
+	quality: 0.8,
+};
+
+// A galeria permite escolher várias fotos, mas sem recorte
+const LIBRARY_OPTIONS: ImagePicker.ImagePickerOptions = {
+	mediaTypes: ImagePicker.MediaTypeOptions.Images,
+	allowsMultipleSelection: true,
+	quality: 0.8,
+};
+
+export const EditProductScreen: React.FC = () => {
+	const navigation = useNavigation<EditProductScreenNavigationProp>();
+	const route = useRoute<EditProductScreenRouteProp>();
+	const { productId } = route.params;
+	const { addNotification } = useNotifications();
+
+	const [productForm, setProductForm] = useState<ProductFormValues | null>(
+		null
+	);
+	const [images, setImages] = useState<string[]>([]);
+	// Fotos do produto como está salvo
+	const [savedImages, setSavedImages] = useState<string[]>([]);
+	const [isImagesChanged, setIsImagesChanged] = useState(false);
+	const [isSaving, setIsSaving] = useState(false);
+
+	useEffect(() => {
+		loadProduct();
+	}, [productId]);
+
+	const loadProduct = async () => {
+		try {
+			const product = await ProductService.getProduct(productId);
+			if (!product) throw new Error("Produto não encontrado");
+
+			setProductForm(productToFormValues(product));
+			setImages(product.images);
+			setSavedImages(product.images);
+		} catch (error) {
+			console.error("Erro ao carregar produto:", error);
+			Alert.alert("Erro", "Não foi possível carregar o produto");
+			navigation.goBack();
+		}
+	};
+
+	const changeImages = (nextImages: string[]) => {
+		setImages(nextImages);
+		setIsImagesChanged(true);
+	};
+
+	const pickImage = async (source: "camera" | "library") => {
+		const remaining = MAX_PRODUCT_IMAGES - images.length;
+
+		try {
+			if (source === "camera") {
+				const permission =
+					await ImagePicker.requestCameraPermissionsAsync();
+				if (!permission.granted) {
+					Alert.alert(
+						"Permissão necessária",
+						"Permita o acesso à câmera para tirar uma nova foto"
+					);
+					return;
+				}
+			}
+
+			const result =
+				source === "camera"
+					? await ImagePicker.launchCameraAsync(CAMERA_OPTIONS)
+					: await ImagePicker.launchImageLibraryAsync({
+							...LIBRARY_OPTIONS,
+							selectionLimit: remaining,
+					  });
+
+			if (!result.canceled && result.assets.length > 0) {
+				changeImages([
+					...images,
+					...result.assets
+						.slice(0, remaining)
+						.map((asset) => asset.uri),
+				]);
+			}
+		} catch (error) {
+			console.error("Erro ao selecionar imagem:", error);
+			Alert.alert("Erro", "Não foi possível selecionar a imagem");
+		}
+	};
+
+	const handleAddImage = () => {
+		Alert.alert("Adicionar foto", "De onde vem a nova foto?", [
+			{ text: "Cancelar", style: "cancel" },
+			{ text: "Galeria", onPress: () => pickImage("library") },
+			{ text: "Câmera", onPress: () => pickImage("camera") },
+		]);
+	};
+
+	// Apaga os arquivos de "photos" que não estão em "kept"
+	const deletePhotosNotIn = (photos: string[], kept: string[]) =>
+		Promise.all(
+			photos
+				.filter((uri) => !kept.includes(uri))
+				.map(deleteProductPhoto)
+		);
+
+	const handleSave = async () => {
+		if (!productForm) return;
+
+		const formError =
+			getProductFormError(productForm) ??
+			(images.length === 0 ? "Adicione ao menos uma foto" : null);
+		if (formError) {
+			Alert.alert("Erro", formError);
+			return;
+		}
+
+		setIsSaving(true);
+		let newImages: string[] | undefined;
+		try {
+			// Fotos novas guardadas no app, como as da câmera; as que já
+			// estavam no produto voltam como estão
+			const savedAt = Date.now();
+			newImages = isImagesChanged
+				? await Promise.all(
+						images.map((uri, index) =>
+							keepProductPhoto(
+								`${productId}-${savedAt}-${index}`,
+								uri
+							)
+						)
+				  )
+				: undefined;
+
+			const product = await MyProductsService.updateMyProduct(
+				productId,
+				{
+					name: productForm.name.trim(),
+					description: productForm.description.trim(),
+					price: parseFloat(productForm.price),
+					category: productForm.category.trim() || "Outros",
+					inStock: productForm.inStock,
+					...(newImages && { images: newImages }),
+				}
+			);
+			// Fotos substituídas só saem do aparelho depois da edição salva
+			if (newImages) await deletePhotosNotIn(savedImages, newImages);
+
+			addNotification({
+				title: "Produto atualizado!",
+				message: `${product.name} foi atualizado com sucesso`,
+				type: "success",
+			});
+			navigation.goBack();
+		} catch (error) {
+			// Cópias feitas para uma edição que não foi salva
+			if (newImages) await deletePhotosNotIn(newImages, savedImages);
+			Alert.alert(
+				"Erro",
+				error instanceof Error
+					? error.message
+					: "Não foi possível salvar o produto"
+			);
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	if (!productForm) {
+		return (
+			<View style={styles.loadingContainer}>
+				<ActivityIndicator size="large" />
+			</View>
+		);
+	}
+
+	return (
+		<KeyboardAvoidingView
+			style={styles.container}
+			behavior={Platform.OS === "ios" ? "padding" : "height"}
+		>
+			<ScrollView contentContainerStyle={styles.scrollContainer}>
+				<Card style={styles.card}>
+					<Card.Content>
+						<ProductForm
+							values={productForm}
+							onChange={setProductForm}
+							images={images}
+							onChangeImages={changeImages}
+							onAddImage={handleAddImage}
+							disabled={isSaving}
+						/>
+
+						<Button
+							mode="contained"
+							onPress={handleSave}
+							style={styles.saveButton}
+							loading={isSaving}
+							disabled={isSaving}
+						>
+							{isSaving ? "Salvando..." : "Salvar alterações"}
+						</Button>
+					</Card.Content>
+				</Card>
+			</ScrollView>
+		</KeyboardAvoidingView>
+	);
+};
+
+const styles = StyleSheet.create({
+	container: {
+		flex: 1,
+		backgroundColor: "#f5f5f5",
+	},
+	scrollContainer: {
+		padding: 16,
+	},
+	card: {
+		elevation: 2,
+	},
+	saveButton: {
+		marginTop: 8,
+		paddingVertical: 4,
+	},
+	loadingContainer: {
+		flex: 1,
+		justifyContent: "center",
+		alignItems: "center",
+	},
+});
@@ -21,6 +21,8 @@ import { useNavigation } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RootStackParamList } from '../types';
 import { useAuth } from '../contexts/AuthContext';
+import { AuthService } from '../services/api';
+import { AuthError } from '../services/errors';
 import * as ImagePicker from 'expo-image-picker';
 
 type EditProfileScreenNavigationProp = StackNavigationProp<RootStackParamList>;
@@ -98,12 +100,22 @@ export const EditProfileScreen: React.FC = () => {
     
     setIsUpdating(true);
     try {
+      // O novo email só é aplicado depois de confirmado pelo código enviado
+      // a ele; até lá o email atual continua valendo
+      const newEmail = formData.email.trim().toLowerCase();
+      const challenge =
+        newEmail !== user?.email ? await AuthService.requestEmailChange(newEmail) : null;
+
       await updateUser({
         name: formData.name,
-        email: formData.email,
-        phone: formData.phone || undefined,
-        profileImage: formData.profileImage || undefined,
+        phone: formData.phone,
+        profileImage: formData.profileImage,
       });
+
+      if (challenge) {
+        navigation.replace('VerifyEmail', { email: newEmail, ...challenge });
+        return;
+      }
       
       Alert.alert(
         'Sucesso',
@@ -116,6 +128,10 @@ export const EditProfileScreen: React.FC = () => {
         ]
       );
     } catch (error) {
+      if (error instanceof AuthError) {
+        setErrors({ email: error.message });
+        return;
+      }
       console.error('Erro ao atualizar perfil:', error);
       Alert.alert('Erro', 'Não foi possível atualizar o perfil');
     } finally {
@@ -197,8 +213,11 @@ export const EditProfileScreen: React.FC = () => {
               error={!!errors.email}
               disabled={isUpdating}
             />
-            <HelperText type="error" visible={!!errors.email}>
-              {errors.email}
+            <HelperText
+              type={errors.email ? 'error' : 'info'}
+              visible={!!errors.email || formData.email.trim().toLowerCase() !== user?.email}
+            >
+              {errors.email ?? 'Enviaremos um código para confirmar o novo email'}
             </HelperText>
 
             <TextInput
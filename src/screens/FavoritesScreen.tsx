@@ -13,6 +13,7 @@ import { useNavigation } from "@react-navigation/native";
 import { StackNavigationProp } from "@react-navigation/stack";
 import { RootStackParamList, Product } from "../types";
 import { useFavorites } from "../contexts/FavoritesContext";
+import { isProductAvailable } from "../services/productSnapshots";
 
 type FavoritesScreenNavigationProp = StackNavigationProp<RootStackParamList>;
 
@@ -27,7 +28,13 @@ const FavoriteProductCard = React.memo(
 		onPress: () => void;
 		onRemove: () => void;
 	}) => (
-		<Card style={styles.productCard} onPress={onPress}>
+		<Card
+			style={[
+				styles.productCard,
+				!isProductAvailable(item) && styles.unavailableCard,
+			]}
+			onPress={onPress}
+		>
 			<Card.Cover
 				source={{ uri: item.image }}
 				style={styles.productImage}
@@ -62,12 +69,16 @@ const FavoriteProductCard = React.memo(
 						textStyle={styles.chipText}
 						style={[
 							styles.stockChip,
-							item.inStock
+							item.inStock && isProductAvailable(item)
 								? styles.inStockChip
 								: styles.outOfStockChip,
 						]}
 					>
-						{item.inStock ? "Em estoque" : "Sem estoque"}
+						{!isProductAvailable(item)
+							? "Indisponível"
+							: item.inStock
+							? "Em estoque"
+							: "Sem estoque"}
 					</Chip>
 				</View>
 
@@ -140,6 +151,9 @@ const styles = StyleSheet.create({
 		marginBottom: 16,
 		elevation: 2,
 	},
+	unavailableCard: {
+		opacity: 0.6,
+	},
 	cardContent: {
 		paddingBottom: 16,
 	},
@@ -48,15 +48,16 @@ export const ForgotPasswordScreen: React.FC = () => {
     
     setIsLoading(true);
     try {
-      const { otp } = await AuthService.sendResetPasswordOTP(email);
+      const challenge = await AuthService.sendResetPasswordOTP(email);
       
+      // Mesma mensagem exista ou não a conta, para não revelar cadastros
       Alert.alert(
-        'OTP Enviado',
-        `Um código de verificação foi enviado para ${email}.\n\nPara fins de demonstração, o código é: ${otp}`,
+        'Verifique seu email',
+        `Se houver uma conta cadastrada com ${email}, você receberá um código de verificação.`,
         [
           {
             text: 'OK',
-            onPress: () => navigation.navigate('ResetPassword', { email }),
+            onPress: () => navigation.navigate('ResetPassword', { email, ...challenge }),
           },
         ]
       );
@@ -2,7 +2,6 @@ import React, { useState, useEffect, useCallback, useMemo } from "react";
 import { View, StyleSheet, FlatList, RefreshControl } from "react-native";
 import {
 	Text,
-	Searchbar,
 	Card,
 	Title,
 	Paragraph,
@@ -15,45 +14,23 @@ import { useNavigation } from "@react-navigation/native";
 import { StackNavigationProp } from "@react-navigation/stack";
 import { RootStackParamList, Product } from "../types";
 import { ProductService } from "../services/api";
+import { ProductSearchBar } from "../components/ProductSearchBar";
+import { OfflineBanner } from "../components/OfflineBanner";
+import { usePaginatedQuery } from "../hooks/usePaginatedQuery";
+import { createQueryKey } from "../services/queryCache";
 import { useAuth } from "../contexts/AuthContext";
 
 type HomeScreenNavigationProp = StackNavigationProp<RootStackParamList>;
 
-// Componente separado para o Searchbar para evitar re-renderizações
-const SearchBarComponent = React.memo(
-	({
-		value,
-		onChangeText,
-		style,
-	}: {
-		value: string;
-		onChangeText: (text: string) => void;
-		style: any;
-	}) => (
-		<Searchbar
-			placeholder="Buscar produtos..."
-			onChangeText={onChangeText}
-			value={value}
-			style={style}
-			autoCapitalize="none"
-			autoCorrect={false}
-		/>
-	)
-);
+const getProductId = (product: Product) => product.id;
 
 export const HomeScreen: React.FC = () => {
 	const navigation = useNavigation<HomeScreenNavigationProp>();
 	const { user } = useAuth();
 
-	const [products, setProducts] = useState<Product[]>([]);
 	const [searchQuery, setSearchQuery] = useState("");
 	const [inputValue, setInputValue] = useState("");
 	const [debouncedSearchQuery, setDebouncedSearchQuery] = useState("");
-	const [isLoading, setIsLoading] = useState(false);
-	const [isRefreshing, setIsRefreshing] = useState(false);
-	const [page, setPage] = useState(1);
-	const [hasMore, setHasMore] = useState(true);
-	const [totalProducts, setTotalProducts] = useState(0);
 
 	// Debounce search query
 	useEffect(() => {
@@ -69,58 +46,36 @@ export const HomeScreen: React.FC = () => {
 		setInputValue(searchQuery);
 	}, [searchQuery]);
 
-	// Execute search when debouncedSearchQuery changes
-	useEffect(() => {
-		loadProducts(1, debouncedSearchQuery, true);
-	}, [debouncedSearchQuery]);
-
-	const loadProducts = useCallback(
-		async (pageNum = 1, search = "", refresh = false) => {
-			if (isLoading && !refresh) return;
-
-			setIsLoading(true);
-			try {
-				const response = search
-					? await ProductService.searchProducts(search, pageNum, 10)
-					: await ProductService.getProducts(pageNum, 10);
-
-				if (pageNum === 1 || refresh) {
-					setProducts(response.data);
-				} else {
-					setProducts((prev) => [...prev, ...response.data]);
-				}
-
-				setTotalProducts(response.total);
-				setHasMore(pageNum < response.totalPages);
-				setPage(pageNum);
-			} catch (error) {
-				console.error("Erro ao carregar produtos:", error);
-			} finally {
-				setIsLoading(false);
-				setIsRefreshing(false);
-			}
-		},
-		[isLoading]
-	);
-
-	useEffect(() => {
-		loadProducts(1, searchQuery);
-	}, []);
+	// Recarrega do início quando a busca muda
+	const {
+		items: products,
+		total: totalProducts,
+		isLoading,
+		isRefreshing,
+		isLoadingMore,
+		refresh,
+		loadMore,
+	} = usePaginatedQuery({
+		queryKey: createQueryKey("products", { search: debouncedSearchQuery }),
+		fetchPage: (cursor, signal) =>
+			ProductService.getProductsPage(
+				{ search: debouncedSearchQuery, cursor, limit: 10 },
+				signal
+			),
+		getId: getProductId,
+		// Buscas avulsas não são salvas para uso offline
+		persist: !debouncedSearchQuery,
+	});
 
 	const handleSearch = useCallback((query: string) => {
 		setSearchQuery(query);
 	}, []);
 
-	const handleRefresh = () => {
-		setIsRefreshing(true);
-		loadProducts(1, searchQuery, true);
-	};
-
-	const handleLoadMore = () => {
-		if (hasMore && !isLoading) {
-			loadProducts(page + 1, searchQuery);
-		}
-	};
+	// Sugestões e "buscar" no teclado executam a busca sem esperar o debounce
+	const handleSubmitSearch = useCallback((query: string) => {
+		setSearchQuery(query);
+		setDebouncedSearchQuery(query);
+	}, []);
 
 	const renderProduct = ({ item }: { item: Product }) => (
 		<Card
@@ -179,9 +134,10 @@ export const HomeScreen: React.FC = () => {
 				</View>
 			</View>
 
-			<SearchBarComponent
+			<ProductSearchBar
 				value={searchQuery}
 				onChangeText={handleSearch}
+				onSubmitSearch={handleSubmitSearch}
 				style={styles.searchbar}
 			/>
 
@@ -209,7 +165,7 @@ export const HomeScreen: React.FC = () => {
 	);
 
 	const renderFooter = () => {
-		if (!isLoading || isRefreshing) return null;
+		if (!(isLoading || isLoadingMore) || isRefreshing) return null;
 
 		return (
 			<View style={styles.footer}>
@@ -223,23 +179,27 @@ export const HomeScreen: React.FC = () => {
 
 	return (
 		<View style={styles.container}>
+			<OfflineBanner />
 			<FlatList
 				data={products}
 				renderItem={renderProduct}
 				keyExtractor={(item) => item.id}
 				numColumns={2}
 				columnWrapperStyle={styles.row}
-				ListHeaderComponent={renderHeader}
+				// Elemento, não componente: a busca não é remontada a cada
+				// render e mantém foco e sugestões
+				ListHeaderComponent={renderHeader()}
 				ListFooterComponent={renderFooter}
 				refreshControl={
 					<RefreshControl
 						refreshing={isRefreshing}
-						onRefresh={handleRefresh}
+						onRefresh={refresh}
 					/>
 				}
-				onEndReached={handleLoadMore}
+				onEndReached={loadMore}
 				onEndReachedThreshold={0.5}
 				showsVerticalScrollIndicator={false}
+				keyboardShouldPersistTaps="handled"
 				contentContainerStyle={styles.listContainer}
 			/>
 		</View>
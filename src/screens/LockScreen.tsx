@@ -0,0 +1,171 @@
+import React, { useEffect, useState } from "react";
+import {
+	View,
+	StyleSheet,
+	KeyboardAvoidingView,
+	Platform,
+} from "react-native";
+import {
+	Text,
+	TextInput,
+	Button,
+	Avatar,
+	Title,
+	HelperText,
+} from "react-native-paper";
+import { useAuth } from "../contexts/AuthContext";
+import { useAppLock } from "../contexts/AppLockContext";
+import { PIN_PATTERN } from "../services/appLock";
+import { useCountdown } from "../hooks/useCountdown";
+
+// Tela exibida sobre o app enquanto ele estiver bloqueado
+export const LockScreen: React.FC = () => {
+	const { user, logout } = useAuth();
+	const {
+		settings,
+		biometricsAvailable,
+		remainingPinAttempts,
+		pinLockedUntil,
+		unlockWithBiometrics,
+		unlockWithPin,
+	} = useAppLock();
+	const [pin, setPin] = useState("");
+	const [error, setError] = useState<string | null>(null);
+	const [isWrongPin, setIsWrongPin] = useState(false);
+	const [isChecking, setIsChecking] = useState(false);
+	const lockoutSeconds = useCountdown(pinLockedUntil);
+
+	const canUseBiometrics = settings.biometricsEnabled && biometricsAvailable;
+
+	// Oferecer a biometria assim que a tela aparece
+	useEffect(() => {
+		if (canUseBiometrics) unlockWithBiometrics();
+	}, []);
+
+	const handleUnlock = async () => {
+		if (!PIN_PATTERN.test(pin)) {
+			setError("Digite o PIN de 4 a 6 dígitos");
+			return;
+		}
+
+		setIsChecking(true);
+		try {
+			const success = await unlockWithPin(pin);
+			if (!success) {
+				setPin("");
+				setIsWrongPin(true);
+			}
+		} finally {
+			setIsChecking(false);
+		}
+	};
+
+	// A contagem vem do contexto, já atualizada depois da tentativa
+	const message =
+		error ??
+		(lockoutSeconds > 0
+			? `Muitas tentativas. Tente novamente em ${lockoutSeconds} s.`
+			: !isWrongPin
+			? null
+			: remainingPinAttempts === 1
+			? "PIN incorreto. Na próxima falha a sessão será encerrada."
+			: `PIN incorreto. ${remainingPinAttempts} tentativas restantes.`);
+
+	return (
+		<KeyboardAvoidingView
+			style={styles.container}
+			behavior={Platform.OS === "ios" ? "padding" : "height"}
+		>
+			<View style={styles.content}>
+				<Avatar.Icon size={80} icon="lock" style={styles.icon} />
+				<Title style={styles.title}>App bloqueado</Title>
+				{user && <Text style={styles.subtitle}>{user.email}</Text>}
+
+				<TextInput
+					label="PIN"
+					value={pin}
+					onChangeText={(value) => {
+						setPin(value.replace(/\D/g, ""));
+						setError(null);
+						setIsWrongPin(false);
+					}}
+					mode="outlined"
+					keyboardType="number-pad"
+					secureTextEntry
+					maxLength={6}
+					style={styles.input}
+					error={!!message}
+					disabled={isChecking || lockoutSeconds > 0}
+					onSubmitEditing={handleUnlock}
+				/>
+				<HelperText type="error" visible={!!message}>
+					{message}
+				</HelperText>
+
+				<Button
+					mode="contained"
+					onPress={handleUnlock}
+					loading={isChecking}
+					disabled={isChecking || lockoutSeconds > 0}
+					style={styles.button}
+				>
+					Desbloquear
+				</Button>
+
+				{canUseBiometrics && (
+					<Button
+						mode="outlined"
+						icon="fingerprint"
+						onPress={unlockWithBiometrics}
+						disabled={isChecking}
+						style={styles.button}
+					>
+						Usar biometria
+					</Button>
+				)}
+
+				<Button
+					mode="text"
+					onPress={() => logout()}
+					disabled={isChecking}
+					style={styles.button}
+				>
+					Sair da conta
+				</Button>
+			</View>
+		</KeyboardAvoidingView>
+	);
+};
+
+const styles = StyleSheet.create({
+	container: {
+		...StyleSheet.absoluteFillObject,
+		backgroundColor: "#f5f5f5",
+	},
+	content: {
+		flex: 1,
+		justifyContent: "center",
+		padding: 32,
+	},
+	icon: {
+		alignSelf: "center",
+		backgroundColor: "#6200ea",
+		marginBottom: 16,
+	},
+	title: {
+		textAlign: "center",
+		fontSize: 24,
+		fontWeight: "bold",
+	},
+	subtitle: {
+		textAlign: "center",
+		color: "#666",
+		marginBottom: 24,
+	},
+	input: {
+		textAlign: "center",
+	},
+	button: {
+		marginTop: 8,
+	},
+});
@@ -16,17 +16,26 @@ import {
   Paragraph,
   HelperText,
   ActivityIndicator,
+  List,
 } from 'react-native-paper';
 import { useNavigation } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
-import { RootStackParamList } from '../types';
+import { RootStackParamList, User } from '../types';
 import { useAuth } from '../contexts/AuthContext';
+import { useAppLock } from '../contexts/AppLockContext';
+import { AUTH_ERROR_MESSAGES, AuthError } from '../services/errors';
+import { AccountSwitcher } from '../components/AccountSwitcher';
+import { OidcSignInButton } from '../components/OidcSignInButton';
+import { getAuthConfig } from '../services/config';
 
 type LoginScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Login'>;
 
+const { oidc } = getAuthConfig();
+
 export const LoginScreen: React.FC = () => {
   const navigation = useNavigation<LoginScreenNavigationProp>();
-  const { login, isLoading } = useAuth();
+  const { login, isLoading, sessionExpired, accounts } = useAuth();
+  const { settings: appLock } = useAppLock();
   
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
@@ -52,16 +61,50 @@ export const LoginScreen: React.FC = () => {
     return Object.keys(newErrors).length === 0;
   };
 
+  // Com o bloqueio do app ativo, a conta salva só preenche o email: trocar
+  // sem a senha passaria por cima do bloqueio depois de "Sair da conta"
+  const selectAccount = (account: User) => {
+    setEmail(account.email);
+    setPassword('');
+    setErrors({});
+  };
+
   const handleLogin = async () => {
     if (!validateForm()) return;
     
     try {
       await login({ email, password });
     } catch (error) {
-      Alert.alert(
-        'Erro no Login',
-        error instanceof Error ? error.message : 'Erro desconhecido'
-      );
+      if (error instanceof AuthError && error.code === 'USER_NOT_FOUND') {
+        Alert.alert(
+          'Conta não encontrada',
+          'Não existe uma conta com este email. Deseja criar uma?',
+          [
+            { text: 'Cancelar', style: 'cancel' },
+            {
+              text: 'Criar conta',
+              onPress: () => navigation.navigate('Register'),
+            },
+          ]
+        );
+      } else if (error instanceof AuthError && error.code === 'WRONG_PASSWORD') {
+        Alert.alert(
+          'Senha incorreta',
+          'A senha informada não confere. Tente novamente ou recupere sua senha.',
+          [
+            { text: 'Tentar novamente', style: 'cancel' },
+            {
+              text: 'Esqueci a senha',
+              onPress: () => navigation.navigate('ForgotPassword'),
+            },
+          ]
+        );
+      } else {
+        Alert.alert(
+          'Erro no Login',
+          error instanceof Error ? error.message : 'Erro desconhecido'
+        );
+      }
     }
   };
 
@@ -79,6 +122,12 @@ export const LoginScreen: React.FC = () => {
                 Entre com sua conta para continuar
               </Paragraph>
 
+              {sessionExpired && (
+                <HelperText type="error" visible style={styles.sessionExpired}>
+                  {AUTH_ERROR_MESSAGES.SESSION_EXPIRED}
+                </HelperText>
+              )}
+
               <TextInput
                 label="Email"
                 value={email}
@@ -133,9 +182,25 @@ export const LoginScreen: React.FC = () => {
               >
                 Esqueci minha senha
               </Button>
+
+              {oidc && (
+                <>
+                  <Text style={styles.separator}>ou</Text>
+                  <OidcSignInButton config={oidc} disabled={isLoading} />
+                </>
+              )}
             </Card.Content>
           </Card>
 
+          {accounts.length > 0 && (
+            <Card style={styles.card}>
+              <List.Section>
+                <List.Subheader>Contas salvas neste aparelho</List.Subheader>
+                <AccountSwitcher onSelect={appLock.enabled ? selectAccount : undefined} />
+              </List.Section>
+            </Card>
+          )}
+
           <View style={styles.registerContainer}>
             <Text>Não tem uma conta? </Text>
             <Button
@@ -182,6 +247,11 @@ const styles = StyleSheet.create({
     marginBottom: 24,
     color: '#666',
   },
+  sessionExpired: {
+    textAlign: 'center',
+    marginTop: -16,
+    marginBottom: 16,
+  },
   input: {
     marginBottom: 8,
   },
@@ -193,6 +263,11 @@ const styles = StyleSheet.create({
   textButton: {
     marginTop: 8,
   },
+  separator: {
+    textAlign: 'center',
+    marginVertical: 12,
+    color: '#666',
+  },
   registerContainer: {
     flexDirection: 'row',
     justifyContent: 'center',
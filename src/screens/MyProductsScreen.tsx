@@ -1,5 +1,11 @@
-import React, { useState, useEffect } from "react";
-import { View, StyleSheet, FlatList, Alert } from "react-native";
+import React from "react";
+import {
+	View,
+	StyleSheet,
+	FlatList,
+	Alert,
+	RefreshControl,
+} from "react-native";
 import {
 	Text,
 	Card,
@@ -15,18 +21,45 @@ import { useNavigation, useFocusEffect } from "@react-navigation/native";
 import { StackNavigationProp } from "@react-navigation/stack";
 import { RootStackParamList, Product } from "../types";
 import { MyProductsService } from "../services/api";
+import { createQueryKey } from "../services/queryCache";
+import { usePaginatedQuery } from "../hooks/usePaginatedQuery";
+import { useProductOutbox } from "../hooks/useProductOutbox";
+import { OutboxEntry } from "../services/productOutbox";
+import { OfflineBanner } from "../components/OfflineBanner";
+import { useAuth } from "../contexts/AuthContext";
 
 type MyProductsScreenNavigationProp = StackNavigationProp<RootStackParamList>;
 
+const PAGE_SIZE = 10;
+
+const getProductId = (product: Product) => product.id;
+
+// Produtos do usuário usam paginação por número de página como cursor
+const fetchMyProductsPage = async (cursor: string | null) => {
+	const page = cursor ? Number(cursor) : 1;
+	const response = await MyProductsService.getMyProductsPaginated(
+		page,
+		PAGE_SIZE
+	);
+
+	return {
+		data: response.data,
+		total: response.total,
+		nextCursor: page < response.totalPages ? String(page + 1) : null,
+	};
+};
+
 // Componente otimizado para produto do usuário
 const MyProductCard = React.memo(
 	({
 		item,
 		onPress,
+		onEdit,
 		onDelete,
 	}: {
 		item: Product;
 		onPress: () => void;
+		onEdit: () => void;
 		onDelete: () => void;
 	}) => (
 		<Card style={styles.productCard} onPress={onPress}>
@@ -39,12 +72,18 @@ const MyProductCard = React.memo(
 					<Title numberOfLines={1} style={styles.productName}>
 						{item.name}
 					</Title>
+					<IconButton
+						icon="pencil"
+						size={20}
+						onPress={onEdit}
+						style={styles.actionButton}
+					/>
 					<IconButton
 						icon="delete"
 						iconColor="#f44336"
 						size={20}
 						onPress={onDelete}
-						style={styles.deleteButton}
+						style={styles.actionButton}
 					/>
 				</View>
 
@@ -85,35 +124,114 @@ const MyProductCard = React.memo(
 	)
 );
 
+const OUTBOX_STATUS_LABELS = {
+	pending: "Aguardando envio",
+	syncing: "Enviando...",
+	failed: "Falha no envio",
+};
+
+// Produto criado pela câmera que ainda não chegou ao servidor
+const PendingProductCard = React.memo(
+	({
+		entry,
+		onRetry,
+		onDiscard,
+	}: {
+		entry: OutboxEntry;
+		onRetry: () => void;
+		onDiscard: () => void;
+	}) => (
+		<Card style={[styles.productCard, styles.pendingCard]}>
+			<Card.Cover
+				source={{ uri: entry.data.images[0] }}
+				style={styles.productImage}
+			/>
+			<Card.Content style={styles.cardContent}>
+				<Title numberOfLines={1} style={styles.productName}>
+					{entry.data.name}
+				</Title>
+
+				<Text style={styles.productPrice}>
+					R$ {entry.data.price.toFixed(2)}
+				</Text>
+
+				<View style={styles.chipRow}>
+					<Chip
+						mode="outlined"
+						compact
+						icon={
+							entry.status === "failed"
+								? "alert-circle-outline"
+								: "cloud-upload-outline"
+						}
+						textStyle={styles.chipText}
+						style={[
+							styles.stockChip,
+							entry.status === "failed"
+								? styles.outOfStockChip
+								: styles.pendingChip,
+						]}
+					>
+						{OUTBOX_STATUS_LABELS[entry.status]}
+					</Chip>
+				</View>
+
+				{entry.status === "failed" && entry.lastError && (
+					<Text style={styles.pendingError}>{entry.lastError}</Text>
+				)}
+
+				{entry.status !== "syncing" && (
+					<View style={styles.pendingActions}>
+						<Button compact onPress={onDiscard}>
+							Descartar
+						</Button>
+						<Button
+							compact
+							mode="contained-tonal"
+							onPress={onRetry}
+						>
+							Tentar novamente
+						</Button>
+					</View>
+				)}
+			</Card.Content>
+		</Card>
+	)
+);
+
 export const MyProductsScreen: React.FC = () => {
 	const navigation = useNavigation<MyProductsScreenNavigationProp>();
+	const { user } = useAuth();
+
+	const {
+		items: myProducts,
+		isLoading,
+		isRefreshing,
+		isLoadingMore,
+		refresh,
+		revalidate,
+		loadMore,
+	} = usePaginatedQuery({
+		// Cada conta tem a própria lista, inclusive na cópia offline
+		queryKey: createQueryKey("myProducts", { userId: user?.id }),
+		fetchPage: fetchMyProductsPage,
+		getId: getProductId,
+		persist: true,
+	});
 
-	const [myProducts, setMyProducts] = useState<Product[]>([]);
-	const [isLoading, setIsLoading] = useState(true);
+	const { entries: outboxEntries, retry, discard } = useProductOutbox();
 
-	// Recarregar produtos quando a tela ganha foco
+	// Revalidar produtos quando a tela ganha foco
 	useFocusEffect(
 		React.useCallback(() => {
-			loadMyProducts();
-		}, [])
+			revalidate();
+		}, [revalidate])
 	);
 
-	const loadMyProducts = async () => {
-		try {
-			setIsLoading(true);
-			const products = await MyProductsService.getMyProducts();
-			setMyProducts(products);
-		} catch (error) {
-			console.error("Erro ao carregar produtos:", error);
-		} finally {
-			setIsLoading(false);
-		}
-	};
-
 	const handleDeleteProduct = (productId: string, productName: string) => {
 		Alert.alert(
 			"Confirmar exclusão",
-			`Tem certeza que deseja excluir "${productName}"?`,
+			`Tem certeza que deseja excluir "${productName}"? Ele sai do catálogo e fica indisponível para quem o salvou.`,
 			[
 				{ text: "Cancelar", style: "cancel" },
 				{
@@ -127,23 +245,53 @@ export const MyProductsScreen: React.FC = () => {
 
 	const deleteProduct = async (productId: string) => {
 		try {
+			// A lista é revalidada pela invalidação do cache
 			await MyProductsService.removeMyProduct(productId);
-			const updatedProducts = myProducts.filter(
-				(product) => product.id !== productId
-			);
-			setMyProducts(updatedProducts);
 		} catch (error) {
 			console.error("Erro ao excluir produto:", error);
 			Alert.alert("Erro", "Não foi possível excluir o produto");
 		}
 	};
 
+	const handleDiscardPending = (entry: OutboxEntry) => {
+		Alert.alert(
+			"Descartar produto",
+			`"${entry.data.name}" ainda não foi enviado e será perdido. Deseja descartá-lo?`,
+			[
+				{ text: "Cancelar", style: "cancel" },
+				{
+					text: "Descartar",
+					style: "destructive",
+					onPress: () => discard(entry.id),
+				},
+			]
+		);
+	};
+
+	const renderPendingProducts = () => (
+		<>
+			{outboxEntries.map((entry) => (
+				<PendingProductCard
+					key={entry.id}
+					entry={entry}
+					onRetry={() => retry(entry.id)}
+					onDiscard={() => handleDiscardPending(entry)}
+				/>
+			))}
+		</>
+	);
+
+	const hasProducts = myProducts.length > 0 || outboxEntries.length > 0;
+
 	const renderProduct = ({ item }: { item: Product }) => (
 		<MyProductCard
 			item={item}
 			onPress={() =>
 				navigation.navigate("ProductDetail", { productId: item.id })
 			}
+			onEdit={() =>
+				navigation.navigate("EditProduct", { productId: item.id })
+			}
 			onDelete={() => handleDeleteProduct(item.id, item.name)}
 		/>
 	);
@@ -169,7 +317,17 @@ export const MyProductsScreen: React.FC = () => {
 		</View>
 	);
 
-	if (isLoading) {
+	const renderFooter = () => {
+		if (!isLoadingMore) return null;
+
+		return (
+			<View style={styles.footer}>
+				<ActivityIndicator size="small" />
+			</View>
+		);
+	};
+
+	if (isLoading && !hasProducts) {
 		return (
 			<View style={styles.loadingContainer}>
 				<ActivityIndicator size="large" animating={true} />
@@ -182,14 +340,25 @@ export const MyProductsScreen: React.FC = () => {
 
 	return (
 		<View style={styles.container}>
+			<OfflineBanner />
 			<FlatList
 				data={myProducts}
 				renderItem={renderProduct}
 				keyExtractor={(item) => item.id}
-				ListEmptyComponent={renderEmptyState}
+				ListHeaderComponent={renderPendingProducts}
+				ListEmptyComponent={hasProducts ? null : renderEmptyState}
+				ListFooterComponent={renderFooter}
+				refreshControl={
+					<RefreshControl
+						refreshing={isRefreshing}
+						onRefresh={refresh}
+					/>
+				}
+				onEndReached={loadMore}
+				onEndReachedThreshold={0.5}
 				contentContainerStyle={[
 					styles.listContainer,
-					myProducts.length === 0 && styles.emptyListContainer,
+					!hasProducts && styles.emptyListContainer,
 				]}
 				showsVerticalScrollIndicator={false}
 			/>
@@ -214,6 +383,10 @@ const styles = StyleSheet.create({
 	emptyListContainer: {
 		flexGrow: 1,
 	},
+	footer: {
+		paddingVertical: 16,
+		alignItems: "center",
+	},
 	productCard: {
 		marginBottom: 16,
 		elevation: 2,
@@ -235,7 +408,7 @@ const styles = StyleSheet.create({
 		fontWeight: "bold",
 		flex: 1,
 	},
-	deleteButton: {
+	actionButton: {
 		margin: 0,
 		padding: 4,
 	},
@@ -280,6 +453,24 @@ const styles = StyleSheet.create({
 		backgroundColor: "#ffebee",
 		borderColor: "#f44336",
 	},
+	pendingCard: {
+		opacity: 0.9,
+	},
+	pendingChip: {
+		backgroundColor: "#fff8e1",
+		borderColor: "#ffa000",
+	},
+	pendingError: {
+		fontSize: 12,
+		color: "#f44336",
+		marginBottom: 4,
+	},
+	pendingActions: {
+		flexDirection: "row",
+		justifyContent: "flex-end",
+		gap: 8,
+		marginTop: 8,
+	},
 	productCategory: {
 		fontSize: 11,
 		color: "#999",
@@ -10,14 +10,19 @@ import {
 	ActivityIndicator,
 	IconButton,
 	Divider,
+	List,
 } from "react-native-paper";
 import { useNavigation, useRoute, RouteProp } from "@react-navigation/native";
 import { StackNavigationProp } from "@react-navigation/stack";
-import { RootStackParamList, Product } from "../types";
-import { ProductService } from "../services/api";
+import { RootStackParamList, Product, Seller } from "../types";
+import { AuthService, ProductService } from "../services/api";
 import { useNotifications } from "../contexts/NotificationContext";
 import { useFavorites } from "../contexts/FavoritesContext";
 import { useCart } from "../contexts/CartContext";
+import { OfflineBanner } from "../components/OfflineBanner";
+import { AccountAvatar } from "../components/AccountAvatar";
+import { ProductGallery } from "../components/ProductGallery";
+import { isProductAvailable } from "../services/productSnapshots";
 
 type ProductDetailScreenNavigationProp = StackNavigationProp<
 	RootStackParamList,
@@ -34,11 +39,12 @@ export const ProductDetailScreen: React.FC = () => {
 	const navigation = useNavigation<ProductDetailScreenNavigationProp>();
 	const route = useRoute<ProductDetailScreenRouteProp>();
 	const { addNotification } = useNotifications();
-	const { isFavorite, toggleFavorite } = useFavorites();
-	const { addToCart, isInCart } = useCart();
+	const { isFavorite, toggleFavorite, removeFromFavorites } = useFavorites();
+	const { addToCart, isInCart, removeFromCart } = useCart();
 	const { productId } = route.params;
 
 	const [product, setProduct] = useState<Product | null>(null);
+	const [seller, setSeller] = useState<Seller | null>(null);
 	const [isLoading, setIsLoading] = useState(true);
 	const [isAddingToCart, setIsAddingToCart] = useState(false);
 
@@ -46,14 +52,42 @@ export const ProductDetailScreen: React.FC = () => {
 		loadProduct();
 	}, [productId]);
 
+	// A seção do vendedor aparece quando o perfil chega; sem ele, fica oculta
+	const sellerId = product?.sellerId;
+	useEffect(() => {
+		setSeller(null);
+		if (!sellerId) return;
+
+		let active = true;
+		AuthService.getSeller(sellerId)
+			.then((result) => {
+				if (active) setSeller(result);
+			})
+			.catch((error) =>
+				console.error("Erro ao carregar vendedor:", error)
+			);
+		return () => {
+			active = false;
+		};
+	}, [sellerId]);
+
 	const loadProduct = async () => {
 		try {
 			const productData = await ProductService.getProduct(productId);
 			setProduct(productData);
 		} catch (error) {
 			console.error("Erro ao carregar produto:", error);
-			Alert.alert("Erro", "Não foi possível carregar o produto");
-			navigation.goBack();
+
+			// Sem conexão: exibir a última cópia salva do produto
+			const cachedProduct = await ProductService.getCachedProduct(
+				productId
+			);
+			if (cachedProduct) {
+				setProduct(cachedProduct);
+			} else {
+				Alert.alert("Erro", "Não foi possível carregar o produto");
+				navigation.goBack();
+			}
 		} finally {
 			setIsLoading(false);
 		}
@@ -107,6 +141,27 @@ export const ProductDetailScreen: React.FC = () => {
 		}
 	};
 
+	// Produto fora do catálogo que ainda está no carrinho ou nos favoritos
+	const hasSavedCopies = isInCart(productId) || isFavorite(productId);
+
+	const handleRemoveSavedCopies = () => {
+		removeFromCart(productId);
+		removeFromFavorites(productId);
+		navigation.goBack();
+	};
+
+	const renderRemoveSavedCopies = () =>
+		hasSavedCopies && (
+			<Button
+				mode="outlined"
+				onPress={handleRemoveSavedCopies}
+				style={styles.removeSavedButton}
+				icon="delete-outline"
+			>
+				Remover do carrinho e dos favoritos
+			</Button>
+		);
+
 	if (isLoading) {
 		return (
 			<View style={styles.loadingContainer}>
@@ -119,7 +174,10 @@ export const ProductDetailScreen: React.FC = () => {
 	if (!product) {
 		return (
 			<View style={styles.errorContainer}>
-				<Text style={styles.errorText}>Produto não encontrado</Text>
+				<Text style={styles.errorText}>
+					Este produto não está mais disponível
+				</Text>
+				{renderRemoveSavedCopies()}
 				<Button mode="contained" onPress={() => navigation.goBack()}>
 					Voltar
 				</Button>
@@ -127,17 +185,17 @@ export const ProductDetailScreen: React.FC = () => {
 		);
 	}
 
+	const isAvailable = isProductAvailable(product);
+
 	return (
 		<ScrollView
 			style={styles.container}
 			showsVerticalScrollIndicator={false}
 		>
+			<OfflineBanner />
 			<Card style={styles.card}>
 				<View style={styles.imageContainer}>
-					<Card.Cover
-						source={{ uri: product.image }}
-						style={styles.productImage}
-					/>
+					<ProductGallery images={product.images} height={300} />
 					<IconButton
 						icon={
 							isFavorite(product.id) ? "heart" : "heart-outline"
@@ -146,6 +204,7 @@ export const ProductDetailScreen: React.FC = () => {
 						size={28}
 						style={styles.favoriteButton}
 						onPress={handleToggleFavorite}
+						disabled={!isAvailable && !isFavorite(product.id)}
 					/>
 				</View>
 
@@ -156,16 +215,29 @@ export const ProductDetailScreen: React.FC = () => {
 							mode="outlined"
 							style={[
 								styles.stockChip,
-								product.inStock
+								product.inStock && isAvailable
 									? styles.inStockChip
 									: styles.outOfStockChip,
 							]}
 							textStyle={styles.chipText}
 						>
-							{product.inStock ? "Em estoque" : "Sem estoque"}
+							{!isAvailable
+								? "Indisponível"
+								: product.inStock
+								? "Em estoque"
+								: "Sem estoque"}
 						</Chip>
 					</View>
 
+					{!isAvailable && (
+						<View style={styles.unavailableNotice}>
+							<Text style={styles.unavailableText}>
+								Este produto não está mais disponível
+							</Text>
+							{renderRemoveSavedCopies()}
+						</View>
+					)}
+
 					<Text style={styles.price}>
 						R$ {product.price.toFixed(2)}
 					</Text>
@@ -200,6 +272,23 @@ export const ProductDetailScreen: React.FC = () => {
 						</Text>
 					</View>
 
+					{seller && (
+						<List.Item
+							title={seller.name}
+							description="Vendedor · ver todos os produtos"
+							left={() => <AccountAvatar user={seller} />}
+							right={(props) => (
+								<List.Icon {...props} icon="chevron-right" />
+							)}
+							onPress={() =>
+								navigation.navigate("SellerProfile", {
+									sellerId: seller.id,
+								})
+							}
+							style={styles.sellerItem}
+						/>
+					)}
+
 					<Divider style={styles.divider} />
 
 					<View style={styles.actionButtons}>
@@ -207,11 +296,17 @@ export const ProductDetailScreen: React.FC = () => {
 							mode="contained"
 							onPress={handleAddToCart}
 							loading={isAddingToCart}
-							disabled={isAddingToCart || !product.inStock}
+							disabled={
+								isAddingToCart ||
+								!product.inStock ||
+								!isAvailable
+							}
 							style={styles.addToCartButton}
 							icon="cart-plus"
 						>
-							{isAddingToCart
+							{!isAvailable
+								? "Indisponível"
+								: isAddingToCart
 								? "Adicionando..."
 								: isInCart(product.id)
 								? "Já no carrinho"
@@ -221,6 +316,7 @@ export const ProductDetailScreen: React.FC = () => {
 						<Button
 							mode="outlined"
 							onPress={handleToggleFavorite}
+							disabled={!isAvailable && !isFavorite(product.id)}
 							style={styles.favoriteActionButton}
 							icon={
 								isFavorite(product.id)
@@ -264,6 +360,20 @@ const styles = StyleSheet.create({
 		marginBottom: 16,
 		textAlign: "center",
 	},
+	removeSavedButton: {
+		marginBottom: 16,
+	},
+	unavailableNotice: {
+		padding: 12,
+		marginBottom: 12,
+		backgroundColor: "#ffebee",
+		borderRadius: 8,
+	},
+	unavailableText: {
+		color: "#c62828",
+		fontWeight: "bold",
+		marginBottom: 8,
+	},
 	card: {
 		margin: 16,
 		marginBottom: 32,
@@ -271,9 +381,10 @@ const styles = StyleSheet.create({
 	},
 	imageContainer: {
 		position: "relative",
-	},
-	productImage: {
-		height: 300,
+		// Cantos arredondados do card, como fazia o Card.Cover
+		borderTopLeftRadius: 12,
+		borderTopRightRadius: 12,
+		overflow: "hidden",
 	},
 	favoriteButton: {
 		position: "absolute",
@@ -342,6 +453,9 @@ const styles = StyleSheet.create({
 		lineHeight: 24,
 		color: "#444",
 	},
+	sellerItem: {
+		paddingHorizontal: 0,
+	},
 	infoSection: {
 		marginBottom: 20,
 		padding: 16,
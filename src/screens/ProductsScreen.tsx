@@ -2,7 +2,6 @@ import React, { useState, useEffect, useCallback, useMemo } from "react";
 import { View, StyleSheet, FlatList, RefreshControl } from "react-native";
 import {
 	Text,
-	Searchbar,
 	Card,
 	Title,
 	Paragraph,
@@ -10,35 +9,38 @@ import {
 	ActivityIndicator,
 	IconButton,
 	FAB,
+	Button,
+	Menu,
 } from "react-native-paper";
 import { useNavigation } from "@react-navigation/native";
 import { StackNavigationProp } from "@react-navigation/stack";
-import { RootStackParamList, Product } from "../types";
+import {
+	RootStackParamList,
+	Product,
+	ProductFilters,
+	ProductSort,
+} from "../types";
 import { ProductService } from "../services/api";
+import { ProductSearchBar } from "../components/ProductSearchBar";
+import { OfflineBanner } from "../components/OfflineBanner";
+import { usePaginatedQuery } from "../hooks/usePaginatedQuery";
+import { createQueryKey } from "../services/queryCache";
+import {
+	ProductFilterSheet,
+	countActiveFilters,
+} from "../components/ProductFilterSheet";
 
 type ProductsScreenNavigationProp = StackNavigationProp<RootStackParamList>;
 
-// Componente separado para o Searchbar para evitar re-renderizações
-const SearchBarComponent = React.memo(
-	({
-		value,
-		onChangeText,
-		style,
-	}: {
-		value: string;
-		onChangeText: (text: string) => void;
-		style: any;
-	}) => (
-		<Searchbar
-			placeholder="Buscar produtos..."
-			onChangeText={onChangeText}
-			value={value}
-			style={style}
-			autoCapitalize="none"
-			autoCorrect={false}
-		/>
-	)
-);
+const getProductId = (product: Product) => product.id;
+
+const SORT_OPTIONS: { value: ProductSort | undefined; label: string }[] = [
+	{ value: undefined, label: "Relevância" },
+	{ value: "newest", label: "Mais recentes" },
+	{ value: "price_asc", label: "Menor preço" },
+	{ value: "price_desc", label: "Maior preço" },
+	{ value: "name", label: "Nome (A-Z)" },
+];
 
 // Componente otimizado para produto
 const ProductCard = React.memo(
@@ -93,15 +95,20 @@ const ProductCard = React.memo(
 export const ProductsScreen: React.FC = () => {
 	const navigation = useNavigation<ProductsScreenNavigationProp>();
 
-	const [products, setProducts] = useState<Product[]>([]);
 	const [searchQuery, setSearchQuery] = useState("");
 	const [debouncedSearchQuery, setDebouncedSearchQuery] = useState("");
-	const [isLoading, setIsLoading] = useState(false);
-	const [isRefreshing, setIsRefreshing] = useState(false);
-	const [isLoadingMore, setIsLoadingMore] = useState(false);
-	const [page, setPage] = useState(1);
-	const [hasMore, setHasMore] = useState(true);
-	const [totalProducts, setTotalProducts] = useState(0);
+	const [filters, setFilters] = useState<ProductFilters>({});
+	const [categories, setCategories] = useState<string[]>([]);
+	const [showFilters, setShowFilters] = useState(false);
+	const [showSortMenu, setShowSortMenu] = useState(false);
+
+	useEffect(() => {
+		ProductService.getCategories()
+			.then(setCategories)
+			.catch((error) =>
+				console.error("Erro ao carregar categorias:", error)
+			);
+	}, []);
 
 	// Debounce search query
 	useEffect(() => {
@@ -112,69 +119,55 @@ export const ProductsScreen: React.FC = () => {
 		return () => clearTimeout(timer);
 	}, [searchQuery]);
 
-	const loadProducts = useCallback(
-		async (pageNum = 1, search = "", refresh = false, loadMore = false) => {
-			if ((isLoading || isLoadingMore) && !refresh) return;
-
-			if (loadMore) {
-				setIsLoadingMore(true);
-			} else {
-				setIsLoading(true);
-			}
-
-			try {
-				const response = search
-					? await ProductService.searchProducts(search, pageNum, 10)
-					: await ProductService.getProducts(pageNum, 10);
-
-				if (pageNum === 1 || refresh) {
-					setProducts(response.data);
-				} else {
-					setProducts((prev) => [...prev, ...response.data]);
-				}
-
-				setTotalProducts(response.total);
-				setHasMore(pageNum < response.totalPages);
-				setPage(pageNum);
-			} catch (error) {
-				console.error("Erro ao carregar produtos:", error);
-			} finally {
-				setIsLoading(false);
-				setIsLoadingMore(false);
-				setIsRefreshing(false);
-			}
-		},
-		[isLoading, isLoadingMore]
-	);
+	// Recarrega do início quando a busca ou os filtros mudam
+	const {
+		items: products,
+		total: totalProducts,
+		isLoading,
+		isRefreshing,
+		isLoadingMore,
+		refresh,
+		loadMore,
+	} = usePaginatedQuery({
+		queryKey: createQueryKey("products", {
+			...filters,
+			search: debouncedSearchQuery,
+		}),
+		fetchPage: (cursor, signal) =>
+			ProductService.getProductsPage(
+				{ ...filters, search: debouncedSearchQuery, cursor, limit: 10 },
+				signal
+			),
+		getId: getProductId,
+		// Buscas avulsas não são salvas para uso offline
+		persist: !debouncedSearchQuery,
+	});
 
-	useEffect(() => {
-		loadProducts(1, debouncedSearchQuery);
+	const handleSearch = useCallback((query: string) => {
+		setSearchQuery(query);
 	}, []);
 
-	// Reagir às mudanças no debouncedSearchQuery
-	useEffect(() => {
-		setPage(1);
-		setHasMore(true);
-		loadProducts(1, debouncedSearchQuery, true);
-	}, [debouncedSearchQuery]);
-
-	const handleSearch = useCallback((query: string) => {
+	// Sugestões e "buscar" no teclado executam a busca sem esperar o debounce
+	const handleSubmitSearch = useCallback((query: string) => {
 		setSearchQuery(query);
+		setDebouncedSearchQuery(query);
 	}, []);
 
-	const handleRefresh = () => {
-		setIsRefreshing(true);
-		setPage(1);
-		setHasMore(true);
-		loadProducts(1, searchQuery, true);
+	const handleApplyFilters = (newFilters: ProductFilters) => {
+		setShowFilters(false);
+		setFilters(newFilters);
 	};
 
-	const handleLoadMore = () => {
-		if (hasMore && !isLoading && !isLoadingMore) {
-			loadProducts(page + 1, searchQuery, false, true);
-		}
+	const handleSelectSort = (sort: ProductSort | undefined) => {
+		setShowSortMenu(false);
+		setFilters((prev) => ({ ...prev, sort }));
 	};
 
+	const activeFilterCount = countActiveFilters(filters);
+	const sortLabel =
+		SORT_OPTIONS.find((option) => option.value === filters.sort)?.label ??
+		"Relevância";
+
 	const renderProduct = useCallback(
 		({ item }: { item: Product }) => (
 			<ProductCard
@@ -198,11 +191,55 @@ export const ProductsScreen: React.FC = () => {
 				</Text>
 			</View>
 
-			<SearchBarComponent
+			<ProductSearchBar
 				value={searchQuery}
 				onChangeText={handleSearch}
+				onSubmitSearch={handleSubmitSearch}
 				style={styles.searchbar}
 			/>
+
+			<View style={styles.filterBar}>
+				<Button
+					mode={
+						activeFilterCount > 0 ? "contained-tonal" : "outlined"
+					}
+					icon="filter-variant"
+					onPress={() => setShowFilters(true)}
+					compact
+				>
+					{activeFilterCount > 0
+						? `Filtros (${activeFilterCount})`
+						: "Filtros"}
+				</Button>
+
+				<Menu
+					visible={showSortMenu}
+					onDismiss={() => setShowSortMenu(false)}
+					anchor={
+						<Button
+							mode="outlined"
+							icon="sort"
+							onPress={() => setShowSortMenu(true)}
+							compact
+						>
+							{sortLabel}
+						</Button>
+					}
+				>
+					{SORT_OPTIONS.map((option) => (
+						<Menu.Item
+							key={option.label}
+							title={option.label}
+							leadingIcon={
+								option.value === filters.sort
+									? "check"
+									: undefined
+							}
+							onPress={() => handleSelectSort(option.value)}
+						/>
+					))}
+				</Menu>
+			</View>
 		</View>
 	);
 
@@ -230,13 +267,15 @@ export const ProductsScreen: React.FC = () => {
 					iconColor="#ccc"
 				/>
 				<Title style={styles.emptyTitle}>
-					{searchQuery
+					{searchQuery || activeFilterCount > 0
 						? "Nenhum produto encontrado"
 						: "Nenhum produto disponível"}
 				</Title>
 				<Paragraph style={styles.emptyMessage}>
 					{searchQuery
 						? "Tente buscar com outros termos ou verifique a ortografia."
+						: activeFilterCount > 0
+						? "Tente remover alguns filtros."
 						: "Adicione produtos usando a câmera para começar."}
 				</Paragraph>
 			</View>
@@ -245,23 +284,27 @@ export const ProductsScreen: React.FC = () => {
 
 	return (
 		<View style={styles.container}>
+			<OfflineBanner />
 			<FlatList
 				data={products}
 				renderItem={renderProduct}
 				keyExtractor={keyExtractor}
-				ListHeaderComponent={renderHeader}
+				// Elemento, não componente: a busca não é remontada a cada
+				// render e mantém foco e sugestões
+				ListHeaderComponent={renderHeader()}
 				ListFooterComponent={renderFooter}
 				ListEmptyComponent={renderEmptyState}
 				refreshControl={
 					<RefreshControl
 						refreshing={isRefreshing}
-						onRefresh={handleRefresh}
+						onRefresh={refresh}
 						colors={["#6200ea"]}
 					/>
 				}
-				onEndReached={handleLoadMore}
+				onEndReached={loadMore}
 				onEndReachedThreshold={0.5}
 				showsVerticalScrollIndicator={false}
+				keyboardShouldPersistTaps="handled"
 				contentContainerStyle={[
 					styles.listContainer,
 					products.length === 0 && styles.emptyListContainer,
@@ -281,6 +324,14 @@ export const ProductsScreen: React.FC = () => {
 				onPress={() => navigation.navigate("Camera")}
 				label="Adicionar"
 			/>
+
+			<ProductFilterSheet
+				visible={showFilters}
+				filters={filters}
+				categories={categories}
+				onDismiss={() => setShowFilters(false)}
+				onApply={handleApplyFilters}
+			/>
 		</View>
 	);
 };
@@ -312,7 +363,12 @@ const styles = StyleSheet.create({
 		color: "#666",
 	},
 	searchbar: {
-		marginBottom: 16,
+		marginBottom: 12,
+	},
+	filterBar: {
+		flexDirection: "row",
+		justifyContent: "space-between",
+		alignItems: "center",
 	},
 	productCard: {
 		marginBottom: 16,
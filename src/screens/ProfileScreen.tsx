@@ -16,6 +16,9 @@ import { StackNavigationProp } from "@react-navigation/stack";
 import { RootStackParamList } from "../types";
 import { useAuth } from "../contexts/AuthContext";
 import { useNotifications } from "../contexts/NotificationContext";
+import { AppLockSettings } from "../components/AppLockSettings";
+import { AccountSwitcher } from "../components/AccountSwitcher";
+import { PersonalDataSettings } from "../components/PersonalDataSettings";
 import * as ImagePicker from "expo-image-picker";
 
 type ProfileScreenNavigationProp = StackNavigationProp<RootStackParamList>;
@@ -27,20 +30,31 @@ export const ProfileScreen: React.FC = () => {
 	const [isUpdatingPhoto, setIsUpdatingPhoto] = useState(false);
 
 	const handleLogout = () => {
-		Alert.alert("Sair", "Tem certeza que deseja sair da sua conta?", [
-			{ text: "Cancelar", style: "cancel" },
-			{
-				text: "Sair",
-				style: "destructive",
-				onPress: async () => {
-					try {
-						await logout();
-					} catch (error) {
-						console.error("Erro ao fazer logout:", error);
-					}
+		const confirmLogout = async (wipeLocalData: boolean) => {
+			try {
+				await logout({ wipeLocalData });
+			} catch (error) {
+				console.error("Erro ao fazer logout:", error);
+			}
+		};
+
+		Alert.alert(
+			"Sair",
+			"Tem certeza que deseja sair da sua conta? Você também pode apagar o carrinho, os favoritos e os envios pendentes salvos neste aparelho.",
+			[
+				{ text: "Cancelar", style: "cancel" },
+				{
+					text: "Sair e apagar dados",
+					style: "destructive",
+					onPress: () => confirmLogout(true),
 				},
-			},
-		]);
+				{
+					text: "Sair",
+					style: "destructive",
+					onPress: () => confirmLogout(false),
+				},
+			]
+		);
 	};
 
 	const handleChangePhoto = async () => {
@@ -158,6 +172,12 @@ export const ProfileScreen: React.FC = () => {
 
 					<Divider />
 
+					<List.Subheader>Trocar de conta</List.Subheader>
+
+					<AccountSwitcher />
+
+					<Divider />
+
 					<List.Subheader>Produtos</List.Subheader>
 
 					<List.Item
@@ -194,6 +214,39 @@ export const ProfileScreen: React.FC = () => {
 
 					<Divider />
 
+					<List.Subheader>Segurança</List.Subheader>
+
+					{/* Contas do login social começam sem senha */}
+					<List.Item
+						title={
+							user?.hasPassword === false
+								? "Definir senha"
+								: "Alterar senha"
+						}
+						description={
+							user?.hasPassword === false
+								? "Para entrar também com email e senha"
+								: "Encerra a sessão nos outros aparelhos"
+						}
+						left={(props) => (
+							<List.Icon {...props} icon="lock-reset" />
+						)}
+						right={(props) => (
+							<List.Icon {...props} icon="chevron-right" />
+						)}
+						onPress={() => navigation.navigate("ChangePassword")}
+					/>
+
+					<AppLockSettings />
+
+					<Divider />
+
+					<List.Subheader>Seus dados</List.Subheader>
+
+					<PersonalDataSettings />
+
+					<Divider />
+
 					<List.Subheader>Configurações</List.Subheader>
 
 					<List.Item
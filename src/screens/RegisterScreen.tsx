@@ -20,6 +20,8 @@ import { useNavigation } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RootStackParamList } from '../types';
 import { useAuth } from '../contexts/AuthContext';
+import { PasswordStrengthMeter } from '../components/PasswordStrengthMeter';
+import { getPasswordPolicyError } from '../utils/passwordPolicy';
 
 type RegisterScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Register'>;
 
@@ -63,8 +65,8 @@ export const RegisterScreen: React.FC = () => {
     
     if (!formData.password.trim()) {
       newErrors.password = 'Senha é obrigatória';
-    } else if (formData.password.length < 6) {
-      newErrors.password = 'Senha deve ter pelo menos 6 caracteres';
+    } else {
+      newErrors.password = getPasswordPolicyError(formData.password, formData) ?? undefined;
     }
     
     if (!formData.confirmPassword.trim()) {
@@ -74,7 +76,7 @@ export const RegisterScreen: React.FC = () => {
     }
     
     setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
+    return Object.values(newErrors).every((error) => !error);
   };
 
   const handleRegister = async () => {
@@ -153,6 +155,11 @@ export const RegisterScreen: React.FC = () => {
               <HelperText type="error" visible={!!errors.password}>
                 {errors.password}
               </HelperText>
+              <PasswordStrengthMeter
+                password={formData.password}
+                email={formData.email}
+                name={formData.name}
+              />
 
               <TextInput
                 label="Confirmar senha"
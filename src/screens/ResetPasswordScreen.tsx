@@ -20,6 +20,11 @@ import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RootStackParamList } from '../types';
 import { AuthService } from '../services/api';
+import { AuthError } from '../services/errors';
+import { useAuth } from '../contexts/AuthContext';
+import { useCountdown } from '../hooks/useCountdown';
+import { PasswordStrengthMeter } from '../components/PasswordStrengthMeter';
+import { getPasswordPolicyError } from '../utils/passwordPolicy';
 
 type ResetPasswordScreenNavigationProp = StackNavigationProp<RootStackParamList, 'ResetPassword'>;
 type ResetPasswordScreenRouteProp = RouteProp<RootStackParamList, 'ResetPassword'>;
@@ -28,6 +33,10 @@ export const ResetPasswordScreen: React.FC = () => {
   const navigation = useNavigation<ResetPasswordScreenNavigationProp>();
   const route = useRoute<ResetPasswordScreenRouteProp>();
   const { email } = route.params;
+  const { resetPassword } = useAuth();
+  const [resendAvailableAt, setResendAvailableAt] = useState(route.params.resendAvailableAt);
+  const [isResending, setIsResending] = useState(false);
+  const resendCountdown = useCountdown(resendAvailableAt);
   
   const [formData, setFormData] = useState({
     otp: '',
@@ -58,8 +67,8 @@ export const ResetPasswordScreen: React.FC = () => {
     
     if (!formData.newPassword.trim()) {
       newErrors.newPassword = 'Nova senha é obrigatória';
-    } else if (formData.newPassword.length < 6) {
-      newErrors.newPassword = 'Senha deve ter pelo menos 6 caracteres';
+    } else {
+      newErrors.newPassword = getPasswordPolicyError(formData.newPassword, { email }) ?? undefined;
     }
     
     if (!formData.confirmPassword.trim()) {
@@ -69,7 +78,7 @@ export const ResetPasswordScreen: React.FC = () => {
     }
     
     setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
+    return Object.values(newErrors).every((error) => !error);
   };
 
   const handleResetPassword = async () => {
@@ -77,36 +86,54 @@ export const ResetPasswordScreen: React.FC = () => {
     
     setIsLoading(true);
     try {
-      const success = await AuthService.resetPassword(
-        email,
-        formData.otp,
-        formData.newPassword
-      );
+      await resetPassword(email, formData.otp, formData.newPassword);
       
-      if (success) {
+      Alert.alert(
+        'Sucesso',
+        'Senha alterada com sucesso!',
+        [
+          {
+            text: 'OK',
+            onPress: () => navigation.navigate('Login'),
+          },
+        ]
+      );
+    } catch (error) {
+      // Código recusado: mostrar o motivo junto ao campo
+      if (error instanceof AuthError) {
+        setErrors({ otp: error.message });
+      } else {
         Alert.alert(
-          'Sucesso',
-          'Senha alterada com sucesso!',
-          [
-            {
-              text: 'OK',
-              onPress: () => navigation.navigate('Login'),
-            },
-          ]
+          'Erro',
+          error instanceof Error ? error.message : 'Erro ao alterar senha'
         );
-      } else {
-        Alert.alert('Erro', 'Código OTP inválido ou expirado');
       }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleResendOTP = async () => {
+    setIsResending(true);
+    try {
+      const challenge = await AuthService.sendResetPasswordOTP(email);
+      setResendAvailableAt(challenge.resendAvailableAt);
+      setErrors({});
+      updateFormData('otp', '');
+      Alert.alert('Código reenviado', `Se houver uma conta cadastrada com ${email}, você receberá um novo código.`);
     } catch (error) {
       Alert.alert(
         'Erro',
-        error instanceof Error ? error.message : 'Erro ao alterar senha'
+        error instanceof Error ? error.message : 'Erro ao reenviar código'
       );
     } finally {
-      setIsLoading(false);
+      setIsResending(false);
     }
   };
 
+  const formatCountdown = (seconds: number) =>
+    `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
   return (
     <KeyboardAvoidingView
       style={styles.container}
@@ -136,6 +163,19 @@ export const ResetPasswordScreen: React.FC = () => {
                 {errors.otp}
               </HelperText>
 
+              <Button
+                mode="text"
+                onPress={handleResendOTP}
+                style={styles.resendButton}
+                disabled={isLoading || isResending || resendCountdown > 0}
+                loading={isResending}
+                compact
+              >
+                {resendCountdown > 0
+                  ? `Reenviar código em ${formatCountdown(resendCountdown)}`
+                  : 'Reenviar código'}
+              </Button>
+
               <TextInput
                 label="Nova senha"
                 value={formData.newPassword}
@@ -155,6 +195,7 @@ export const ResetPasswordScreen: React.FC = () => {
               <HelperText type="error" visible={!!errors.newPassword}>
                 {errors.newPassword}
               </HelperText>
+              <PasswordStrengthMeter password={formData.newPassword} email={email} />
 
               <TextInput
                 label="Confirmar nova senha"
@@ -233,6 +274,10 @@ const styles = StyleSheet.create({
   input: {
     marginBottom: 8,
   },
+  resendButton: {
+    alignSelf: 'flex-end',
+    marginBottom: 8,
+  },
   resetButton: {
     marginTop: 16,
     marginBottom: 8,
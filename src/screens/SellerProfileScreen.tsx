@@ -0,0 +1,313 @@
+import React, { useState, useEffect, useCallback } from "react";
+import { View, StyleSheet, FlatList, RefreshControl } from "react-native";
+import {
+	Text,
+	Card,
+	Title,
+	Paragraph,
+	Chip,
+	ActivityIndicator,
+	IconButton,
+} from "react-native-paper";
+import { useNavigation, useRoute, RouteProp } from "@react-navigation/native";
+import { StackNavigationProp } from "@react-navigation/stack";
+import { RootStackParamList, Product, Seller } from "../types";
+import { AuthService, ProductService } from "../services/api";
+import { createQueryKey } from "../services/queryCache";
+import { usePaginatedQuery } from "../hooks/usePaginatedQuery";
+import { AccountAvatar } from "../components/AccountAvatar";
+import { OfflineBanner } from "../components/OfflineBanner";
+
+type SellerProfileScreenNavigationProp = StackNavigationProp<
+	RootStackParamList,
+	"SellerProfile"
+>;
+type SellerProfileScreenRouteProp = RouteProp<
+	RootStackParamList,
+	"SellerProfile"
+>;
+
+const getProductId = (product: Product) => product.id;
+
+// Componente otimizado para produto do vendedor
+const SellerProductCard = React.memo(
+	({ item, onPress }: { item: Product; onPress: () => void }) => (
+		<Card style={styles.productCard} onPress={onPress}>
+			<Card.Cover
+				source={{ uri: item.image }}
+				style={styles.productImage}
+			/>
+			<Card.Content style={styles.cardContent}>
+				<Title numberOfLines={1} style={styles.productName}>
+					{item.name}
+				</Title>
+
+				<Paragraph numberOfLines={2} style={styles.productDescription}>
+					{item.description}
+				</Paragraph>
+
+				<View style={styles.productMeta}>
+					<Text style={styles.productPrice}>
+						R$ {item.price.toFixed(2)}
+					</Text>
+					<Chip
+						mode="outlined"
+						compact
+						textStyle={styles.chipText}
+						style={[
+							styles.stockChip,
+							item.inStock
+								? styles.inStockChip
+								: styles.outOfStockChip,
+						]}
+					>
+						{item.inStock ? "Em estoque" : "Sem estoque"}
+					</Chip>
+				</View>
+
+				<Text style={styles.productCategory}>{item.category}</Text>
+			</Card.Content>
+		</Card>
+	)
+);
+
+// Perfil público do vendedor com todos os produtos dele no catálogo
+export const SellerProfileScreen: React.FC = () => {
+	const navigation = useNavigation<SellerProfileScreenNavigationProp>();
+	const route = useRoute<SellerProfileScreenRouteProp>();
+	const { sellerId } = route.params;
+
+	const [seller, setSeller] = useState<Seller | null>(null);
+	const [isLoadingSeller, setIsLoadingSeller] = useState(true);
+
+	useEffect(() => {
+		let active = true;
+		setIsLoadingSeller(true);
+		AuthService.getSeller(sellerId)
+			.then((result) => {
+				if (active) setSeller(result);
+			})
+			.catch((error) =>
+				console.error("Erro ao carregar vendedor:", error)
+			)
+			.finally(() => {
+				if (active) setIsLoadingSeller(false);
+			});
+		return () => {
+			active = false;
+		};
+	}, [sellerId]);
+
+	// Escopo "products": edições e exclusões do catálogo recarregam a lista
+	const {
+		items: products,
+		total,
+		isLoading,
+		isRefreshing,
+		isLoadingMore,
+		refresh,
+		loadMore,
+	} = usePaginatedQuery({
+		queryKey: createQueryKey("products", { sellerId }),
+		fetchPage: (cursor, signal) =>
+			ProductService.getSellerProducts(sellerId, cursor, signal),
+		getId: getProductId,
+	});
+
+	const renderProduct = useCallback(
+		({ item }: { item: Product }) => (
+			<SellerProductCard
+				item={item}
+				onPress={() =>
+					navigation.navigate("ProductDetail", { productId: item.id })
+				}
+			/>
+		),
+		[navigation]
+	);
+
+	const renderHeader = () => {
+		if (!seller) return null;
+
+		return (
+			<View style={styles.header}>
+				<AccountAvatar user={seller} size={72} />
+				<Title style={styles.sellerName}>{seller.name}</Title>
+				<Text style={styles.sellerInfo}>
+					Vendendo desde{" "}
+					{new Date(seller.createdAt).toLocaleDateString("pt-BR")}
+				</Text>
+				<Text style={styles.sellerInfo}>
+					{total === 1 ? "1 produto" : `${total} produtos`}
+				</Text>
+			</View>
+		);
+	};
+
+	const renderEmptyState = () => {
+		if (isLoading) return null;
+
+		return (
+			<View style={styles.emptyContainer}>
+				<IconButton
+					icon="package-variant-closed"
+					size={64}
+					iconColor="#ccc"
+				/>
+				<Text style={styles.emptyMessage}>
+					Este vendedor não tem produtos à venda.
+				</Text>
+			</View>
+		);
+	};
+
+	const renderFooter = () => {
+		if (!isLoadingMore) return null;
+
+		return (
+			<View style={styles.footer}>
+				<ActivityIndicator size="small" />
+			</View>
+		);
+	};
+
+	if (isLoadingSeller || (isLoading && products.length === 0)) {
+		return (
+			<View style={styles.loadingContainer}>
+				<ActivityIndicator size="large" />
+			</View>
+		);
+	}
+
+	if (!seller) {
+		return (
+			<View style={styles.loadingContainer}>
+				<Text style={styles.emptyMessage}>
+					Este vendedor não está mais disponível.
+				</Text>
+			</View>
+		);
+	}
+
+	return (
+		<View style={styles.container}>
+			<OfflineBanner />
+			<FlatList
+				data={products}
+				renderItem={renderProduct}
+				keyExtractor={getProductId}
+				ListHeaderComponent={renderHeader}
+				ListEmptyComponent={renderEmptyState}
+				ListFooterComponent={renderFooter}
+				refreshControl={
+					<RefreshControl
+						refreshing={isRefreshing}
+						onRefresh={refresh}
+					/>
+				}
+				onEndReached={loadMore}
+				onEndReachedThreshold={0.5}
+				contentContainerStyle={styles.listContainer}
+				showsVerticalScrollIndicator={false}
+			/>
+		</View>
+	);
+};
+
+const styles = StyleSheet.create({
+	container: {
+		flex: 1,
+		backgroundColor: "#f5f5f5",
+	},
+	listContainer: {
+		padding: 16,
+	},
+	loadingContainer: {
+		flex: 1,
+		justifyContent: "center",
+		alignItems: "center",
+		padding: 20,
+	},
+	header: {
+		alignItems: "center",
+		marginBottom: 24,
+	},
+	sellerName: {
+		fontSize: 22,
+		fontWeight: "bold",
+		marginTop: 12,
+	},
+	sellerInfo: {
+		fontSize: 14,
+		color: "#666",
+		marginTop: 4,
+	},
+	productCard: {
+		marginBottom: 16,
+		elevation: 2,
+	},
+	cardContent: {
+		paddingBottom: 16,
+	},
+	productImage: {
+		height: 120,
+	},
+	productName: {
+		fontSize: 16,
+		fontWeight: "bold",
+		marginBottom: 4,
+	},
+	productDescription: {
+		fontSize: 12,
+		color: "#666",
+		marginBottom: 8,
+		lineHeight: 16,
+		minHeight: 32,
+	},
+	productMeta: {
+		flexDirection: "row",
+		justifyContent: "space-between",
+		alignItems: "center",
+		marginBottom: 8,
+	},
+	productPrice: {
+		fontSize: 18,
+		fontWeight: "bold",
+		color: "#2e7d32",
+	},
+	stockChip: {
+		height: 28,
+		justifyContent: "center",
+	},
+	chipText: {
+		fontSize: 11,
+		lineHeight: 14,
+		paddingHorizontal: 4,
+	},
+	inStockChip: {
+		backgroundColor: "#e8f5e8",
+		borderColor: "#4caf50",
+	},
+	outOfStockChip: {
+		backgroundColor: "#ffebee",
+		borderColor: "#f44336",
+	},
+	productCategory: {
+		fontSize: 11,
+		color: "#999",
+		fontStyle: "italic",
+	},
+	emptyContainer: {
+		alignItems: "center",
+		paddingVertical: 40,
+	},
+	emptyMessage: {
+		textAlign: "center",
+		color: "#999",
+		fontSize: 14,
+	},
+	footer: {
+		paddingVertical: 16,
+		alignItems: "center",
+	},
+});
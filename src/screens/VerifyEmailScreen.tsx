@@ -0,0 +1,212 @@
+import React, { useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import {
+  TextInput,
+  Button,
+  Card,
+  Title,
+  Paragraph,
+  HelperText,
+} from 'react-native-paper';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RootStackParamList } from '../types';
+import { AuthService } from '../services/api';
+import { AuthError } from '../services/errors';
+import { useAuth } from '../contexts/AuthContext';
+import { useCountdown } from '../hooks/useCountdown';
+
+type VerifyEmailScreenNavigationProp = StackNavigationProp<RootStackParamList, 'VerifyEmail'>;
+type VerifyEmailScreenRouteProp = RouteProp<RootStackParamList, 'VerifyEmail'>;
+
+export const VerifyEmailScreen: React.FC = () => {
+  const navigation = useNavigation<VerifyEmailScreenNavigationProp>();
+  const route = useRoute<VerifyEmailScreenRouteProp>();
+  const { email } = route.params;
+  const { user, confirmEmailChange } = useAuth();
+  const [resendAvailableAt, setResendAvailableAt] = useState(route.params.resendAvailableAt);
+  const [isResending, setIsResending] = useState(false);
+  const resendCountdown = useCountdown(resendAvailableAt);
+
+  const [otp, setOtp] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleConfirm = async () => {
+    if (otp.length !== 6) {
+      setError('Código deve ter 6 dígitos');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await confirmEmailChange(email, otp);
+
+      Alert.alert(
+        'Sucesso',
+        `Seu email agora é ${email}.`,
+        [
+          {
+            text: 'OK',
+            onPress: () => navigation.goBack(),
+          },
+        ]
+      );
+    } catch (error) {
+      // Código recusado ou email tomado por outra conta: mostrar no campo
+      if (error instanceof AuthError) {
+        setError(error.message);
+      } else {
+        Alert.alert(
+          'Erro',
+          error instanceof Error ? error.message : 'Erro ao confirmar email'
+        );
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleResend = async () => {
+    setIsResending(true);
+    try {
+      const challenge = await AuthService.requestEmailChange(email);
+      setResendAvailableAt(challenge.resendAvailableAt);
+      setError(null);
+      setOtp('');
+      Alert.alert('Código reenviado', `Enviamos um novo código para ${email}.`);
+    } catch (error) {
+      Alert.alert(
+        'Erro',
+        error instanceof Error ? error.message : 'Erro ao reenviar código'
+      );
+    } finally {
+      setIsResending(false);
+    }
+  };
+
+  const formatCountdown = (seconds: number) =>
+    `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <ScrollView contentContainerStyle={styles.scrollContainer}>
+        <View style={styles.content}>
+          <Card style={styles.card}>
+            <Card.Content>
+              <Title style={styles.title}>Confirmar Email</Title>
+              <Paragraph style={styles.subtitle}>
+                Digite o código enviado para {email}. Até a confirmação, você continua entrando com {user?.email}.
+              </Paragraph>
+
+              <TextInput
+                label="Código"
+                value={otp}
+                onChangeText={(value) => {
+                  setOtp(value.replace(/\D/g, ''));
+                  setError(null);
+                }}
+                mode="outlined"
+                keyboardType="numeric"
+                maxLength={6}
+                style={styles.input}
+                error={!!error}
+                disabled={isLoading}
+              />
+              <HelperText type="error" visible={!!error}>
+                {error}
+              </HelperText>
+
+              <Button
+                mode="text"
+                onPress={handleResend}
+                style={styles.resendButton}
+                disabled={isLoading || isResending || resendCountdown > 0}
+                loading={isResending}
+                compact
+              >
+                {resendCountdown > 0
+                  ? `Reenviar código em ${formatCountdown(resendCountdown)}`
+                  : 'Reenviar código'}
+              </Button>
+
+              <Button
+                mode="contained"
+                onPress={handleConfirm}
+                style={styles.confirmButton}
+                disabled={isLoading}
+                loading={isLoading}
+              >
+                {isLoading ? 'Confirmando...' : 'Confirmar novo email'}
+              </Button>
+
+              <Button
+                mode="text"
+                onPress={() => navigation.goBack()}
+                style={styles.textButton}
+                disabled={isLoading}
+              >
+                Manter email atual
+              </Button>
+            </Card.Content>
+          </Card>
+        </View>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  scrollContainer: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    padding: 20,
+  },
+  content: {
+    flex: 1,
+    justifyContent: 'center',
+  },
+  card: {
+    elevation: 4,
+  },
+  title: {
+    textAlign: 'center',
+    marginBottom: 8,
+    fontSize: 28,
+    fontWeight: 'bold',
+  },
+  subtitle: {
+    textAlign: 'center',
+    marginBottom: 24,
+    color: '#666',
+  },
+  input: {
+    marginBottom: 8,
+  },
+  resendButton: {
+    alignSelf: 'flex-end',
+    marginBottom: 8,
+  },
+  confirmButton: {
+    marginTop: 16,
+    marginBottom: 8,
+    paddingVertical: 4,
+  },
+  textButton: {
+    marginTop: 8,
+  },
+});
\ No newline at end of file
@@ -0,0 +1,123 @@
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	setSystemTime,
+} from "bun:test";
+import { AuthError } from "../errors";
+import {
+	OTP_MAX_ATTEMPTS,
+	OTP_RESEND_COOLDOWN_MS,
+	OTP_TTL_MS,
+	OtpStore,
+	emailChangeKey,
+} from "../otpStore";
+
+const NOW = new Date("2024-06-01T12:00:00Z");
+
+const createStore = () => {
+	let counter = 0;
+	return new OtpStore(() => String(123456 + counter++));
+};
+
+const later = (ms: number) => setSystemTime(new Date(NOW.getTime() + ms));
+
+// Erro lançado pela verificação, ou null se o código foi aceito
+const verifyError = (store: OtpStore, email: string, code: string) => {
+	try {
+		store.verify(email, code);
+	} catch (error) {
+		return error instanceof AuthError ? error : null;
+	}
+	return null;
+};
+
+describe("OtpStore", () => {
+	beforeEach(() => setSystemTime(NOW));
+	afterEach(() => setSystemTime());
+
+	it("aceita o código uma única vez", () => {
+		const store = createStore();
+		const { code, challenge } = store.issue("ana@example.com");
+
+		expect(challenge.expiresAt).toBe(NOW.getTime() + OTP_TTL_MS);
+		expect(verifyError(store, "ana@example.com", code!)).toBeNull();
+		expect(verifyError(store, "ana@example.com", code!)?.code).toBe(
+			"OTP_EXPIRED"
+		);
+	});
+
+	it("ignora maiúsculas e espaços no email", () => {
+		const store = createStore();
+		const { code } = store.issue(" Ana@Example.com ");
+
+		expect(verifyError(store, "ana@example.com", code!)).toBeNull();
+	});
+
+	it("recusa o código vencido", () => {
+		const store = createStore();
+		const { code } = store.issue("ana@example.com");
+
+		later(OTP_TTL_MS);
+
+		expect(verifyError(store, "ana@example.com", code!)?.code).toBe(
+			"OTP_EXPIRED"
+		);
+	});
+
+	it("informa as tentativas restantes e bloqueia no limite", () => {
+		const store = createStore();
+		const { code } = store.issue("ana@example.com");
+
+		const first = verifyError(store, "ana@example.com", "000000");
+		expect(first?.code).toBe("OTP_INVALID");
+		expect(first?.message).toContain(
+			`${OTP_MAX_ATTEMPTS - 1} tentativas restantes`
+		);
+
+		for (let attempt = 2; attempt < OTP_MAX_ATTEMPTS; attempt++) {
+			verifyError(store, "ana@example.com", "000000");
+		}
+		expect(verifyError(store, "ana@example.com", "000000")?.code).toBe(
+			"OTP_LOCKED"
+		);
+		// Nem o código certo passa depois do bloqueio
+		expect(verifyError(store, "ana@example.com", code!)?.code).toBe(
+			"OTP_LOCKED"
+		);
+	});
+
+	it("só gera outro código depois do intervalo de reenvio", () => {
+		const store = createStore();
+		const first = store.issue("ana@example.com");
+		const repeated = store.issue("ana@example.com");
+
+		expect(repeated.code).toBeNull();
+		expect(repeated.challenge).toEqual(first.challenge);
+
+		later(OTP_RESEND_COOLDOWN_MS);
+		const second = store.issue("ana@example.com");
+
+		expect(second.code).not.toBe(first.code);
+		// O novo código substitui o anterior
+		expect(verifyError(store, "ana@example.com", first.code!)?.code).toBe(
+			"OTP_INVALID"
+		);
+		expect(verifyError(store, "ana@example.com", second.code!)).toBeNull();
+	});
+
+	it("separa os códigos de troca de email por conta", () => {
+		const store = createStore();
+		const { code } = store.issue(emailChangeKey("conta-1", "novo@x.com"));
+
+		expect(
+			verifyError(store, emailChangeKey("conta-2", "novo@x.com"), code!)
+				?.code
+		).toBe("OTP_EXPIRED");
+		expect(
+			verifyError(store, emailChangeKey("conta-1", "Novo@X.com"), code!)
+		).toBeNull();
+	});
+});
@@ -0,0 +1,59 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { encodeUtf8, toHex } from "../sha256";
+import { hashPassword, verifyPassword } from "../passwordHashing";
+
+const SALT = toHex(encodeUtf8("salt"));
+
+// Entradas do RFC 6070 com HMAC-SHA256 no lugar do SHA-1 (os mesmos
+// vetores publicados para PBKDF2-HMAC-SHA256, com 32 bytes de saída)
+const VECTORS: [number, string][] = [
+	[1, "120fb6cffcf8b32c43e7225256c4f837a86548c92ccc35480805987cb70be17b"],
+	[2, "ae4d0c95af6b46d32d0adff928f06dd02a303f8ef3c251dfd6e2d85a95474c43"],
+	[4096, "c5e478d59288c841aa530db6845c4c8d962893a001ce4e11a4963873aa98134a"],
+];
+
+const nativeCrypto = globalThis.crypto;
+
+// Sem WebCrypto, como no Hermes: usa a implementação em JS
+const withoutWebCrypto = () =>
+	Object.defineProperty(globalThis, "crypto", {
+		value: undefined,
+		configurable: true,
+	});
+
+describe("hashPassword", () => {
+	afterEach(() =>
+		Object.defineProperty(globalThis, "crypto", {
+			value: nativeCrypto,
+			configurable: true,
+		})
+	);
+
+	it.each(VECTORS)("WebCrypto: %i iterações", async (iterations, hash) => {
+		expect(await hashPassword("password", SALT, iterations)).toBe(
+			`pbkdf2_sha256$${iterations}$${SALT}$${hash}`
+		);
+	});
+
+	it.each(VECTORS)("JS: %i iterações", async (iterations, hash) => {
+		withoutWebCrypto();
+		expect(globalThis.crypto).toBeUndefined();
+		expect(await hashPassword("password", SALT, iterations)).toBe(
+			`pbkdf2_sha256$${iterations}$${SALT}$${hash}`
+		);
+	});
+});
+
+describe("verifyPassword", () => {
+	it("aceita só a senha certa", async () => {
+		const stored = await hashPassword("Girassol42", SALT, 10);
+
+		expect(await verifyPassword("Girassol42", stored)).toBe(true);
+		expect(await verifyPassword("girassol42", stored)).toBe(false);
+	});
+
+	it("recusa formatos desconhecidos", async () => {
+		expect(await verifyPassword("senha", "senha")).toBe(false);
+		expect(await verifyPassword("senha", `md5$10$${SALT}$abc`)).toBe(false);
+	});
+});
@@ -0,0 +1,205 @@
+import { describe, expect, it } from "bun:test";
+import { Product } from "../../types";
+import {
+	InvalidCursorError,
+	ProductCatalog,
+	applyProductFilters,
+	paginate,
+} from "../productCatalog";
+
+const createProduct = (
+	id: string,
+	overrides: Partial<Product> = {}
+): Product => ({
+	id,
+	name: `Produto ${id}`,
+	description: "Descrição",
+	price: 10,
+	image: `https://example.com/${id}.jpg`,
+	images: [`https://example.com/${id}.jpg`],
+	category: "Casa",
+	inStock: true,
+	createdAt: new Date("2024-01-01"),
+	updatedAt: new Date("2024-01-01"),
+	...overrides,
+});
+
+// Catálogo do mais recente ao mais antigo, como o gerado pelo fakeData
+const createCatalog = () =>
+	new ProductCatalog([
+		createProduct("c", { name: "Cadeira azul", price: 30 }),
+		createProduct("b", {
+			name: "Mesa",
+			price: 20,
+			category: "Escritório",
+		}),
+		createProduct("a", { name: "Abajur", price: 30, inStock: false }),
+	]);
+
+const ids = (products: Product[]) => products.map((product) => product.id);
+
+describe("paginate", () => {
+	it("retorna a página pedida com os totais", () => {
+		const page = paginate([1, 2, 3, 4, 5], 2, 2);
+
+		expect(page.data).toEqual([3, 4]);
+		expect(page.total).toBe(5);
+		expect(page.totalPages).toBe(3);
+	});
+});
+
+describe("applyProductFilters", () => {
+	it("combina filtros e ordena", () => {
+		const products = [
+			createProduct("a", { price: 50 }),
+			createProduct("b", { price: 10 }),
+			createProduct("c", { price: 30, inStock: false }),
+			createProduct("d", { price: 5, category: "Jardim" }),
+		];
+
+		const filtered = applyProductFilters(products, {
+			category: "Casa",
+			minPrice: 10,
+			inStockOnly: true,
+			sort: "price_asc",
+		});
+
+		expect(ids(filtered)).toEqual(["b", "a"]);
+	});
+});
+
+describe("ProductCatalog", () => {
+	it("percorre todas as páginas do cursor sem repetir itens", () => {
+		const catalog = createCatalog();
+		const seen: string[] = [];
+		let cursor: string | null = null;
+
+		do {
+			const page = catalog.listPage({
+				limit: 2,
+				sort: "price_desc",
+				cursor,
+			});
+			seen.push(...ids(page.data));
+			cursor = page.nextCursor;
+		} while (cursor);
+
+		// Preços iguais: o mais recente no catálogo vem antes
+		expect(seen).toEqual(["c", "a", "b"]);
+	});
+
+	it("não desloca as páginas quando um produto é adicionado", () => {
+		const catalog = createCatalog();
+		const first = catalog.listPage({ limit: 2 });
+
+		catalog.add({
+			name: "Tapete",
+			description: "Novo",
+			price: 40,
+			images: ["https://example.com/tapete.jpg"],
+			category: "Casa",
+			inStock: true,
+		});
+
+		const second = catalog.listPage({ limit: 2, cursor: first.nextCursor });
+		expect(ids(first.data)).toEqual(["c", "b"]);
+		expect(ids(second.data)).toEqual(["a"]);
+	});
+
+	it("recusa cursor inválido", () => {
+		expect(() => createCatalog().listPage({ cursor: "inválido" })).toThrow(
+			InvalidCursorError
+		);
+	});
+
+	it("busca pelo texto com os filtros aplicados", () => {
+		const catalog = createCatalog();
+
+		expect(ids(catalog.listPage({ search: "cadeira" }).data)).toEqual([
+			"c",
+		]);
+		expect(
+			catalog.search("mesa", { category: "Casa" }).data
+		).toHaveLength(0);
+	});
+
+	it("adiciona com a primeira foto como capa e o vendedor informado", () => {
+		const catalog = createCatalog();
+		const product = catalog.add(
+			{
+				name: "Tapete",
+				description: "Novo",
+				price: 40,
+				images: ["capa.jpg", "verso.jpg"],
+				category: "Casa",
+				inStock: true,
+			},
+			"vendedor-1"
+		);
+
+		expect(product.image).toBe("capa.jpg");
+		expect(product.sellerId).toBe("vendedor-1");
+		expect(catalog.list().data[0]).toBe(product);
+		expect(catalog.search("tapete").total).toBe(1);
+	});
+
+	it("edita sem mudar a posição nem a data de criação", () => {
+		const catalog = createCatalog();
+		const updated = catalog.update("b", { name: "Escrivaninha" })!;
+
+		expect(updated.createdAt).toEqual(new Date("2024-01-01"));
+		expect(updated.updatedAt.getTime()).toBeGreaterThan(
+			updated.createdAt.getTime()
+		);
+		expect(ids(catalog.list().data)).toEqual(["c", "b", "a"]);
+		expect(catalog.search("mesa").total).toBe(0);
+		expect(catalog.search("escrivaninha").total).toBe(1);
+	});
+
+	it("arquivado sai das listagens, mas continua acessível pelo id", () => {
+		const catalog = createCatalog();
+		catalog.archive("c");
+
+		expect(ids(catalog.list().data)).toEqual(["b", "a"]);
+		expect(catalog.search("cadeira").total).toBe(0);
+		expect(catalog.get("c")?.archivedAt).toBeInstanceOf(Date);
+		expect(ids(catalog.getMany(["c", "x"]))).toEqual(["c"]);
+		expect(catalog.update("c", { price: 1 })).toBeNull();
+		expect(catalog.archive("c")).toBeNull();
+	});
+
+	it("arquiva todos os produtos de um vendedor", () => {
+		const catalog = new ProductCatalog([
+			createProduct("a", { sellerId: "v1" }),
+			createProduct("b", { sellerId: "v2" }),
+			createProduct("c", { sellerId: "v1" }),
+		]);
+
+		expect(ids(catalog.archiveBySeller("v1"))).toEqual(["a", "c"]);
+		expect(ids(catalog.list().data)).toEqual(["b"]);
+	});
+
+	it("restaura produtos desconhecidos no topo e ignora os conhecidos", () => {
+		const catalog = createCatalog();
+		const { images, ...legacy } = createProduct("d", { name: "Vaso" });
+
+		catalog.restore(legacy as Product);
+		catalog.restore(createProduct("a", { name: "Outro nome" }));
+
+		expect(ids(catalog.list().data)).toEqual(["d", "c", "b", "a"]);
+		expect(catalog.get("d")?.images).toEqual(images);
+		expect(catalog.get("a")?.name).toBe("Abajur");
+		expect(catalog.search("vaso").total).toBe(1);
+	});
+
+	it("lista categorias em ordem alfabética e por popularidade", () => {
+		const catalog = createCatalog();
+
+		expect(catalog.categories()).toEqual(["Casa", "Escritório"]);
+		expect(catalog.popularCategories(1)).toEqual(["Casa"]);
+	});
+
+	it("sugere nomes de produtos pelo início das palavras", () => {
+		expect(createCatalog().suggest("cad")).toEqual(["Cadeira azul"]);
+	});
+});
@@ -0,0 +1,189 @@
+import { afterEach, beforeEach, describe, expect, it, mock } from "bun:test";
+import { Product } from "../../types";
+import { NewProductData } from "../backend";
+import { ApiError, NetworkError } from "../errors";
+
+const storage = new Map<string, string>();
+const deletedPhotos: string[] = [];
+const createProduct = async (data: NewProductData): Promise<Product> => ({
+	...data,
+	id: "produto-1",
+	image: data.images[0],
+	createdAt: new Date(),
+	updatedAt: new Date(),
+});
+const addProduct = mock(createProduct);
+const addMyProduct = mock(async (_product: Product) => {});
+
+mock.module("@react-native-async-storage/async-storage", () => ({
+	default: {
+		getItem: async (key: string) => storage.get(key) ?? null,
+		setItem: async (key: string, value: string) => {
+			storage.set(key, value);
+		},
+	},
+}));
+mock.module("../api", () => ({
+	ProductService: { addProduct },
+	MyProductsService: { addMyProduct },
+}));
+mock.module("../productPhotos", () => ({
+	keepProductPhoto: async (name: string) => `file:///fotos/${name}.jpg`,
+	deleteProductPhoto: async (uri: string) => {
+		deletedPhotos.push(uri);
+	},
+}));
+
+// Depois dos mocks, para a fila usar as versões falsas
+const { ProductOutbox } = await import("../productOutbox");
+const { userStorageKey } = await import("../userStorage");
+
+const productData: NewProductData = {
+	name: "Cadeira",
+	description: "Cadeira de madeira",
+	price: 120,
+	images: ["file:///cache/a.jpg", "file:///cache/b.jpg"],
+	category: "Móveis",
+	inStock: true,
+};
+
+const savedEntries = (userId: string) =>
+	JSON.parse(storage.get(userStorageKey("product_outbox", userId)) ?? "[]");
+
+describe("ProductOutbox", () => {
+	let outbox: InstanceType<typeof ProductOutbox>;
+
+	beforeEach(async () => {
+		storage.clear();
+		deletedPhotos.length = 0;
+		addProduct.mockClear();
+		addMyProduct.mockClear();
+		outbox = new ProductOutbox();
+		await outbox.setUser("usuario-1");
+	});
+
+	// Sair da conta cancela as novas tentativas agendadas
+	afterEach(() => outbox.setUser(null));
+
+	it("envia o produto com as fotos copiadas para o app", async () => {
+		const product = await outbox.submit(productData);
+
+		expect(product?.id).toBe("produto-1");
+		expect(addProduct.mock.calls[0][0].images).toHaveLength(2);
+		expect(addProduct.mock.calls[0][0].images[0]).toStartWith(
+			"file:///fotos/"
+		);
+		expect(addMyProduct).toHaveBeenCalledWith(product!);
+		expect(await outbox.getEntries()).toEqual([]);
+		expect(savedEntries("usuario-1")).toEqual([]);
+	});
+
+	it("mantém na fila para nova tentativa quando a rede falha", async () => {
+		addProduct.mockImplementationOnce(async () => {
+			throw new NetworkError();
+		});
+
+		expect(await outbox.submit(productData)).toBeNull();
+
+		const [entry] = await outbox.getEntries();
+		expect(entry.status).toBe("pending");
+		expect(entry.attempts).toBe(1);
+		expect(entry.nextAttemptAt).toBeGreaterThan(Date.now());
+		expect(savedEntries("usuario-1")).toHaveLength(1);
+	});
+
+	it("não tenta de novo um produto recusado pelo servidor", async () => {
+		addProduct.mockImplementationOnce(async () => {
+			throw new ApiError("Produto inválido", 400, "INVALID_PRODUCT");
+		});
+
+		await outbox.submit(productData);
+
+		const [entry] = await outbox.getEntries();
+		expect(entry.status).toBe("failed");
+		expect(entry.lastError).toBe("Produto inválido");
+	});
+
+	it("não cria o produto de novo ao reenviar", async () => {
+		addMyProduct.mockImplementationOnce(async () => {
+			throw new Error("Falha ao salvar");
+		});
+
+		await outbox.submit(productData);
+		const [entry] = await outbox.getEntries();
+		expect(entry.createdProduct?.id).toBe("produto-1");
+
+		await outbox.retry(entry.id);
+
+		expect(addProduct).toHaveBeenCalledTimes(1);
+		expect(addMyProduct).toHaveBeenCalledTimes(2);
+		expect(await outbox.getEntries()).toEqual([]);
+	});
+
+	it("guarda o produto criado se a conta mudar durante o envio", async () => {
+		let creationStarted = () => {};
+		let finishCreation = () => {};
+		const started = new Promise<void>((resolve) => {
+			creationStarted = resolve;
+		});
+		addProduct.mockImplementationOnce(async (data) => {
+			creationStarted();
+			await new Promise<void>((resolve) => {
+				finishCreation = resolve;
+			});
+			return createProduct(data);
+		});
+
+		const sending = outbox.submit(productData);
+		await started;
+		await outbox.setUser("usuario-2");
+		finishCreation();
+
+		expect(await sending).toBeNull();
+		const [entry] = savedEntries("usuario-1");
+		expect(entry.createdProduct.id).toBe("produto-1");
+
+		await outbox.setUser("usuario-1");
+		await outbox.process();
+
+		expect(addProduct).toHaveBeenCalledTimes(1);
+		expect(addMyProduct).toHaveBeenCalledTimes(1);
+		expect(savedEntries("usuario-1")).toEqual([]);
+	});
+
+	it("apaga as fotos guardadas ao descartar", async () => {
+		addProduct.mockImplementationOnce(async () => {
+			throw new ApiError("Produto inválido", 400);
+		});
+		await outbox.submit(productData);
+		const [entry] = await outbox.getEntries();
+
+		await outbox.discard(entry.id);
+
+		expect(await outbox.getEntries()).toEqual([]);
+		expect(deletedPhotos).toEqual(entry.data.images);
+	});
+
+	it("retoma envios interrompidos e separa a fila por conta", async () => {
+		addProduct.mockImplementationOnce(async () => {
+			throw new NetworkError();
+		});
+		await outbox.submit(productData);
+		const [entry] = savedEntries("usuario-1");
+		storage.set(
+			userStorageKey("product_outbox", "usuario-1"),
+			JSON.stringify([{ ...entry, status: "syncing" }])
+		);
+
+		await outbox.setUser("usuario-2");
+		expect(await outbox.getEntries()).toEqual([]);
+
+		const reopened = new ProductOutbox();
+		await reopened.setUser("usuario-1");
+		const [restored] = await reopened.getEntries();
+		await reopened.setUser(null);
+
+		expect(restored.status).toBe("pending");
+		expect(restored.data.images).toEqual(entry.data.images);
+	});
+});
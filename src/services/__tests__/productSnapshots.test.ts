@@ -0,0 +1,124 @@
+import { beforeEach, describe, expect, it, mock } from "bun:test";
+import { Product } from "../../types";
+import { NetworkError } from "../errors";
+
+// Catálogo atual visto pelo serviço; o que não estiver aqui não existe mais
+const catalog = new Map<string, Product>();
+const getProductsByIds = mock(async (ids: string[]) =>
+	ids.flatMap((id) => (catalog.has(id) ? [catalog.get(id)!] : []))
+);
+const getProduct = mock(
+	async (id: string): Promise<Product | null> => catalog.get(id) ?? null
+);
+
+// O mock do módulo vale para todos os arquivos de teste, e um novo mock não
+// acrescenta nomes: exporta também o que o teste da fila de envio usa
+mock.module("../api", () => ({
+	ProductService: { getProductsByIds, getProduct },
+	MyProductsService: {},
+}));
+
+// Depois do mock, para a reconciliação usar o catálogo falso
+const { refreshProductSnapshots } = await import("../productSnapshots");
+
+const createProduct = (
+	id: string,
+	overrides: Partial<Product> = {}
+): Product => ({
+	id,
+	name: `Produto ${id}`,
+	description: "Descrição",
+	price: 10,
+	image: `https://example.com/${id}.jpg`,
+	images: [`https://example.com/${id}.jpg`],
+	category: "Casa",
+	inStock: true,
+	createdAt: new Date("2024-01-01"),
+	updatedAt: new Date("2024-01-01"),
+	...overrides,
+});
+
+const ids = (products: Product[]) => products.map((product) => product.id);
+
+describe("refreshProductSnapshots", () => {
+	beforeEach(() => {
+		catalog.clear();
+		getProduct.mockClear();
+	});
+
+	it("retorna null se nada mudou", async () => {
+		const snapshots = [createProduct("a"), createProduct("b")];
+		snapshots.forEach((product) => catalog.set(product.id, product));
+
+		expect(await refreshProductSnapshots(snapshots)).toBeNull();
+		expect(getProduct).not.toHaveBeenCalled();
+	});
+
+	it("troca a cópia pela versão com preço novo, na ordem", async () => {
+		const snapshots = [createProduct("a"), createProduct("b")];
+		catalog.set("a", snapshots[0]);
+		catalog.set(
+			"b",
+			createProduct("b", { price: 25, updatedAt: new Date("2024-02-01") })
+		);
+
+		const refresh = await refreshProductSnapshots(snapshots);
+
+		expect(ids(refresh!.products)).toEqual(["a", "b"]);
+		expect(refresh!.products[1].price).toBe(25);
+		expect(refresh!.newlyUnavailable).toEqual([]);
+	});
+
+	it("avisa dos produtos arquivados desde a cópia", async () => {
+		const snapshots = [createProduct("a")];
+		const archivedAt = new Date("2024-02-01");
+		catalog.set("a", createProduct("a", { archivedAt }));
+
+		const refresh = await refreshProductSnapshots(snapshots);
+
+		expect(refresh!.products[0].archivedAt).toEqual(archivedAt);
+		expect(ids(refresh!.newlyUnavailable)).toEqual(["a"]);
+	});
+
+	it("não avisa de novo de um produto já arquivado na cópia", async () => {
+		const archivedAt = new Date("2024-02-01");
+		const snapshots = [createProduct("a", { archivedAt })];
+		catalog.set("a", snapshots[0]);
+
+		expect(await refreshProductSnapshots(snapshots)).toBeNull();
+	});
+
+	it("arquiva o produto que o catálogo não tem mais", async () => {
+		const snapshots = [createProduct("a"), createProduct("b")];
+		catalog.set("a", snapshots[0]);
+
+		const refresh = await refreshProductSnapshots(snapshots);
+
+		expect(getProduct).toHaveBeenCalledWith("b");
+		expect(refresh!.products[1].archivedAt).toBeInstanceOf(Date);
+		expect(ids(refresh!.newlyUnavailable)).toEqual(["b"]);
+	});
+
+	it("mantém a cópia se não der para confirmar a remoção", async () => {
+		const snapshots = [createProduct("a")];
+		getProduct.mockImplementationOnce(async () => {
+			throw new NetworkError();
+		});
+
+		expect(await refreshProductSnapshots(snapshots)).toBeNull();
+	});
+
+	it("usa a resposta individual se o produto faltou no lote", async () => {
+		const snapshots = [createProduct("a")];
+		const updated = createProduct("a", {
+			price: 15,
+			updatedAt: new Date("2024-02-01"),
+		});
+		getProduct.mockImplementationOnce(async () => updated);
+
+		const refresh = await refreshProductSnapshots(snapshots);
+
+		expect(refresh!.products).toEqual([updated]);
+		expect(refresh!.newlyUnavailable).toEqual([]);
+	});
+});
@@ -0,0 +1,135 @@
+import { describe, expect, it, spyOn } from "bun:test";
+import { RequestCancelledError } from "../errors";
+import { QueryCache, createQueryKey } from "../queryCache";
+
+// Requisição controlada pelo teste, que registra o próprio cancelamento
+const createRequest = <T>() => {
+	let resolve: (value: T) => void = () => {};
+	let signal: AbortSignal | undefined;
+	const fetcher = (requestSignal: AbortSignal) => {
+		signal = requestSignal;
+		return new Promise<T>((done) => {
+			resolve = done;
+		});
+	};
+	return {
+		fetcher,
+		resolve: (value: T) => resolve(value),
+		isAborted: () => signal?.aborted ?? false,
+	};
+};
+
+describe("createQueryKey", () => {
+	it("não depende da ordem dos parâmetros", () => {
+		expect(createQueryKey("products", { b: 2, a: 1 })).toBe(
+			createQueryKey("products", { a: 1, b: 2 })
+		);
+		expect(createQueryKey("products", { a: 1 })).toBe('products:{"a":1}');
+	});
+});
+
+describe("QueryCache", () => {
+	it("invalida só as consultas do escopo e avisa os ouvintes", () => {
+		const cache = new QueryCache();
+		const scopes: string[] = [];
+		cache.subscribe((scope) => scopes.push(scope));
+		cache.set("products:{}", [1]);
+		cache.set("my_products:{}", [2]);
+
+		cache.invalidate("products");
+
+		expect(cache.isStale("products:{}", 60000)).toBe(true);
+		expect(cache.isStale("my_products:{}", 60000)).toBe(false);
+		// Os dados continuam disponíveis enquanto revalidam
+		expect(cache.get("products:{}")?.data).toEqual([1]);
+		expect(scopes).toEqual(["products"]);
+	});
+
+	it("compartilha a requisição em andamento", async () => {
+		const cache = new QueryCache();
+		const request = createRequest<string>();
+		let calls = 0;
+		const fetcher = (signal: AbortSignal) => {
+			calls++;
+			return request.fetcher(signal);
+		};
+
+		const first = cache.fetch("chave", fetcher);
+		const second = cache.fetch("chave", fetcher);
+		request.resolve("resultado");
+
+		expect(await Promise.all([first, second])).toEqual([
+			"resultado",
+			"resultado",
+		]);
+		expect(calls).toBe(1);
+	});
+
+	it("só aborta a requisição quando todos cancelam", async () => {
+		const cache = new QueryCache();
+		const request = createRequest<string>();
+		const firstController = new AbortController();
+		const secondController = new AbortController();
+
+		const first = cache.fetch(
+			"chave",
+			request.fetcher,
+			firstController.signal
+		);
+		const second = cache.fetch(
+			"chave",
+			request.fetcher,
+			secondController.signal
+		);
+
+		firstController.abort();
+		await expect(first).rejects.toBeInstanceOf(RequestCancelledError);
+		expect(request.isAborted()).toBe(false);
+
+		secondController.abort();
+		await expect(second).rejects.toBeInstanceOf(RequestCancelledError);
+		expect(request.isAborted()).toBe(true);
+	});
+
+	it("não reaproveita a requisição abortada", async () => {
+		const cache = new QueryCache();
+		const aborted = createRequest<string>();
+		const controller = new AbortController();
+		const first = cache.fetch("chave", aborted.fetcher, controller.signal);
+		controller.abort();
+		await first.catch(() => {});
+
+		const fresh = createRequest<string>();
+		const second = cache.fetch("chave", fresh.fetcher);
+		fresh.resolve("novo");
+
+		expect(await second).toBe("novo");
+	});
+
+	it("recusa na hora um sinal já cancelado", async () => {
+		const cache = new QueryCache();
+		const request = createRequest<string>();
+		const controller = new AbortController();
+		controller.abort();
+
+		await expect(
+			cache.fetch("chave", request.fetcher, controller.signal)
+		).rejects.toBeInstanceOf(RequestCancelledError);
+		expect(request.isAborted()).toBe(false);
+	});
+
+	it("remove o ouvinte de cancelamento ao terminar", async () => {
+		const cache = new QueryCache();
+		const controller = new AbortController();
+		const { signal } = controller;
+		const added = spyOn(signal, "addEventListener");
+		const removed = spyOn(signal, "removeEventListener");
+
+		for (let i = 0; i < 3; i++) {
+			await cache.fetch(`chave-${i}`, async () => i, signal);
+		}
+
+		expect(added).toHaveBeenCalledTimes(3);
+		expect(removed).toHaveBeenCalledTimes(3);
+	});
+});
@@ -0,0 +1,106 @@
+import { describe, expect, it } from "bun:test";
+import { Product } from "../../types";
+import { SearchIndex, editDistance, foldText, tokenize } from "../searchIndex";
+
+const createProduct = (
+	id: string,
+	name: string,
+	category = "Casa",
+	description = ""
+): Product => ({
+	id,
+	name,
+	description,
+	price: 10,
+	image: "",
+	images: [],
+	category,
+	inStock: true,
+	createdAt: new Date("2024-01-01"),
+	updatedAt: new Date("2024-01-01"),
+});
+
+const searchIds = (index: SearchIndex, query: string) =>
+	index.search(query).map((hit) => hit.id);
+
+describe("normalização de texto", () => {
+	it("remove acentos e maiúsculas", () => {
+		expect(foldText("Café com Pão")).toBe("cafe com pao");
+	});
+
+	it("separa termos em letras e números", () => {
+		expect(tokenize("Cadeira-gamer, 2 lugares!")).toEqual([
+			"cadeira",
+			"gamer",
+			"2",
+			"lugares",
+		]);
+	});
+});
+
+describe("editDistance", () => {
+	it("conta trocas, inserções e transposições", () => {
+		expect(editDistance("mesa", "mesa", 2)).toBe(0);
+		expect(editDistance("mesa", "musa", 2)).toBe(1);
+		expect(editDistance("mesa", "emsa", 2)).toBe(1);
+		expect(editDistance("mesa", "mesas", 2)).toBe(1);
+	});
+
+	it("para ao passar do limite", () => {
+		expect(editDistance("cadeira", "sofá", 1)).toBe(2);
+		expect(editDistance("a", "abcdef", 2)).toBe(3);
+	});
+});
+
+describe("SearchIndex", () => {
+	const createIndex = () =>
+		new SearchIndex([
+			createProduct("1", "Cadeira de escritório", "Móveis"),
+			createProduct("2", "Mesa", "Móveis", "Acompanha cadeira"),
+			createProduct("3", "Luminária", "Cadeiras"),
+			createProduct("4", "Café especial", "Alimentos"),
+		]);
+
+	it("ranqueia nome acima de categoria e descrição", () => {
+		expect(searchIds(createIndex(), "cadeira")).toEqual(["1", "3", "2"]);
+	});
+
+	it("ignora acentos na busca e no catálogo", () => {
+		expect(searchIds(createIndex(), "CAFE")).toEqual(["4"]);
+		expect(searchIds(createIndex(), "luminaria")).toEqual(["3"]);
+	});
+
+	it("encontra pelo início da palavra", () => {
+		expect(searchIds(createIndex(), "lumi")).toEqual(["3"]);
+	});
+
+	it("tolera erros de digitação conforme o tamanho do termo", () => {
+		expect(searchIds(createIndex(), "cadiera")).toEqual(["1", "2"]);
+		expect(searchIds(createIndex(), "msa")).toEqual([]);
+	});
+
+	it("exige que todos os termos correspondam", () => {
+		expect(searchIds(createIndex(), "cadeira escritorio")).toEqual(["1"]);
+		expect(searchIds(createIndex(), "cadeira café")).toEqual([]);
+	});
+
+	it("busca só nos nomes quando pedido", () => {
+		const hits = createIndex().search("cadeira", { namesOnly: true });
+		expect(hits.map((hit) => hit.id)).toEqual(["1"]);
+	});
+
+	it("reindexa produtos editados e esquece os removidos", () => {
+		const index = createIndex();
+
+		index.add(createProduct("1", "Poltrona", "Móveis"));
+		index.remove("4");
+
+		expect(searchIds(index, "poltrona")).toEqual(["1"]);
+		expect(searchIds(index, "escritorio")).toEqual([]);
+		expect(searchIds(index, "cafe")).toEqual([]);
+	});
+
+	it("não encontra nada para busca vazia", () => {
+		expect(createIndex().search("  ")).toEqual([]);
+	});
+});
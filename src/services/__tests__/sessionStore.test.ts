@@ -0,0 +1,122 @@
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	setSystemTime,
+} from "bun:test";
+import { AuthError } from "../errors";
+import {
+	ACCESS_TOKEN_TTL_MS,
+	REFRESH_TOKEN_TTL_MS,
+	SessionStore,
+} from "../sessionStore";
+
+const NOW = new Date("2024-06-01T12:00:00Z");
+
+const createStore = () => {
+	let counter = 0;
+	return new SessionStore("segredo", () => `token-${++counter}`);
+};
+
+// Código do AuthError lançado pela função
+const errorCode = (action: () => unknown) => {
+	try {
+		action();
+	} catch (error) {
+		return error instanceof AuthError ? error.code : "outro erro";
+	}
+	return null;
+};
+
+describe("SessionStore", () => {
+	beforeEach(() => setSystemTime(NOW));
+	afterEach(() => setSystemTime());
+
+	it("emite tokens que identificam o usuário", () => {
+		const store = createStore();
+		const tokens = store.issue("usuario-1");
+
+		expect(store.verifyAccessToken(tokens.accessToken)).toBe("usuario-1");
+		expect(tokens.accessTokenExpiresAt).toBe(
+			NOW.getTime() + ACCESS_TOKEN_TTL_MS
+		);
+		expect(tokens.refreshTokenExpiresAt).toBe(
+			NOW.getTime() + REFRESH_TOKEN_TTL_MS
+		);
+	});
+
+	it("recusa tokens de acesso adulterados ou de outro segredo", () => {
+		const store = createStore();
+		const { accessToken } = store.issue("usuario-1");
+		const [body, signature] = accessToken.split(".");
+		const forged = btoa(atob(body).replace("usuario-1", "usuario-2"));
+		const other = new SessionStore("outro", () => "x");
+
+		expect(errorCode(() => store.verifyAccessToken(null))).toBe(
+			"INVALID_TOKEN"
+		);
+		expect(
+			errorCode(() => store.verifyAccessToken(`${forged}.${signature}`))
+		).toBe("INVALID_TOKEN");
+		expect(errorCode(() => other.verifyAccessToken(accessToken))).toBe(
+			"INVALID_TOKEN"
+		);
+	});
+
+	it("expira o token de acesso", () => {
+		const store = createStore();
+		const { accessToken } = store.issue("usuario-1");
+
+		setSystemTime(new Date(NOW.getTime() + ACCESS_TOKEN_TTL_MS));
+
+		expect(errorCode(() => store.verifyAccessToken(accessToken))).toBe(
+			"TOKEN_EXPIRED"
+		);
+	});
+
+	it("troca o refresh token a cada uso", () => {
+		const store = createStore();
+		const first = store.issue("usuario-1");
+		const { userId, tokens } = store.refresh(first.refreshToken);
+
+		expect(userId).toBe("usuario-1");
+		expect(tokens.refreshToken).not.toBe(first.refreshToken);
+		expect(store.verifyAccessToken(tokens.accessToken)).toBe("usuario-1");
+		expect(errorCode(() => store.refresh(first.refreshToken))).toBe(
+			"SESSION_EXPIRED"
+		);
+	});
+
+	it("recusa e descarta o refresh token vencido", () => {
+		const store = createStore();
+		const { refreshToken } = store.issue("usuario-1");
+
+		setSystemTime(new Date(NOW.getTime() + REFRESH_TOKEN_TTL_MS));
+
+		expect(errorCode(() => store.refresh(refreshToken))).toBe(
+			"SESSION_EXPIRED"
+		);
+		expect(store.all()).toEqual([]);
+	});
+
+	it("encerrar a sessão invalida os tokens de acesso dela", () => {
+		const store = createStore();
+		const first = store.issue("usuario-1");
+		const second = store.issue("usuario-1");
+		const other = store.issue("usuario-2");
+
+		store.revoke(first.refreshToken);
+		expect(
+			errorCode(() => store.verifyAccessToken(first.accessToken))
+		).toBe("INVALID_TOKEN");
+		expect(store.verifyAccessToken(second.accessToken)).toBe("usuario-1");
+
+		store.revokeUser("usuario-1");
+		expect(
+			errorCode(() => store.verifyAccessToken(second.accessToken))
+		).toBe("INVALID_TOKEN");
+		expect(store.verifyAccessToken(other.accessToken)).toBe("usuario-2");
+	});
+});
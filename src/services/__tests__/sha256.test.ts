@@ -0,0 +1,104 @@
+import { describe, expect, it } from "bun:test";
+import {
+	createHmac,
+	encodeUtf8,
+	fromHex,
+	safeEqual,
+	sha256,
+	toHex,
+} from "../sha256";
+
+const bytes = (length: number, value: number) =>
+	new Uint8Array(length).fill(value);
+
+const hmacHex = (key: Uint8Array, data: Uint8Array) =>
+	toHex(createHmac(key)(data));
+
+// Vetores do FIPS 180-2 (apêndice B)
+describe("sha256", () => {
+	it.each([
+		[
+			"",
+			"e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855",
+		],
+		[
+			"abc",
+			"ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad",
+		],
+		[
+			"abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq",
+			"248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1",
+		],
+		[
+			"a".repeat(1000000),
+			"cdc76e5c9914fb9281a1c7e284d73e67f1809a48a497200e046d39ccc7112cd0",
+		],
+	])("hash de %#", (message, expected) => {
+		expect(toHex(sha256(encodeUtf8(message)))).toBe(expected);
+	});
+});
+
+// Casos de teste do RFC 4231 (o caso 5, com saída truncada, fica de fora)
+describe("createHmac", () => {
+	it("caso 1: chave de 20 bytes", () => {
+		expect(hmacHex(bytes(20, 0x0b), encodeUtf8("Hi There"))).toBe(
+			"b0344c61d8db38535ca8afceaf0bf12b881dc200c9833da726e9376c2e32cff7"
+		);
+	});
+
+	it("caso 2: chave menor que a saída", () => {
+		const data = encodeUtf8("what do ya want for nothing?");
+		expect(hmacHex(encodeUtf8("Jefe"), data)).toBe(
+			"5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843"
+		);
+	});
+
+	it("caso 3: dados de 50 bytes", () => {
+		expect(hmacHex(bytes(20, 0xaa), bytes(50, 0xdd))).toBe(
+			"773ea91e36800e46854db8ebd09181a72959098b3ef8c122d9635514ced565fe"
+		);
+	});
+
+	it("caso 4: chave de 25 bytes", () => {
+		const key = fromHex(
+			"0102030405060708090a0b0c0d0e0f10111213141516171819"
+		);
+		expect(hmacHex(key, bytes(50, 0xcd))).toBe(
+			"82558a389a443c0ea4cc819899f2083a85f0faa3e578f8077a2e3ff46729665b"
+		);
+	});
+
+	it("caso 6: chave maior que o bloco", () => {
+		const data = "Test Using Larger Than Block-Size Key - Hash Key First";
+		expect(hmacHex(bytes(131, 0xaa), encodeUtf8(data))).toBe(
+			"60e431591ee0b67f0d8a26aacbf5b77f8e0bc6213728c5140546040f0ee37f54"
+		);
+	});
+
+	it("caso 7: chave e dados maiores que o bloco", () => {
+		const data =
+			"This is a test using a larger than block-size key and a larger " +
+			"than block-size data. The key needs to be hashed before being " +
+			"used by the HMAC algorithm.";
+		expect(hmacHex(bytes(131, 0xaa), encodeUtf8(data))).toBe(
+			"9b09ffa71b942fcb27635fbcd5b0e944bfdc63644f0713938a7f51535c3a35e2"
+		);
+	});
+
+	it("a mesma função serve para várias mensagens", () => {
+		const hmac = createHmac(encodeUtf8("Jefe"));
+		const first = toHex(hmac(encodeUtf8("a")));
+
+		hmac(encodeUtf8("b"));
+
+		expect(toHex(hmac(encodeUtf8("a")))).toBe(first);
+	});
+});
+
+describe("safeEqual", () => {
+	it("compara textos", () => {
+		expect(safeEqual("abc", "abc")).toBe(true);
+		expect(safeEqual("abc", "abd")).toBe(false);
+		expect(safeEqual("abc", "abcd")).toBe(false);
+	});
+});
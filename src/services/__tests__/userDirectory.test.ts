@@ -0,0 +1,81 @@
+import { describe, expect, it } from "bun:test";
+import { AuthError } from "../errors";
+import { OidcProfile } from "../oidc";
+import { UserDirectory } from "../userDirectory";
+
+const profile: OidcProfile = {
+	issuer: "https://login.example.com",
+	subject: "sub-1",
+	email: "ana@example.com",
+	emailVerified: true,
+	name: "Ana",
+};
+
+const createDirectory = () => {
+	let counter = 0;
+	return new UserDirectory(
+		[],
+		() => "sal",
+		() => `usuario-${++counter}`
+	);
+};
+
+// Código do AuthError da promessa recusada, ou null se ela foi resolvida
+const errorCode = async (action: Promise<unknown>) => {
+	try {
+		await action;
+	} catch (error) {
+		return error instanceof AuthError ? error.code : "outro erro";
+	}
+	return null;
+};
+
+describe("UserDirectory", () => {
+	it("cria a conta do login social sem senha", async () => {
+		const directory = createDirectory();
+
+		const user = await directory.signInWithIdentity(profile);
+
+		expect(user.hasPassword).toBe(false);
+		expect(await errorCode(directory.authenticate(profile.email, ""))).toBe(
+			"WRONG_PASSWORD"
+		);
+	});
+
+	it("define a primeira senha sem pedir a atual", async () => {
+		const directory = createDirectory();
+		const { id } = await directory.signInWithIdentity(profile);
+
+		await directory.changePassword(id, "", "NovaSenha9");
+
+		const user = await directory.authenticate(profile.email, "NovaSenha9");
+		expect(user.hasPassword).toBe(true);
+		// Depois disso, a senha atual passa a ser exigida
+		expect(
+			await errorCode(directory.changePassword(id, "", "OutraSenha9"))
+		).toBe("WRONG_PASSWORD");
+	});
+
+	it("exclui a conta sem senha só com a sessão", async () => {
+		const directory = createDirectory();
+		const { id } = await directory.signInWithIdentity(profile);
+
+		await directory.remove(id, "");
+
+		expect(directory.findById(id)).toBeUndefined();
+	});
+
+	it("exige a senha para excluir uma conta com senha", async () => {
+		const directory = createDirectory();
+		const { id } = await directory.create({
+			name: "Bia",
+			email: "bia@example.com",
+			password: "Cadeira77",
+		});
+
+		expect(await errorCode(directory.remove(id, "errada"))).toBe(
+			"WRONG_PASSWORD"
+		);
+		expect(directory.findById(id)).toBeDefined();
+	});
+});
@@ -0,0 +1,110 @@
+import { beforeEach, describe, expect, it, mock } from "bun:test";
+
+const storage = new Map<string, string>();
+const multiSet = mock(async (pairs: [string, string][]) => {
+	pairs.forEach(([key, value]) => storage.set(key, value));
+});
+const multiRemove = mock(async (keys: string[]) => {
+	keys.forEach((key) => storage.delete(key));
+});
+
+mock.module("@react-native-async-storage/async-storage", () => ({
+	default: {
+		getAllKeys: async () => [...storage.keys()],
+		multiGet: async (keys: string[]) =>
+			keys.map((key) => [key, storage.get(key) ?? null]),
+		multiSet,
+		multiRemove,
+	},
+}));
+
+// Depois do mock, para as funções usarem o armazenamento falso
+const { clearUserStorage, migrateLegacyStorage, userStorageKey } =
+	await import("../userStorage");
+
+const userKey = (name: string) => userStorageKey(name, "usuario-1");
+
+describe("migrateLegacyStorage", () => {
+	beforeEach(() => {
+		storage.clear();
+		multiSet.mockClear();
+		multiRemove.mockClear();
+	});
+
+	it("passa os dados antigos para a conta e apaga os originais", async () => {
+		storage.set("cart", "[1]");
+		storage.set("favorites", "[2]");
+		storage.set("@photo_product_app:product_outbox", "[3]");
+		storage.set("@photo_product_app:offline:query:products:{}", "[4]");
+		storage.set("@photo_product_app:my_products", "[5]");
+
+		await migrateLegacyStorage("usuario-1");
+
+		expect(Object.fromEntries(storage)).toEqual({
+			[userKey("cart")]: "[1]",
+			[userKey("favorites")]: "[2]",
+			[userKey("product_outbox")]: "[3]",
+			[userKey("offline:query:products:{}")]: "[4]",
+			"@photo_product_app:my_products:usuario-1": "[5]",
+		});
+	});
+
+	it("só passa as buscas recentes para o dono delas", async () => {
+		storage.set("@photo_product_app:recent_searches:usuario-1", '["a"]');
+		storage.set("@photo_product_app:recent_searches:usuario-2", '["b"]');
+
+		await migrateLegacyStorage("usuario-1");
+
+		expect(storage.get(userKey("recent_searches"))).toBe('["a"]');
+		expect(
+			storage.get("@photo_product_app:recent_searches:usuario-2")
+		).toBe('["b"]');
+	});
+
+	it("mantém o que a conta já tem no lugar do dado antigo", async () => {
+		storage.set("cart", "[antigo]");
+		storage.set(userKey("cart"), "[atual]");
+
+		await migrateLegacyStorage("usuario-1");
+
+		expect(storage.get(userKey("cart"))).toBe("[atual]");
+		expect(storage.has("cart")).toBe(false);
+	});
+
+	it("não mexe no armazenamento sem dados antigos", async () => {
+		storage.set(userKey("cart"), "[1]");
+		storage.set("@photo_product_app:app_lock", "{}");
+
+		await migrateLegacyStorage("usuario-1");
+
+		expect(multiSet).not.toHaveBeenCalled();
+		expect(multiRemove).not.toHaveBeenCalled();
+		expect(storage.size).toBe(2);
+	});
+
+	it("a segunda conta não recebe os dados da primeira", async () => {
+		storage.set("cart", "[1]");
+
+		await migrateLegacyStorage("usuario-1");
+		await migrateLegacyStorage("usuario-2");
+
+		expect(storage.get(userKey("cart"))).toBe("[1]");
+		expect(storage.has(userStorageKey("cart", "usuario-2"))).toBe(false);
+	});
+});
+
+describe("clearUserStorage", () => {
+	it("apaga só os dados da conta", async () => {
+		storage.clear();
+		storage.set(userKey("cart"), "[1]");
+		storage.set(userStorageKey("cart", "usuario-10"), "[2]");
+		storage.set("@photo_product_app:app_lock", "{}");
+
+		await clearUserStorage("usuario-1");
+
+		expect([...storage.keys()]).toEqual([
+			userStorageKey("cart", "usuario-10"),
+			"@photo_product_app:app_lock",
+		]);
+	});
+});
@@ -0,0 +1,78 @@
+import * as SecureStore from "expo-secure-store";
+import { User } from "../types";
+import { reviveDates } from "./httpClient";
+
+const ACCOUNTS_KEY = "accounts";
+const ACTIVE_ACCOUNT_KEY = "activeAccountId";
+
+// O SecureStore não é feito para valores grandes; poucas contas bastam
+export const MAX_ACCOUNTS = 5;
+
+// Contas com sessão salva no aparelho, da usada mais recentemente para a
+// mais antiga. Os tokens de cada uma ficam com o SessionManager.
+class AccountService {
+	static async getAccounts(): Promise<User[]> {
+		try {
+			const data = await SecureStore.getItemAsync(ACCOUNTS_KEY);
+			return data ? JSON.parse(data, reviveDates) : [];
+		} catch (error) {
+			console.error("Erro ao carregar contas:", error);
+			return [];
+		}
+	}
+
+	// Coloca a conta no topo da lista, retornando as que não couberam
+	static async saveAccount(
+		user: User
+	): Promise<{ accounts: User[]; dropped: User[] }> {
+		const others = (await this.getAccounts()).filter(
+			(account) => account.id !== user.id
+		);
+		const accounts = [user, ...others];
+
+		await this.write(accounts.slice(0, MAX_ACCOUNTS));
+		return {
+			accounts: accounts.slice(0, MAX_ACCOUNTS),
+			dropped: accounts.slice(MAX_ACCOUNTS),
+		};
+	}
+
+	// Atualiza os dados da conta sem mudar a ordem
+	static async updateAccount(user: User): Promise<User[]> {
+		const accounts = (await this.getAccounts()).map((account) =>
+			account.id === user.id ? user : account
+		);
+		await this.write(accounts);
+		return accounts;
+	}
+
+	static async removeAccount(userId: string): Promise<User[]> {
+		const accounts = (await this.getAccounts()).filter(
+			(account) => account.id !== userId
+		);
+		await this.write(accounts);
+
+		if ((await this.getActiveAccountId()) === userId) {
+			await this.setActiveAccountId(null);
+		}
+		return accounts;
+	}
+
+	static getActiveAccountId(): Promise<string | null> {
+		return SecureStore.getItemAsync(ACTIVE_ACCOUNT_KEY);
+	}
+
+	static async setActiveAccountId(userId: string | null): Promise<void> {
+		if (userId) {
+			await SecureStore.setItemAsync(ACTIVE_ACCOUNT_KEY, userId);
+		} else {
+			await SecureStore.deleteItemAsync(ACTIVE_ACCOUNT_KEY);
+		}
+	}
+
+	private static write(accounts: User[]) {
+		return SecureStore.setItemAsync(ACCOUNTS_KEY, JSON.stringify(accounts));
+	}
+}
+
+export { AccountService };
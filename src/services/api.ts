@@ -1,244 +1,291 @@
-import { faker } from "@faker-js/faker";
-import AsyncStorage from "@react-native-async-storage/async-storage";
-import { Product, User, PaginatedResponse } from "../types";
-
-// Gerar produtos fake
-export const generateFakeProducts = (count: number): Product[] => {
-	const products: Product[] = [];
-
-	for (let i = 0; i < count; i++) {
-		products.push({
-			id: faker.string.uuid(),
-			name: faker.commerce.productName(),
-			description: faker.commerce.productDescription(),
-			price: parseFloat(faker.commerce.price()),
-			image: faker.image.urlLoremFlickr({
-				width: 300,
-				height: 300,
-				category: "product",
-			}),
-			category: faker.commerce.department(),
-			inStock: faker.datatype.boolean(),
-			createdAt: faker.date.past(),
-			updatedAt: faker.date.recent(),
-		});
-	}
-
-	return products;
+import {
+	Product,
+	PaginatedResponse,
+	CursorPage,
+	ProductQuery,
+	ProductCursorQuery,
+	Seller,
+	User,
+} from "../types";
+import {
+	AccessTokenProvider,
+	AuthResult,
+	AuthTokens,
+	Backend,
+	NewProductData,
+	OidcAuthorization,
+	OtpChallenge,
+	ProductChanges,
+	ProfileChanges,
+} from "./backend";
+import { getApiConfig } from "./config";
+import { ApiError } from "./errors";
+import { createMockBackend } from "./mockBackend";
+import { OfflineCacheService } from "./offlineCache";
+import { queryCache } from "./queryCache";
+import { createRestBackend } from "./restBackend";
+import { SessionManager } from "./session";
+
+export { generateFakeProducts, generateFakeUser } from "./fakeData";
+
+let activeBackend: Backend | null = null;
+
+// Sessão do usuário logado; a renovação passa pelo backend ativo
+export const session = new SessionManager((refreshToken) =>
+	getBackend().auth.refreshSession(refreshToken)
+);
+
+const accessTokenProvider: AccessTokenProvider = {
+	getAccessToken: () => session.getAccessToken(),
+	refreshAccessToken: () => session.refresh(),
 };
 
-// Gerar usuário fake
-export const generateFakeUser = (): User => ({
-	id: faker.string.uuid(),
-	email: faker.internet.email(),
-	name: faker.person.fullName(),
-	phone: faker.phone.number(),
-	profileImage: faker.image.avatar(),
-	createdAt: faker.date.past(),
-	updatedAt: faker.date.recent(),
-});
-
-// Simular API para produtos
-class ProductService {
-	private static products: Product[] = generateFakeProducts(10000);
+// Backend escolhido no app.json (extra.api.backend): "mock" ou "rest"
+const getBackend = (): Backend => {
+	if (!activeBackend) {
+		const config = getApiConfig();
+		activeBackend =
+			config.backend === "rest"
+				? createRestBackend(config, accessTokenProvider)
+				: createMockBackend(accessTokenProvider);
+	}
+	return activeBackend;
+};
 
-	static async getProducts(
-		page: number = 1,
-		limit: number = 10
+// Permite trocar o backend em tempo de execução (ex.: testes)
+export const setBackend = (backend: Backend) => {
+	activeBackend = backend;
+	queryCache.clear();
+};
+
+// API para produtos
+class ProductService {
+	static getProducts(
+		query: ProductQuery = {}
 	): Promise<PaginatedResponse<Product>> {
-		await new Promise((resolve) => setTimeout(resolve, 500)); // Simular delay da API
+		return getBackend().products.getProducts(query);
+	}
 
-		const startIndex = (page - 1) * limit;
-		const endIndex = startIndex + limit;
-		const data = this.products.slice(startIndex, endIndex);
+	// Paginação por cursor, estável mesmo com produtos novos entrando no topo
+	static async getProductsPage(
+		query: ProductCursorQuery = {},
+		signal?: AbortSignal
+	): Promise<CursorPage<Product>> {
+		const page = await getBackend().products.getProductsPage(
+			query,
+			signal
+		);
+		OfflineCacheService.saveProducts(page.data);
+		return page;
+	}
 
-		return {
-			data,
-			page,
-			limit,
-			total: this.products.length,
-			totalPages: Math.ceil(this.products.length / limit),
-		};
+	// Produtos de um vendedor, mais recentes primeiro
+	static getSellerProducts(
+		sellerId: string,
+		cursor: string | null = null,
+		signal?: AbortSignal
+	): Promise<CursorPage<Product>> {
+		return this.getProductsPage(
+			{ sellerId, cursor, sort: "newest" },
+			signal
+		);
 	}
 
 	static async getProduct(id: string): Promise<Product | null> {
-		await new Promise((resolve) => setTimeout(resolve, 300));
-		return this.products.find((product) => product.id === id) || null;
+		const product = await getBackend().products.getProduct(id);
+		if (product) OfflineCacheService.saveProducts([product]);
+		return product;
 	}
 
-	static async addProduct(
-		productData: Omit<Product, "id" | "createdAt" | "updatedAt">
-	): Promise<Product> {
-		await new Promise((resolve) => setTimeout(resolve, 800));
+	static async getProductsByIds(ids: string[]): Promise<Product[]> {
+		if (ids.length === 0) return [];
+		const products = await getBackend().products.getProductsByIds(ids);
+		OfflineCacheService.saveProducts(products);
+		return products;
+	}
 
-		const newProduct: Product = {
-			...productData,
-			id: faker.string.uuid(),
-			createdAt: new Date(),
-			updatedAt: new Date(),
-		};
+	// Última cópia salva do produto, para exibir sem conexão
+	static getCachedProduct(id: string): Promise<Product | null> {
+		return OfflineCacheService.getProduct(id);
+	}
 
-		this.products.unshift(newProduct);
-		return newProduct;
+	static async addProduct(productData: NewProductData): Promise<Product> {
+		const product = await getBackend().products.addProduct(productData);
+		queryCache.invalidate("products");
+		return product;
 	}
 
-	static async searchProducts(
-		query: string,
-		page: number = 1,
-		limit: number = 10
+	static async updateProduct(
+		id: string,
+		changes: ProductChanges
+	): Promise<Product> {
+		const product = await getBackend().products.updateProduct(id, changes);
+		OfflineCacheService.saveProducts([product]);
+		queryCache.invalidate("products");
+		return product;
+	}
+
+	static async archiveProduct(id: string): Promise<Product> {
+		const product = await getBackend().products.archiveProduct(id);
+		OfflineCacheService.saveProducts([product]);
+		queryCache.invalidate("products");
+		return product;
+	}
+
+	static searchProducts(
+		text: string,
+		query: ProductQuery = {}
 	): Promise<PaginatedResponse<Product>> {
-		await new Promise((resolve) => setTimeout(resolve, 400));
-
-		const filteredProducts = this.products.filter(
-			(product) =>
-				product.name.toLowerCase().includes(query.toLowerCase()) ||
-				product.description
-					.toLowerCase()
-					.includes(query.toLowerCase()) ||
-				product.category.toLowerCase().includes(query.toLowerCase())
-		);
+		return getBackend().products.searchProducts(text, query);
+	}
 
-		const startIndex = (page - 1) * limit;
-		const endIndex = startIndex + limit;
-		const data = filteredProducts.slice(startIndex, endIndex);
+	static getCategories(): Promise<string[]> {
+		return getBackend().products.getCategories();
+	}
 
-		return {
-			data,
-			page,
-			limit,
-			total: filteredProducts.length,
-			totalPages: Math.ceil(filteredProducts.length / limit),
-		};
+	static getSearchSuggestions(
+		text: string,
+		limit: number = 5
+	): Promise<string[]> {
+		return getBackend().products.getSearchSuggestions(text, limit);
+	}
+
+	static getPopularCategories(limit: number = 6): Promise<string[]> {
+		return getBackend().products.getPopularCategories(limit);
 	}
 }
 
-// Simular API para autenticação
+// API para autenticação
 class AuthService {
-	private static users: User[] = [generateFakeUser()];
-
-	static async login(
-		email: string,
-		password: string
-	): Promise<{ user: User; token: string }> {
-		await new Promise((resolve) => setTimeout(resolve, 1000));
-
-		// Simular validação (aceita qualquer email/senha para demo)
-		let user = this.users.find((u) => u.email === email);
-
-		if (!user) {
-			// Criar usuário se não existir
-			user = {
-				id: faker.string.uuid(),
-				email,
-				name: faker.person.fullName(),
-				phone: faker.phone.number(),
-				profileImage: faker.image.avatar(),
-				createdAt: new Date(),
-				updatedAt: new Date(),
-			};
-			this.users.push(user);
-		}
+	static login(email: string, password: string): Promise<AuthResult> {
+		return getBackend().auth.login(email, password);
+	}
 
-		return {
-			user,
-			token: faker.string.alphanumeric(64),
-		};
+	static loginWithOidc(
+		authorization: OidcAuthorization
+	): Promise<AuthResult> {
+		return getBackend().auth.loginWithOidc(authorization);
 	}
 
-	static async register(userData: {
+	static register(userData: {
 		name: string;
 		email: string;
 		password: string;
-	}): Promise<{ user: User; token: string }> {
-		await new Promise((resolve) => setTimeout(resolve, 1200));
+	}): Promise<AuthResult> {
+		return getBackend().auth.register(userData);
+	}
 
-		const existingUser = this.users.find((u) => u.email === userData.email);
-		if (existingUser) {
-			throw new Error("Email já cadastrado");
-		}
+	static sendResetPasswordOTP(email: string): Promise<OtpChallenge> {
+		return getBackend().auth.sendResetPasswordOTP(email);
+	}
 
-		const newUser: User = {
-			id: faker.string.uuid(),
-			email: userData.email,
-			name: userData.name,
-			phone: faker.phone.number(),
-			createdAt: new Date(),
-			updatedAt: new Date(),
-		};
+	static resetPassword(
+		email: string,
+		otp: string,
+		newPassword: string
+	): Promise<void> {
+		return getBackend().auth.resetPassword(email, otp, newPassword);
+	}
 
-		this.users.push(newUser);
+	static requestEmailChange(newEmail: string): Promise<OtpChallenge> {
+		return getBackend().auth.requestEmailChange(newEmail);
+	}
 
-		return {
-			user: newUser,
-			token: faker.string.alphanumeric(64),
-		};
+	static confirmEmailChange(newEmail: string, otp: string): Promise<User> {
+		return getBackend().auth.confirmEmailChange(newEmail, otp);
 	}
 
-	static async sendResetPasswordOTP(email: string): Promise<{ otp: string }> {
-		await new Promise((resolve) => setTimeout(resolve, 800));
+	static updateProfile(changes: ProfileChanges): Promise<User> {
+		return getBackend().auth.updateProfile(changes);
+	}
 
-		const otp = faker.string.numeric(6);
-		console.log(`OTP para ${email}: ${otp}`); // Em produção, seria enviado por email
+	static changePassword(
+		currentPassword: string,
+		newPassword: string
+	): Promise<AuthTokens> {
+		return getBackend().auth.changePassword(currentPassword, newPassword);
+	}
 
-		return { otp };
+	static deleteAccount(password: string): Promise<void> {
+		return getBackend().auth.deleteAccount(password);
 	}
 
-	static async resetPassword(
-		email: string,
-		otp: string,
-		newPassword: string
-	): Promise<boolean> {
-		await new Promise((resolve) => setTimeout(resolve, 600));
-
-		// Simular validação do OTP (aceita qualquer OTP para demo)
-		const user = this.users.find((u) => u.email === email);
-		if (user) {
-			user.updatedAt = new Date();
-			return true;
-		}
+	static refreshSession(refreshToken: string): Promise<AuthTokens> {
+		return getBackend().auth.refreshSession(refreshToken);
+	}
 
-		return false;
+	static getCurrentUser(): Promise<User> {
+		return getBackend().auth.getCurrentUser();
+	}
+
+	static getSeller(userId: string): Promise<Seller | null> {
+		return getBackend().auth.getSeller(userId);
+	}
+
+	static logout(refreshToken: string): Promise<void> {
+		return getBackend().auth.logout(refreshToken);
 	}
 }
 
 // Serviço para gerenciar produtos do usuário
 class MyProductsService {
-	private static STORAGE_KEY = "@photo_product_app:my_products";
-
 	static async getMyProducts(): Promise<Product[]> {
 		try {
-			const data = await AsyncStorage.getItem(this.STORAGE_KEY);
-			return data ? JSON.parse(data) : [];
+			return await getBackend().myProducts.getMyProducts();
 		} catch (error) {
 			console.error("Erro ao carregar meus produtos:", error);
 			return [];
 		}
 	}
 
+	// Sem o fallback da lista vazia, para quem precisa saber da falha (ex.: a
+	// exportação dos dados não pode sair sem os produtos)
+	static loadMyProducts(): Promise<Product[]> {
+		return getBackend().myProducts.getMyProducts();
+	}
+
 	static async addMyProduct(product: Product): Promise<void> {
 		try {
-			const myProducts = await this.getMyProducts();
-			myProducts.unshift(product); // Adiciona no início da lista
-			await AsyncStorage.setItem(
-				this.STORAGE_KEY,
-				JSON.stringify(myProducts)
-			);
+			await getBackend().myProducts.addMyProduct(product);
+			queryCache.invalidate("myProducts");
 		} catch (error) {
 			console.error("Erro ao salvar produto:", error);
 			throw error;
 		}
 	}
 
-	static async removeMyProduct(productId: string): Promise<void> {
+	// Edita o produto no catálogo e a cópia da lista do usuário
+	static async updateMyProduct(
+		productId: string,
+		changes: ProductChanges
+	): Promise<Product> {
 		try {
-			const myProducts = await this.getMyProducts();
-			const filteredProducts = myProducts.filter(
-				(p) => p.id !== productId
-			);
-			await AsyncStorage.setItem(
-				this.STORAGE_KEY,
-				JSON.stringify(filteredProducts)
+			const product = await ProductService.updateProduct(
+				productId,
+				changes
 			);
+			await getBackend().myProducts.updateMyProduct(product);
+			queryCache.invalidate("myProducts");
+			return product;
+		} catch (error) {
+			console.error("Erro ao editar produto:", error);
+			throw error;
+		}
+	}
+
+	// Retira o produto do catálogo e depois da lista do usuário. Se ele já
+	// não existe no catálogo, só sai da lista.
+	static async removeMyProduct(productId: string): Promise<void> {
+		try {
+			try {
+				await ProductService.archiveProduct(productId);
+			} catch (error) {
+				if (!(error instanceof ApiError && error.status === 404)) {
+					throw error;
+				}
+			}
+			await getBackend().myProducts.removeMyProduct(productId);
+			queryCache.invalidate("myProducts");
 		} catch (error) {
 			console.error("Erro ao remover produto:", error);
 			throw error;
@@ -249,7 +296,9 @@ class MyProductsService {
 		page: number = 1,
 		limit: number = 10
 	): Promise<PaginatedResponse<Product>> {
-		const allProducts = await this.getMyProducts();
+		// O erro segue para a consulta, que mantém a cópia salva offline em
+		// vez de trocá-la por uma lista vazia
+		const allProducts = await getBackend().myProducts.getMyProducts();
 		const startIndex = (page - 1) * limit;
 		const endIndex = startIndex + limit;
 		const data = allProducts.slice(startIndex, endIndex);
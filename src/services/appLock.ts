@@ -0,0 +1,134 @@
+import { faker } from "@faker-js/faker";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as LocalAuthentication from "expo-local-authentication";
+import * as SecureStore from "expo-secure-store";
+import { hashPassword, verifyPassword } from "./passwordHashing";
+
+const SETTINGS_KEY = "@photo_product_app:app_lock";
+// O hash do PIN fica no SecureStore, junto com os tokens da sessão
+const PIN_KEY = "appLockPin";
+// Erros de PIN também: encerrar o app não zera a contagem
+const PIN_ATTEMPTS_KEY = "appLockPinAttempts";
+
+export const PIN_PATTERN = /^\d{4,6}$/;
+// Um PIN de até 6 dígitos não resiste a força bruta offline com qualquer
+// custo de hash; quem protege é o limite de tentativas. O custo menor
+// mantém o desbloqueio rápido no PBKDF2 em JS.
+const PIN_ITERATIONS = 2000;
+
+// Tempo em segundo plano até o app pedir desbloqueio (0 = ao voltar)
+export const APP_LOCK_TIMEOUTS = [0, 60 * 1000, 5 * 60 * 1000, 15 * 60 * 1000];
+
+export interface AppLockSettings {
+	enabled: boolean;
+	biometricsEnabled: boolean;
+	timeoutMs: number;
+}
+
+export const DEFAULT_APP_LOCK_SETTINGS: AppLockSettings = {
+	enabled: false,
+	biometricsEnabled: false,
+	timeoutMs: 60 * 1000,
+};
+
+export interface PinAttempts {
+	failed: number;
+	// Até quando novas tentativas são recusadas (milissegundos desde a época)
+	lockedUntil: number;
+}
+
+export const NO_PIN_ATTEMPTS: PinAttempts = { failed: 0, lockedUntil: 0 };
+
+// Espera imposta a partir do terceiro erro seguido: 30 s, 1 min, 2 min...
+const pinLockoutMs = (failed: number) =>
+	failed < 3 ? 0 : 30 * 1000 * 2 ** (failed - 3);
+
+const createSalt = () =>
+	faker.string.hexadecimal({ length: 32, casing: "lower", prefix: "" });
+
+// Configurações do bloqueio do app, PIN e biometria do aparelho
+class AppLockService {
+	static async getSettings(): Promise<AppLockSettings> {
+		try {
+			const data = await AsyncStorage.getItem(SETTINGS_KEY);
+			return data
+				? { ...DEFAULT_APP_LOCK_SETTINGS, ...JSON.parse(data) }
+				: DEFAULT_APP_LOCK_SETTINGS;
+		} catch (error) {
+			console.error("Erro ao carregar bloqueio do app:", error);
+			return DEFAULT_APP_LOCK_SETTINGS;
+		}
+	}
+
+	static async saveSettings(settings: AppLockSettings): Promise<void> {
+		await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+	}
+
+	static async setPin(pin: string): Promise<void> {
+		const hash = await hashPassword(pin, createSalt(), PIN_ITERATIONS);
+		await SecureStore.setItemAsync(PIN_KEY, hash);
+	}
+
+	static async verifyPin(pin: string): Promise<boolean> {
+		const stored = await SecureStore.getItemAsync(PIN_KEY);
+		return !!stored && (await verifyPassword(pin, stored));
+	}
+
+	static async clearPin(): Promise<void> {
+		await SecureStore.deleteItemAsync(PIN_KEY);
+	}
+
+	static async getPinAttempts(): Promise<PinAttempts> {
+		try {
+			const data = await SecureStore.getItemAsync(PIN_ATTEMPTS_KEY);
+			return data ? JSON.parse(data) : NO_PIN_ATTEMPTS;
+		} catch (error) {
+			console.error("Erro ao carregar tentativas de PIN:", error);
+			return NO_PIN_ATTEMPTS;
+		}
+	}
+
+	// Conta o erro e aplica a espera antes de devolver a nova contagem
+	static async recordFailedPin(): Promise<PinAttempts> {
+		const { failed } = await this.getPinAttempts();
+		const attempts: PinAttempts = {
+			failed: failed + 1,
+			lockedUntil: Date.now() + pinLockoutMs(failed + 1),
+		};
+		await SecureStore.setItemAsync(
+			PIN_ATTEMPTS_KEY,
+			JSON.stringify(attempts)
+		);
+		return attempts;
+	}
+
+	static async resetPinAttempts(): Promise<void> {
+		await SecureStore.deleteItemAsync(PIN_ATTEMPTS_KEY);
+	}
+
+	// Aparelho com sensor e alguma digital ou rosto cadastrado
+	static async isBiometricsAvailable(): Promise<boolean> {
+		try {
+			const [hasHardware, isEnrolled] = await Promise.all([
+				LocalAuthentication.hasHardwareAsync(),
+				LocalAuthentication.isEnrolledAsync(),
+			]);
+			return hasHardware && isEnrolled;
+		} catch (error) {
+			console.error("Erro ao verificar biometria:", error);
+			return false;
+		}
+	}
+
+	static async authenticateWithBiometrics(): Promise<boolean> {
+		const result = await LocalAuthentication.authenticateAsync({
+			promptMessage: "Desbloquear o app",
+			cancelLabel: "Usar PIN",
+			// O PIN do app é a alternativa, não a senha do aparelho
+			disableDeviceFallback: true,
+		});
+		return result.success;
+	}
+}
+
+export { AppLockService };
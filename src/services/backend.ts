@@ -0,0 +1,148 @@
+import {
+	Product,
+	User,
+	Seller,
+	PaginatedResponse,
+	CursorPage,
+	ProductQuery,
+	ProductCursorQuery,
+} from "../types";
+
+// O vendedor é o usuário logado, definido pelo backend
+// A capa ("image") vem da primeira foto de "images"
+export type NewProductData = Omit<
+	Product,
+	"id" | "image" | "sellerId" | "createdAt" | "updatedAt" | "archivedAt"
+>;
+
+// Campos alterados na edição; os demais continuam como estão
+export type ProductChanges = Partial<NewProductData>;
+
+// Dados do perfil que o próprio usuário edita; texto vazio apaga o telefone
+// ou a foto
+export type ProfileChanges = Partial<
+	Pick<User, "name" | "phone" | "profileImage">
+>;
+
+// Datas de expiração em milissegundos desde a época (Date.now())
+export interface AuthTokens {
+	accessToken: string;
+	accessTokenExpiresAt: number;
+	refreshToken: string;
+	refreshTokenExpiresAt: number;
+}
+
+export interface AuthResult {
+	user: User;
+	tokens: AuthTokens;
+}
+
+// Código de autorização obtido pelo app no provedor OIDC (authorization code
+// com PKCE). O backend troca o código pelo perfil do usuário.
+export interface OidcAuthorization {
+	code: string;
+	codeVerifier: string;
+	redirectUri: string;
+}
+
+// Código enviado por email. Na recuperação de senha a resposta é a mesma
+// exista ou não uma conta com o email, para não revelar quem está
+// cadastrado.
+export interface OtpChallenge {
+	expiresAt: number;
+	// Antes disso, pedir de novo não gera outro código
+	resendAvailableAt: number;
+}
+
+// Fonte do token de acesso enviado em cada chamada aos backends
+export interface AccessTokenProvider {
+	getAccessToken(): Promise<string | null>;
+	// Renovar após o backend recusar o token; null se a sessão acabou
+	refreshAccessToken(): Promise<string | null>;
+}
+
+// Contratos que cada implementação de backend (mock ou REST) deve cumprir
+
+export interface ProductBackend {
+	getProducts(query: ProductQuery): Promise<PaginatedResponse<Product>>;
+	getProductsPage(
+		query: ProductCursorQuery,
+		signal?: AbortSignal
+	): Promise<CursorPage<Product>>;
+	// Inclui produtos arquivados
+	getProduct(id: string): Promise<Product | null>;
+	// Versão atual de vários produtos, arquivados inclusive. Ids que não
+	// existem mais ficam de fora.
+	getProductsByIds(ids: string[]): Promise<Product[]>;
+	addProduct(productData: NewProductData): Promise<Product>;
+	// Renova "updatedAt". Produto inexistente vira ApiError 404; de outro
+	// vendedor, 403.
+	updateProduct(id: string, changes: ProductChanges): Promise<Product>;
+	// Retira o produto do catálogo; mesmos erros da edição
+	archiveProduct(id: string): Promise<Product>;
+	searchProducts(
+		text: string,
+		query: ProductQuery
+	): Promise<PaginatedResponse<Product>>;
+	getCategories(): Promise<string[]>;
+	getSearchSuggestions(text: string, limit: number): Promise<string[]>;
+	getPopularCategories(limit: number): Promise<string[]>;
+}
+
+export interface AuthBackend {
+	login(email: string, password: string): Promise<AuthResult>;
+	// Senha fora da política vira AuthError (WEAK_PASSWORD), assim como na
+	// redefinição e na troca de senha
+	register(userData: {
+		name: string;
+		email: string;
+		password: string;
+	}): Promise<AuthResult>;
+	// Entra com a identidade do provedor, vinculada à conta de mesmo email
+	// (se verificado) ou a uma conta nova
+	loginWithOidc(authorization: OidcAuthorization): Promise<AuthResult>;
+	sendResetPasswordOTP(email: string): Promise<OtpChallenge>;
+	// Código recusado vira AuthError (OTP_INVALID, OTP_EXPIRED, OTP_LOCKED)
+	resetPassword(
+		email: string,
+		otp: string,
+		newPassword: string
+	): Promise<void>;
+	// Envia um código para o novo email; o email atual continua valendo até a
+	// confirmação. Email de outra conta vira AuthError (EMAIL_IN_USE).
+	requestEmailChange(newEmail: string): Promise<OtpChallenge>;
+	// Encerra as sessões do usuário em todos os aparelhos e retorna tokens
+	// novos para este. Senha atual incorreta vira AuthError (WRONG_PASSWORD);
+	// contas sem senha (hasPassword false) definem a primeira sem ela.
+	changePassword(
+		currentPassword: string,
+		newPassword: string
+	): Promise<AuthTokens>;
+	confirmEmailChange(newEmail: string, otp: string): Promise<User>;
+	// Salva as mudanças do perfil e retorna o usuário atualizado
+	updateProfile(changes: ProfileChanges): Promise<User>;
+	// Apaga a conta e os dados dela, encerrando todas as sessões; os produtos
+	// que ela vendia são arquivados. Exige a senha, se a conta tiver uma;
+	// incorreta vira AuthError (WRONG_PASSWORD).
+	deleteAccount(password: string): Promise<void>;
+	refreshSession(refreshToken: string): Promise<AuthTokens>;
+	// Usuário dono do token de acesso atual
+	getCurrentUser(): Promise<User>;
+	// Perfil público de um vendedor; null se a conta não existe mais
+	getSeller(userId: string): Promise<Seller | null>;
+	logout(refreshToken: string): Promise<void>;
+}
+
+export interface MyProductsBackend {
+	getMyProducts(): Promise<Product[]>;
+	addMyProduct(product: Product): Promise<void>;
+	// Substitui a cópia salva na lista pela versão editada
+	updateMyProduct(product: Product): Promise<void>;
+	removeMyProduct(productId: string): Promise<void>;
+}
+
+export interface Backend {
+	products: ProductBackend;
+	auth: AuthBackend;
+	myProducts: MyProductsBackend;
+}
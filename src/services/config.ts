@@ -0,0 +1,75 @@
+import Constants from "expo-constants";
+import { FakeDataLocale } from "./fakeData";
+
+export type BackendKind = "mock" | "rest";
+
+export interface ApiConfig {
+	backend: BackendKind;
+	baseUrl: string;
+	timeoutMs: number;
+}
+
+const DEFAULT_API_CONFIG: ApiConfig = {
+	backend: "mock",
+	baseUrl: "http://localhost:4000",
+	timeoutMs: 10000,
+};
+
+// Ler configuração da API a partir do "extra" do app.json
+export const getApiConfig = (): ApiConfig => {
+	const extra = (Constants.expoConfig?.extra ?? {}) as {
+		api?: Partial<ApiConfig>;
+	};
+
+	return { ...DEFAULT_API_CONFIG, ...extra.api };
+};
+
+// Provedor de identidade OpenID Connect (login social). O servidor mock
+// inclui um provedor de teste em http://localhost:4000/oidc.
+export interface OidcConfig {
+	issuer: string;
+	clientId: string;
+	scopes: string[];
+	// Nome exibido no botão "Entrar com ..."
+	displayName: string;
+}
+
+export interface AuthConfig {
+	// Login com email desconhecido cria a conta automaticamente (apenas demo)
+	demoMode: boolean;
+	// Sem provedor configurado, o login social não aparece
+	oidc?: OidcConfig;
+}
+
+const DEFAULT_AUTH_CONFIG: AuthConfig = {
+	demoMode: false,
+};
+
+export const getAuthConfig = (): AuthConfig => {
+	const extra = (Constants.expoConfig?.extra ?? {}) as {
+		auth?: Partial<AuthConfig>;
+	};
+
+	return { ...DEFAULT_AUTH_CONFIG, ...extra.auth };
+};
+
+export interface CatalogConfig {
+	seed?: number;
+	count: number;
+	locale: FakeDataLocale;
+}
+
+const DEFAULT_CATALOG_CONFIG: CatalogConfig = {
+	seed: 42,
+	count: 10000,
+	locale: "pt_BR",
+};
+
+// Catálogo fake usado pelo backend mock (extra.catalog no app.json)
+export const getCatalogConfig = (): CatalogConfig => {
+	const extra = (Constants.expoConfig?.extra ?? {}) as {
+		catalog?: Partial<CatalogConfig>;
+	};
+
+	return { ...DEFAULT_CATALOG_CONFIG, ...extra.catalog };
+};
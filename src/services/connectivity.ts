@@ -0,0 +1,34 @@
+type ConnectivityListener = (isOnline: boolean) => void;
+
+// Estado de conexão com o backend, inferido do resultado das requisições
+export class ConnectivityMonitor {
+	private online = true;
+	private listeners = new Set<ConnectivityListener>();
+
+	isOnline() {
+		return this.online;
+	}
+
+	reportOnline() {
+		this.setOnline(true);
+	}
+
+	reportOffline() {
+		this.setOnline(false);
+	}
+
+	subscribe(listener: ConnectivityListener) {
+		this.listeners.add(listener);
+		return () => {
+			this.listeners.delete(listener);
+		};
+	}
+
+	private setOnline(online: boolean) {
+		if (this.online === online) return;
+		this.online = online;
+		this.listeners.forEach((listener) => listener(online));
+	}
+}
+
+export const connectivity = new ConnectivityMonitor();
@@ -0,0 +1,96 @@
+import * as FileSystem from "expo-file-system";
+import * as Sharing from "expo-sharing";
+import { NotificationData, Product, User } from "../types";
+
+export interface PersonalData {
+	user: User;
+	myProducts: Product[];
+	favorites: Product[];
+	cart: { product: Product; quantity: number }[];
+	notifications: NotificationData[];
+}
+
+const EXPORT_VERSION = 1;
+
+const MIME_TYPES: Record<string, string> = {
+	jpg: "image/jpeg",
+	jpeg: "image/jpeg",
+	png: "image/png",
+	webp: "image/webp",
+	heic: "image/heic",
+};
+
+const mimeTypeOf = (uri: string) => {
+	const extension = uri.split("?")[0].split(".").pop()?.toLowerCase() ?? "";
+	return MIME_TYPES[extension] ?? "image/jpeg";
+};
+
+// Imagem embutida no arquivo como data URI. Imagens remotas são baixadas
+// antes; se falhar, o endereço original fica no lugar.
+const embedImage = async (uri: string): Promise<string> => {
+	if (!uri || uri.startsWith("data:")) return uri;
+
+	let localUri = uri;
+	try {
+		if (/^https?:\/\//.test(uri)) {
+			const target = `${FileSystem.cacheDirectory}export-${Date.now()}`;
+			localUri = (await FileSystem.downloadAsync(uri, target)).uri;
+		}
+
+		const base64 = await FileSystem.readAsStringAsync(localUri, {
+			encoding: FileSystem.EncodingType.Base64,
+		});
+		return `data:${mimeTypeOf(uri)};base64,${base64}`;
+	} catch (error) {
+		console.error("Erro ao incluir imagem na exportação:", error);
+		return uri;
+	} finally {
+		if (localUri !== uri) {
+			await FileSystem.deleteAsync(localUri, { idempotent: true });
+		}
+	}
+};
+
+// Gera um JSON com os dados da conta, com as fotos dos produtos do usuário
+// embutidas, e abre o compartilhamento do sistema
+export const exportPersonalData = async (data: PersonalData) => {
+	if (!(await Sharing.isAvailableAsync())) {
+		throw new Error("Compartilhamento indisponível neste aparelho");
+	}
+
+	const myProducts: Product[] = [];
+	for (const product of data.myProducts) {
+		const images: string[] = [];
+		for (const uri of product.images) {
+			images.push(await embedImage(uri));
+		}
+		myProducts.push({ ...product, image: images[0], images });
+	}
+
+	const bundle = {
+		version: EXPORT_VERSION,
+		exportedAt: new Date().toISOString(),
+		...data,
+		user: {
+			...data.user,
+			profileImage: data.user.profileImage
+				? await embedImage(data.user.profileImage)
+				: undefined,
+		},
+		myProducts,
+	};
+
+	const date = new Date().toISOString().slice(0, 10);
+	const uri = `${FileSystem.cacheDirectory}meus-dados-${date}.json`;
+	await FileSystem.writeAsStringAsync(uri, JSON.stringify(bundle, null, 2));
+
+	try {
+		await Sharing.shareAsync(uri, {
+			mimeType: "application/json",
+			dialogTitle: "Exportar meus dados",
+			UTI: "public.json",
+		});
+	} finally {
+		await FileSystem.deleteAsync(uri, { idempotent: true });
+	}
+};
@@ -0,0 +1,82 @@
+// Erro retornado pelo backend com status HTTP e código de erro
+export class ApiError extends Error {
+	status: number;
+	code: string;
+
+	constructor(message: string, status: number, code: string = "UNKNOWN") {
+		super(message);
+		this.name = "ApiError";
+		this.status = status;
+		this.code = code;
+	}
+}
+
+export type AuthErrorCode =
+	| "USER_NOT_FOUND"
+	| "WRONG_PASSWORD"
+	| "EMAIL_IN_USE"
+	| "INVALID_TOKEN"
+	| "TOKEN_EXPIRED"
+	| "SESSION_EXPIRED"
+	| "OTP_INVALID"
+	| "OTP_EXPIRED"
+	| "OTP_LOCKED"
+	| "OIDC_FAILED"
+	| "EMAIL_NOT_VERIFIED"
+	| "WEAK_PASSWORD";
+
+export const AUTH_ERROR_MESSAGES: Record<AuthErrorCode, string> = {
+	USER_NOT_FOUND: "Nenhuma conta encontrada com este email",
+	WRONG_PASSWORD: "Senha incorreta",
+	EMAIL_IN_USE: "Email já cadastrado",
+	INVALID_TOKEN: "Token de acesso inválido",
+	TOKEN_EXPIRED: "Token de acesso expirado",
+	SESSION_EXPIRED: "Sua sessão expirou. Entre novamente.",
+	OTP_INVALID: "Código inválido",
+	OTP_EXPIRED: "Código expirado. Solicite um novo código.",
+	OTP_LOCKED: "Tentativas esgotadas. Solicite um novo código.",
+	OIDC_FAILED: "Não foi possível entrar com o provedor de identidade",
+	EMAIL_NOT_VERIFIED: "O provedor de identidade não confirmou o seu email",
+	WEAK_PASSWORD: "Senha fora da política de senhas",
+};
+
+export const isAuthErrorCode = (code: string): code is AuthErrorCode =>
+	Object.prototype.hasOwnProperty.call(AUTH_ERROR_MESSAGES, code);
+
+// Falha de autenticação com código tipado para a interface tratar cada caso
+export class AuthError extends Error {
+	code: AuthErrorCode;
+
+	constructor(
+		code: AuthErrorCode,
+		message: string = AUTH_ERROR_MESSAGES[code]
+	) {
+		super(message);
+		this.name = "AuthError";
+		this.code = code;
+	}
+}
+
+// Falha de rede (servidor inacessível, sem conexão, etc.)
+export class NetworkError extends Error {
+	constructor(message: string = "Não foi possível conectar ao servidor") {
+		super(message);
+		this.name = "NetworkError";
+	}
+}
+
+// Requisição cancelada por quem a iniciou (ex.: busca substituída por outra)
+export class RequestCancelledError extends Error {
+	constructor(message: string = "Requisição cancelada") {
+		super(message);
+		this.name = "RequestCancelledError";
+	}
+}
+
+// Requisição excedeu o tempo limite configurado
+export class TimeoutError extends Error {
+	constructor(message: string = "Tempo de resposta do servidor esgotado") {
+		super(message);
+		this.name = "TimeoutError";
+	}
+}
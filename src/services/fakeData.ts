@@ -0,0 +1,91 @@
+import { Faker, base, en, pt_BR } from "@faker-js/faker";
+import { Product, User } from "../types";
+
+const LOCALES = {
+	en: [en, base],
+	pt_BR: [pt_BR, en, base],
+};
+
+export type FakeDataLocale = keyof typeof LOCALES;
+
+export interface FakeDataOptions {
+	// Semente do faker; sem semente os dados mudam a cada execução
+	seed?: number;
+	locale?: FakeDataLocale;
+	// Data de referência para datas relativas (past/recent)
+	refDate?: string | Date;
+}
+
+// Com semente, as datas também precisam de uma referência fixa para serem estáveis
+const DEFAULT_SEEDED_REF_DATE = "2025-01-01T00:00:00.000Z";
+
+const createFaker = ({ seed, locale = "en", refDate }: FakeDataOptions) => {
+	const instance = new Faker({ locale: LOCALES[locale] ?? LOCALES.en });
+
+	if (seed !== undefined) {
+		instance.seed(seed);
+		instance.setDefaultRefDate(refDate ?? DEFAULT_SEEDED_REF_DATE);
+	} else if (refDate !== undefined) {
+		instance.setDefaultRefDate(refDate);
+	}
+
+	return instance;
+};
+
+// Gerar produtos fake
+export const generateFakeProducts = (
+	count: number,
+	options: FakeDataOptions = {}
+): Product[] => {
+	const faker = createFaker(options);
+	const products: Product[] = [];
+
+	for (let i = 0; i < count; i++) {
+		// De uma a quatro fotos; a primeira é a capa
+		const images = faker.helpers.multiple(
+			() =>
+				faker.image.urlLoremFlickr({
+					width: 300,
+					height: 300,
+					category: "product",
+				}),
+			{ count: { min: 1, max: 4 } }
+		);
+
+		products.push({
+			id: faker.string.uuid(),
+			name: faker.commerce.productName(),
+			description: faker.commerce.productDescription(),
+			price: parseFloat(faker.commerce.price()),
+			image: images[0],
+			images,
+			category: faker.commerce.department(),
+			inStock: faker.datatype.boolean(),
+			createdAt: faker.date.past(),
+			updatedAt: faker.date.recent(),
+		});
+	}
+
+	return products;
+};
+
+// Conta de demonstração criada pelos backends mock
+export const DEMO_CREDENTIALS = {
+	email: "demo@photoproduct.app",
+	password: "demo1234",
+};
+
+// Gerar usuário fake
+export const generateFakeUser = (options: FakeDataOptions = {}): User => {
+	const faker = createFaker(options);
+
+	return {
+		id: faker.string.uuid(),
+		email: faker.internet.email(),
+		name: faker.person.fullName(),
+		phone: faker.phone.number(),
+		profileImage: faker.image.avatar(),
+		createdAt: faker.date.past(),
+		updatedAt: faker.date.recent(),
+	};
+};
@@ -0,0 +1,218 @@
+import { AccessTokenProvider } from "./backend";
+import { connectivity } from "./connectivity";
+import {
+	ApiError,
+	NetworkError,
+	RequestCancelledError,
+	TimeoutError,
+} from "./errors";
+import { reviveProductImages } from "./productImages";
+
+type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+type QueryValue = string | number | boolean | Date | undefined | null;
+
+export interface RequestOptions {
+	query?: Record<string, QueryValue>;
+	body?: unknown;
+	signal?: AbortSignal;
+	// Enviar o token de acesso (padrão); login e renovação não enviam
+	authenticate?: boolean;
+}
+
+// Códigos com que o servidor recusa um token de acesso
+const REJECTED_TOKEN_CODES = new Set(["TOKEN_EXPIRED", "INVALID_TOKEN"]);
+
+// Campos de data de Product/User que chegam como string ISO no JSON
+const DATE_FIELDS = new Set(["createdAt", "updatedAt", "archivedAt"]);
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+export const reviveDates = (key: string, value: unknown) => {
+	if (
+		DATE_FIELDS.has(key) &&
+		typeof value === "string" &&
+		ISO_DATE_PATTERN.test(value)
+	) {
+		return new Date(value);
+	}
+	return value;
+};
+
+// Dados guardados no aparelho: além das datas, migra produtos salvos antes
+// das várias fotos
+export const reviveStoredData = (key: string, value: unknown) =>
+	reviveProductImages(key, reviveDates(key, value));
+
+// Corpo de erro do servidor: { error: { code, message } }
+interface ErrorBody {
+	code?: string;
+	message?: string;
+}
+
+const readErrorBody = (payload: unknown): ErrorBody => {
+	const error =
+		typeof payload === "object" && payload !== null
+			? (payload as { error?: unknown }).error
+			: undefined;
+	if (typeof error !== "object" || error === null) return {};
+
+	const { code, message } = error as Record<string, unknown>;
+	return {
+		code: typeof code === "string" ? code : undefined,
+		message: typeof message === "string" ? message : undefined,
+	};
+};
+
+const buildQueryString = (query?: Record<string, QueryValue>) => {
+	if (!query) return "";
+
+	const params = Object.entries(query)
+		.filter(([, value]) => value !== undefined && value !== null)
+		.map(([key, value]) => {
+			const serialized =
+				value instanceof Date ? value.toISOString() : String(value);
+			return `${encodeURIComponent(key)}=${encodeURIComponent(
+				serialized
+			)}`;
+		});
+
+	return params.length > 0 ? `?${params.join("&")}` : "";
+};
+
+// Cliente HTTP simples para o backend REST
+export class HttpClient {
+	constructor(
+		private baseUrl: string,
+		private timeoutMs: number,
+		private auth?: AccessTokenProvider
+	) {}
+
+	get<T>(path: string, options?: RequestOptions) {
+		return this.request<T>("GET", path, options);
+	}
+
+	post<T>(path: string, options?: RequestOptions) {
+		return this.request<T>("POST", path, options);
+	}
+
+	put<T>(path: string, options?: RequestOptions) {
+		return this.request<T>("PUT", path, options);
+	}
+
+	patch<T>(path: string, options?: RequestOptions) {
+		return this.request<T>("PATCH", path, options);
+	}
+
+	delete<T>(path: string, options?: RequestOptions) {
+		return this.request<T>("DELETE", path, options);
+	}
+
+	async request<T>(
+		method: HttpMethod,
+		path: string,
+		options: RequestOptions = {}
+	): Promise<T> {
+		const token =
+			options.authenticate === false
+				? null
+				: await this.auth?.getAccessToken();
+
+		try {
+			return await this.send<T>(method, path, options, token);
+		} catch (error) {
+			// Token recusado: renovar uma vez e repetir a chamada
+			if (
+				token &&
+				error instanceof ApiError &&
+				error.status === 401 &&
+				REJECTED_TOKEN_CODES.has(error.code)
+			) {
+				const freshToken = await this.auth?.refreshAccessToken();
+				if (freshToken) {
+					return this.send<T>(method, path, options, freshToken);
+				}
+			}
+			throw error;
+		}
+	}
+
+	private async send<T>(
+		method: HttpMethod,
+		path: string,
+		options: RequestOptions,
+		token: string | null | undefined
+	): Promise<T> {
+		const controller = new AbortController();
+		let timedOut = false;
+
+		const timer = setTimeout(() => {
+			timedOut = true;
+			controller.abort();
+		}, this.timeoutMs);
+
+		// Propagar cancelamento externo para a requisição
+		const abortFromCaller = () => controller.abort();
+		options.signal?.addEventListener("abort", abortFromCaller);
+
+		const url = `${this.baseUrl.replace(/\/$/, "")}${path}${buildQueryString(
+			options.query
+		)}`;
+
+		let response: Response;
+		try {
+			response = await fetch(url, {
+				method,
+				headers: {
+					Accept: "application/json",
+					...(token && { Authorization: `Bearer ${token}` }),
+					...(options.body !== undefined && {
+						"Content-Type": "application/json",
+					}),
+				},
+				body:
+					options.body !== undefined
+						? JSON.stringify(options.body)
+						: undefined,
+				signal: controller.signal,
+			});
+		} catch (error) {
+			if (options.signal?.aborted && !timedOut) {
+				throw new RequestCancelledError();
+			}
+			connectivity.reportOffline();
+			throw timedOut ? new TimeoutError() : new NetworkError();
+		} finally {
+			clearTimeout(timer);
+			options.signal?.removeEventListener("abort", abortFromCaller);
+		}
+
+		// Qualquer resposta HTTP indica que o servidor está acessível
+		connectivity.reportOnline();
+
+		const text = await response.text();
+		let payload: unknown = undefined;
+		if (text) {
+			try {
+				payload = JSON.parse(text, reviveDates);
+			} catch {
+				throw new ApiError(
+					"Resposta inválida do servidor",
+					response.status,
+					"INVALID_RESPONSE"
+				);
+			}
+		}
+
+		if (!response.ok) {
+			const { code, message } = readErrorBody(payload);
+			throw new ApiError(
+				message || `Erro ${response.status}`,
+				response.status,
+				code
+			);
+		}
+
+		return payload as T;
+	}
+}
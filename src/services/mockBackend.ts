@@ -0,0 +1,541 @@
+import { faker } from "@faker-js/faker";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+	Product,
+	PaginatedResponse,
+	CursorPage,
+	ProductQuery,
+	ProductCursorQuery,
+	Seller,
+	User,
+} from "../types";
+import {
+	AccessTokenProvider,
+	AuthBackend,
+	AuthResult,
+	AuthTokens,
+	Backend,
+	MyProductsBackend,
+	NewProductData,
+	OidcAuthorization,
+	OtpChallenge,
+	ProductBackend,
+	ProductChanges,
+	ProfileChanges,
+} from "./backend";
+import { getAuthConfig, getCatalogConfig } from "./config";
+import { ApiError, AuthError, RequestCancelledError } from "./errors";
+import {
+	DEMO_CREDENTIALS,
+	generateFakeProducts,
+	generateFakeUser,
+} from "./fakeData";
+import { reviveDates, reviveStoredData } from "./httpClient";
+import { fetchOidcProfile } from "./oidc";
+import { OtpStore, emailChangeKey } from "./otpStore";
+import { ProductCatalog } from "./productCatalog";
+import { RefreshSession, SessionStore } from "./sessionStore";
+import {
+	StoredUser,
+	UserDirectory,
+	requirePasswordPolicy,
+	toPublicUser,
+} from "./userDirectory";
+
+const createSalt = () =>
+	faker.string.hexadecimal({ length: 32, casing: "lower", prefix: "" });
+
+const createToken = () => faker.string.alphanumeric(48);
+
+const delay = (ms: number, signal?: AbortSignal) => {
+	let onAbort = () => {};
+	return new Promise<void>((resolve, reject) => {
+		const timer = setTimeout(resolve, ms);
+		onAbort = () => {
+			clearTimeout(timer);
+			reject(new RequestCancelledError());
+		};
+		signal?.addEventListener("abort", onAbort, { once: true });
+	}).finally(() => signal?.removeEventListener("abort", onAbort));
+};
+
+// Sessões do backend mock, salvas no aparelho junto com o segredo que
+// assina os tokens de acesso
+interface SavedSessions {
+	secret: string;
+	sessions: RefreshSession[];
+}
+
+export class MockSessions {
+	private static STORAGE_KEY = "@photo_product_app:mock_sessions";
+
+	private secret = "";
+	private store: Promise<SessionStore> | null = null;
+
+	constructor(private auth: AccessTokenProvider) {}
+
+	get() {
+		if (!this.store) {
+			this.store = this.load();
+		}
+		return this.store;
+	}
+
+	private async load() {
+		const data = await AsyncStorage.getItem(MockSessions.STORAGE_KEY);
+		const saved: SavedSessions | null = data ? JSON.parse(data) : null;
+
+		this.secret = saved?.secret ?? faker.string.alphanumeric(64);
+		return new SessionStore(this.secret, createToken, saved?.sessions);
+	}
+
+	async save() {
+		const store = await this.get();
+		const saved: SavedSessions = {
+			secret: this.secret,
+			sessions: store.all(),
+		};
+		await AsyncStorage.setItem(
+			MockSessions.STORAGE_KEY,
+			JSON.stringify(saved)
+		);
+	}
+
+	// Id do usuário dono do token de acesso atual. Token recusado é renovado
+	// uma vez, como o HttpClient faz com o servidor.
+	async authorize(): Promise<string> {
+		const store = await this.get();
+		try {
+			return store.verifyAccessToken(await this.auth.getAccessToken());
+		} catch (error) {
+			if (!(error instanceof AuthError)) throw error;
+			const token = await this.auth.refreshAccessToken();
+			return store.verifyAccessToken(token);
+		}
+	}
+}
+
+// Catálogo fake, gerado de novo a cada abertura do app, mais os produtos
+// que as contas cadastraram antes, guardados nas listas de cada uma
+export class MockCatalog {
+	private catalog: Promise<ProductCatalog> | null = null;
+
+	get() {
+		if (!this.catalog) {
+			this.catalog = this.load();
+		}
+		return this.catalog;
+	}
+
+	private async load() {
+		const { count, ...options } = getCatalogConfig();
+		const catalog = new ProductCatalog(generateFakeProducts(count, options));
+
+		const prefix = MockMyProductsBackend.storageKey("");
+		const keys = (await AsyncStorage.getAllKeys()).filter((key) =>
+			key.startsWith(prefix)
+		);
+		const saved: Product[] = [];
+		for (const [key, data] of await AsyncStorage.multiGet(keys)) {
+			if (!data) continue;
+			// Produtos salvos antes de ter vendedor ficam com o dono da lista
+			const sellerId = key.slice(prefix.length);
+			const products: Product[] = JSON.parse(data, reviveStoredData);
+			products.forEach((product) => saved.push({ sellerId, ...product }));
+		}
+
+		// Do mais antigo ao mais recente, que fica no topo
+		saved
+			.sort(
+				(a, b) =>
+					new Date(a.createdAt).getTime() -
+					new Date(b.createdAt).getTime()
+			)
+			.forEach((product) => catalog.restore(product));
+		return catalog;
+	}
+}
+
+// Simular API para produtos
+export class MockProductBackend implements ProductBackend {
+	constructor(
+		private sessions: MockSessions,
+		private catalog: MockCatalog
+	) {}
+
+	async getProducts(
+		query: ProductQuery
+	): Promise<PaginatedResponse<Product>> {
+		await delay(500); // Simular delay da API
+		return (await this.catalog.get()).list(query);
+	}
+
+	async getProductsPage(
+		query: ProductCursorQuery,
+		signal?: AbortSignal
+	): Promise<CursorPage<Product>> {
+		await delay(500, signal);
+		return (await this.catalog.get()).listPage(query);
+	}
+
+	async getProduct(id: string): Promise<Product | null> {
+		await delay(300);
+		return (await this.catalog.get()).get(id);
+	}
+
+	async getProductsByIds(ids: string[]): Promise<Product[]> {
+		await delay(300);
+		return (await this.catalog.get()).getMany(ids);
+	}
+
+	async addProduct(productData: NewProductData): Promise<Product> {
+		await delay(800);
+		const userId = await this.sessions.authorize();
+		return (await this.catalog.get()).add(productData, userId);
+	}
+
+	async updateProduct(id: string, changes: ProductChanges): Promise<Product> {
+		await delay(600);
+		const catalog = await this.requireOwnProduct(id);
+		return catalog.update(id, changes)!;
+	}
+
+	async archiveProduct(id: string): Promise<Product> {
+		await delay(400);
+		const catalog = await this.requireOwnProduct(id);
+		return catalog.archive(id)!;
+	}
+
+	// Só o vendedor altera o produto, como no servidor
+	private async requireOwnProduct(id: string) {
+		const userId = await this.sessions.authorize();
+		const catalog = await this.catalog.get();
+		const product = catalog.get(id);
+
+		if (!product || product.archivedAt) {
+			throw new ApiError("Produto não encontrado", 404, "NOT_FOUND");
+		}
+		if (product.sellerId !== userId) {
+			throw new ApiError(
+				"Só é possível alterar os seus produtos",
+				403,
+				"FORBIDDEN"
+			);
+		}
+		return catalog;
+	}
+
+	async searchProducts(
+		text: string,
+		query: ProductQuery
+	): Promise<PaginatedResponse<Product>> {
+		await delay(400);
+		return (await this.catalog.get()).search(text, query);
+	}
+
+	async getCategories(): Promise<string[]> {
+		await delay(200);
+		return (await this.catalog.get()).categories();
+	}
+
+	async getSearchSuggestions(text: string, limit: number): Promise<string[]> {
+		await delay(100);
+		return (await this.catalog.get()).suggest(text, limit);
+	}
+
+	async getPopularCategories(limit: number): Promise<string[]> {
+		await delay(200);
+		return (await this.catalog.get()).popularCategories(limit);
+	}
+}
+
+// Simular API para autenticação. Usuários ficam salvos no aparelho com o
+// hash da senha, como um servidor guardaria.
+export class MockAuthBackend implements AuthBackend {
+	private static STORAGE_KEY = "@photo_product_app:mock_users";
+
+	private directory: Promise<UserDirectory> | null = null;
+	private otps = new OtpStore(() => faker.string.numeric(6));
+
+	// O catálogo é o mesmo do backend de produtos
+	constructor(
+		private sessions: MockSessions,
+		private catalog: MockCatalog
+	) {}
+
+	private getDirectory() {
+		if (!this.directory) {
+			this.directory = this.loadDirectory();
+		}
+		return this.directory;
+	}
+
+	private async loadDirectory() {
+		const data = await AsyncStorage.getItem(MockAuthBackend.STORAGE_KEY);
+		const users: StoredUser[] = data ? JSON.parse(data, reviveDates) : [];
+		const directory = new UserDirectory(users, createSalt);
+
+		if (!directory.findByEmail(DEMO_CREDENTIALS.email)) {
+			const { locale } = getCatalogConfig();
+			await directory.create({
+				...generateFakeUser({ locale }),
+				...DEMO_CREDENTIALS,
+			});
+			await this.save(directory);
+		}
+		return directory;
+	}
+
+	private save(directory: UserDirectory) {
+		return AsyncStorage.setItem(
+			MockAuthBackend.STORAGE_KEY,
+			JSON.stringify(directory.all())
+		);
+	}
+
+	async login(email: string, password: string): Promise<AuthResult> {
+		await delay(1000);
+		const directory = await this.getDirectory();
+
+		// Modo demo: email desconhecido cria a conta com a senha informada
+		if (!directory.findByEmail(email) && getAuthConfig().demoMode) {
+			const name = faker.person.fullName();
+			await directory.create({ name, email, password });
+			await this.save(directory);
+		}
+
+		const user = await directory.authenticate(email, password);
+		return { user, tokens: await this.issueTokens(user.id) };
+	}
+
+	// O provedor é chamado de verdade; só a conta fica no aparelho
+	async loginWithOidc(authorization: OidcAuthorization): Promise<AuthResult> {
+		const { oidc } = getAuthConfig();
+		if (!oidc) {
+			throw new AuthError("OIDC_FAILED");
+		}
+
+		const profile = await fetchOidcProfile(oidc, authorization);
+		const directory = await this.getDirectory();
+		const user = await directory.signInWithIdentity(profile);
+		await this.save(directory);
+
+		return { user, tokens: await this.issueTokens(user.id) };
+	}
+
+	async register(userData: {
+		name: string;
+		email: string;
+		password: string;
+	}): Promise<AuthResult> {
+		await delay(1200);
+		const directory = await this.getDirectory();
+
+		requirePasswordPolicy(userData.password, userData);
+		const user = await directory.create(userData);
+		await this.save(directory);
+
+		return { user, tokens: await this.issueTokens(user.id) };
+	}
+
+	async sendResetPasswordOTP(email: string): Promise<OtpChallenge> {
+		await delay(800);
+		const directory = await this.getDirectory();
+
+		// O desafio é criado para qualquer email, mas só contas existentes
+		// recebem o código
+		const { code, challenge } = this.otps.issue(email);
+		if (code && directory.findByEmail(email)) {
+			console.log(`OTP para ${email}: ${code}`); // Em produção, seria enviado por email
+		}
+
+		return challenge;
+	}
+
+	async resetPassword(
+		email: string,
+		otp: string,
+		newPassword: string
+	): Promise<void> {
+		await delay(600);
+		const directory = await this.getDirectory();
+
+		// Antes do código, que só vale uma vez
+		requirePasswordPolicy(newPassword, { email });
+		this.otps.verify(email, otp);
+		if (!(await directory.setPassword(email, newPassword))) {
+			throw new AuthError("OTP_INVALID");
+		}
+		await this.save(directory);
+	}
+
+	async requestEmailChange(newEmail: string): Promise<OtpChallenge> {
+		await delay(800);
+		const userId = await this.sessions.authorize();
+		const directory = await this.getDirectory();
+
+		if (directory.findByEmail(newEmail)) {
+			throw new AuthError("EMAIL_IN_USE");
+		}
+
+		const { code, challenge } = this.otps.issue(
+			emailChangeKey(userId, newEmail)
+		);
+		if (code) {
+			console.log(`Código para confirmar ${newEmail}: ${code}`); // Em produção, seria enviado para o novo email
+		}
+		return challenge;
+	}
+
+	async confirmEmailChange(newEmail: string, otp: string): Promise<User> {
+		await delay(600);
+		const userId = await this.sessions.authorize();
+		const directory = await this.getDirectory();
+
+		this.otps.verify(emailChangeKey(userId, newEmail), otp);
+		const user = directory.changeEmail(userId, newEmail);
+		await this.save(directory);
+		return user;
+	}
+
+	async updateProfile(changes: ProfileChanges): Promise<User> {
+		await delay(600);
+		const userId = await this.sessions.authorize();
+		const directory = await this.getDirectory();
+
+		const user = directory.updateProfile(userId, changes);
+		await this.save(directory);
+		return user;
+	}
+
+	async changePassword(
+		currentPassword: string,
+		newPassword: string
+	): Promise<AuthTokens> {
+		await delay(800);
+		const userId = await this.sessions.authorize();
+		const directory = await this.getDirectory();
+
+		requirePasswordPolicy(newPassword, directory.findById(userId) ?? {});
+		await directory.changePassword(userId, currentPassword, newPassword);
+		await this.save(directory);
+
+		(await this.sessions.get()).revokeUser(userId);
+		return this.issueTokens(userId);
+	}
+
+	async deleteAccount(password: string): Promise<void> {
+		await delay(800);
+		const userId = await this.sessions.authorize();
+		const directory = await this.getDirectory();
+
+		await directory.remove(userId, password);
+		await this.save(directory);
+		await AsyncStorage.removeItem(MockMyProductsBackend.storageKey(userId));
+		(await this.catalog.get()).archiveBySeller(userId);
+
+		(await this.sessions.get()).revokeUser(userId);
+		await this.sessions.save();
+	}
+
+	async refreshSession(refreshToken: string): Promise<AuthTokens> {
+		await delay(300);
+		const store = await this.sessions.get();
+
+		try {
+			return store.refresh(refreshToken).tokens;
+		} finally {
+			await this.sessions.save();
+		}
+	}
+
+	async getCurrentUser(): Promise<User> {
+		await delay(300);
+		const userId = await this.sessions.authorize();
+		const user = (await this.getDirectory()).findById(userId);
+
+		if (!user) {
+			throw new AuthError("INVALID_TOKEN");
+		}
+		return toPublicUser(user);
+	}
+
+	async getSeller(userId: string): Promise<Seller | null> {
+		await delay(200);
+		return (await this.getDirectory()).getSeller(userId);
+	}
+
+	async logout(refreshToken: string): Promise<void> {
+		await delay(200);
+		(await this.sessions.get()).revoke(refreshToken);
+		await this.sessions.save();
+	}
+
+	private async issueTokens(userId: string) {
+		const tokens = (await this.sessions.get()).issue(userId);
+		await this.sessions.save();
+		return tokens;
+	}
+}
+
+// Produtos do usuário salvos localmente, uma lista por conta
+export class MockMyProductsBackend implements MyProductsBackend {
+	static storageKey(userId: string) {
+		return `@photo_product_app:my_products:${userId}`;
+	}
+
+	constructor(private sessions: MockSessions) {}
+
+	async getMyProducts(): Promise<Product[]> {
+		const userId = await this.sessions.authorize();
+		return this.load(userId);
+	}
+
+	async addMyProduct(product: Product): Promise<void> {
+		const userId = await this.sessions.authorize();
+		const myProducts = await this.load(userId);
+		myProducts.unshift(product); // Adiciona no início da lista
+		await this.save(userId, myProducts);
+	}
+
+	async updateMyProduct(product: Product): Promise<void> {
+		const userId = await this.sessions.authorize();
+		const myProducts = await this.load(userId);
+		await this.save(
+			userId,
+			myProducts.map((p) => (p.id === product.id ? product : p))
+		);
+	}
+
+	async removeMyProduct(productId: string): Promise<void> {
+		const userId = await this.sessions.authorize();
+		const myProducts = await this.load(userId);
+		const filteredProducts = myProducts.filter((p) => p.id !== productId);
+		await this.save(userId, filteredProducts);
+	}
+
+	private async load(userId: string): Promise<Product[]> {
+		const data = await AsyncStorage.getItem(
+			MockMyProductsBackend.storageKey(userId)
+		);
+		return data ? JSON.parse(data, reviveStoredData) : [];
+	}
+
+	private save(userId: string, products: Product[]) {
+		return AsyncStorage.setItem(
+			MockMyProductsBackend.storageKey(userId),
+			JSON.stringify(products)
+		);
+	}
+}
+
+export const createMockBackend = (auth: AccessTokenProvider): Backend => {
+	const sessions = new MockSessions(auth);
+	const catalog = new MockCatalog();
+
+	return {
+		products: new MockProductBackend(sessions, catalog),
+		auth: new MockAuthBackend(sessions, catalog),
+		myProducts: new MockMyProductsBackend(sessions),
+	};
+};
@@ -0,0 +1,97 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { Product } from "../types";
+import { reviveStoredData } from "./httpClient";
+import { userStorageKey } from "./userStorage";
+
+const MAX_CACHED_PRODUCTS = 200;
+
+// Cópia local das últimas listas e produtos recebidos, usada sem conexão.
+// Cada conta tem a própria cópia; sem conta logada nada é salvo.
+class OfflineCacheService {
+	private static userId: string | null = null;
+	// Gravações do mapa de produtos em sequência para não perder atualizações
+	private static pendingWrite: Promise<void> = Promise.resolve();
+
+	static setUser(userId: string | null) {
+		this.userId = userId;
+	}
+
+	static async getQuery<T>(key: string): Promise<T | null> {
+		if (!this.userId) return null;
+
+		try {
+			const data = await AsyncStorage.getItem(
+				userStorageKey(`offline:query:${key}`, this.userId)
+			);
+			return data ? JSON.parse(data, reviveStoredData) : null;
+		} catch (error) {
+			console.error("Erro ao carregar lista salva:", error);
+			return null;
+		}
+	}
+
+	static async saveQuery<T>(key: string, data: T): Promise<void> {
+		if (!this.userId) return;
+
+		try {
+			await AsyncStorage.setItem(
+				userStorageKey(`offline:query:${key}`, this.userId),
+				JSON.stringify(data)
+			);
+		} catch (error) {
+			console.error("Erro ao salvar lista:", error);
+		}
+	}
+
+	static async getProduct(id: string): Promise<Product | null> {
+		if (!this.userId) return null;
+
+		const products = await this.loadProducts(this.userId);
+		return products[id] ?? null;
+	}
+
+	// Mantém apenas os produtos vistos mais recentemente
+	static saveProducts(products: Product[]): Promise<void> {
+		const userId = this.userId;
+		if (!userId) return this.pendingWrite;
+
+		this.pendingWrite = this.pendingWrite.then(async () => {
+			const saved = await this.loadProducts(userId);
+			products.forEach((product) => {
+				delete saved[product.id];
+				saved[product.id] = product;
+			});
+
+			const ids = Object.keys(saved);
+			ids.slice(0, Math.max(0, ids.length - MAX_CACHED_PRODUCTS)).forEach(
+				(id) => delete saved[id]
+			);
+
+			try {
+				await AsyncStorage.setItem(
+					userStorageKey("offline:products", userId),
+					JSON.stringify(saved)
+				);
+			} catch (error) {
+				console.error("Erro ao salvar produtos:", error);
+			}
+		});
+		return this.pendingWrite;
+	}
+
+	private static async loadProducts(
+		userId: string
+	): Promise<Record<string, Product>> {
+		try {
+			const data = await AsyncStorage.getItem(
+				userStorageKey("offline:products", userId)
+			);
+			return data ? JSON.parse(data, reviveStoredData) : {};
+		} catch (error) {
+			console.error("Erro ao carregar produtos salvos:", error);
+			return {};
+		}
+	}
+}
+
+export { OfflineCacheService };
@@ -0,0 +1,82 @@
+import { OidcAuthorization } from "./backend";
+import { AuthError } from "./errors";
+
+export interface OidcClient {
+	issuer: string;
+	clientId: string;
+}
+
+// Identidade confirmada pelo provedor (endpoint userinfo)
+export interface OidcProfile {
+	issuer: string;
+	subject: string;
+	email: string;
+	emailVerified: boolean;
+	name?: string;
+}
+
+interface DiscoveryDocument {
+	token_endpoint: string;
+	userinfo_endpoint: string;
+}
+
+const fetchJson = async <T>(url: string, init?: RequestInit): Promise<T> => {
+	const response = await fetch(url, init);
+	if (!response.ok) {
+		console.error(`Provedor OIDC recusou ${url}: ${response.status}`);
+		throw new AuthError("OIDC_FAILED");
+	}
+	return response.json();
+};
+
+// Troca o código de autorização (com o code_verifier do PKCE) por um token
+// do provedor e busca o perfil do usuário. Usado pelo backend mock e pelo
+// servidor mock; o perfil vem direto do provedor, então não é preciso
+// validar a assinatura de um id_token.
+export const fetchOidcProfile = async (
+	client: OidcClient,
+	{ code, codeVerifier, redirectUri }: OidcAuthorization
+): Promise<OidcProfile> => {
+	const issuer = client.issuer.replace(/\/$/, "");
+	const discovery = await fetchJson<DiscoveryDocument>(
+		`${issuer}/.well-known/openid-configuration`
+	);
+
+	const token = await fetchJson<{ access_token: string }>(
+		discovery.token_endpoint,
+		{
+			method: "POST",
+			headers: {
+				"Content-Type": "application/x-www-form-urlencoded",
+				Accept: "application/json",
+			},
+			body: new URLSearchParams({
+				grant_type: "authorization_code",
+				code,
+				redirect_uri: redirectUri,
+				client_id: client.clientId,
+				code_verifier: codeVerifier,
+			}).toString(),
+		}
+	);
+
+	const info = await fetchJson<{
+		sub?: string;
+		email?: string;
+		email_verified?: boolean;
+		name?: string;
+	}>(discovery.userinfo_endpoint, {
+		headers: { Authorization: `Bearer ${token.access_token}` },
+	});
+
+	if (!info.sub || !info.email) {
+		throw new AuthError("OIDC_FAILED");
+	}
+	return {
+		issuer,
+		subject: info.sub,
+		email: info.email,
+		emailVerified: info.email_verified === true,
+		name: info.name,
+	};
+};
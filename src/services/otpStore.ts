@@ -0,0 +1,113 @@
+import { OtpChallenge } from "./backend";
+import { AuthError } from "./errors";
+import { encodeUtf8, safeEqual, sha256, toHex } from "./sha256";
+import { normalizeEmail } from "./userDirectory";
+
+export const OTP_TTL_MS = 10 * 60 * 1000;
+export const OTP_MAX_ATTEMPTS = 5;
+export const OTP_RESEND_COOLDOWN_MS = 60 * 1000;
+
+export interface StoredOtp extends OtpChallenge {
+	email: string;
+	codeHash: string;
+	attempts: number;
+}
+
+export interface OtpStoreOptions {
+	ttlMs?: number;
+	maxAttempts?: number;
+	resendCooldownMs?: number;
+}
+
+const hashCode = (code: string) => toHex(sha256(encodeUtf8(code)));
+
+// Chave do código de troca de email: o mesmo email pode estar sendo pedido
+// por mais de uma conta
+export const emailChangeKey = (userId: string, email: string) =>
+	`${userId}:${normalizeEmail(email)}`;
+
+// Códigos enviados por email (recuperação de senha e troca de email),
+// compartilhados pelo backend mock e pelo servidor mock. Só o hash do código
+// fica guardado; cada código vale uma vez, expira e bloqueia depois de
+// tentativas demais.
+export class OtpStore {
+	private ttlMs: number;
+	private maxAttempts: number;
+	private resendCooldownMs: number;
+
+	constructor(
+		private createCode: () => string,
+		private otps: StoredOtp[] = [],
+		options: OtpStoreOptions = {}
+	) {
+		this.ttlMs = options.ttlMs ?? OTP_TTL_MS;
+		this.maxAttempts = options.maxAttempts ?? OTP_MAX_ATTEMPTS;
+		this.resendCooldownMs =
+			options.resendCooldownMs ?? OTP_RESEND_COOLDOWN_MS;
+	}
+
+	// Novo código para o email, ou null se ainda estiver no intervalo de
+	// reenvio (o desafio atual continua valendo)
+	issue(email: string): { code: string | null; challenge: OtpChallenge } {
+		const now = Date.now();
+		const normalized = normalizeEmail(email);
+		const current = this.find(normalized);
+
+		if (current && current.resendAvailableAt > now) {
+			return { code: null, challenge: this.toChallenge(current) };
+		}
+
+		const code = this.createCode();
+		const otp: StoredOtp = {
+			email: normalized,
+			codeHash: hashCode(code),
+			attempts: 0,
+			expiresAt: now + this.ttlMs,
+			resendAvailableAt: now + this.resendCooldownMs,
+		};
+
+		this.otps = [
+			...this.otps.filter(
+				(item) => item.email !== normalized && item.expiresAt > now
+			),
+			otp,
+		];
+		return { code, challenge: this.toChallenge(otp) };
+	}
+
+	// Confere e consome o código; erros trazem o motivo da recusa
+	verify(email: string, code: string) {
+		const otp = this.find(normalizeEmail(email));
+
+		if (!otp || otp.expiresAt <= Date.now()) {
+			throw new AuthError("OTP_EXPIRED");
+		}
+		if (otp.attempts >= this.maxAttempts) {
+			throw new AuthError("OTP_LOCKED");
+		}
+
+		if (!safeEqual(hashCode(code), otp.codeHash)) {
+			otp.attempts += 1;
+			const remaining = this.maxAttempts - otp.attempts;
+			if (remaining === 0) {
+				throw new AuthError("OTP_LOCKED");
+			}
+			const label =
+				remaining === 1 ? "tentativa restante" : "tentativas restantes";
+			throw new AuthError(
+				"OTP_INVALID",
+				`Código inválido. ${remaining} ${label}.`
+			);
+		}
+
+		this.otps = this.otps.filter((item) => item !== otp);
+	}
+
+	private find(email: string) {
+		return this.otps.find((item) => item.email === email);
+	}
+
+	private toChallenge({ expiresAt, resendAvailableAt }: StoredOtp) {
+		return { expiresAt, resendAvailableAt };
+	}
+}
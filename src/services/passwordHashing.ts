@@ -0,0 +1,111 @@
+// Hash de senhas com PBKDF2-HMAC-SHA256, compartilhado pelo backend mock e
+// pelo servidor mock. Formato salvo:
+// "pbkdf2_sha256$<iterações>$<salt hex>$<hash hex>"
+import {
+	concat,
+	createHmac,
+	encodeUtf8,
+	fromHex,
+	safeEqual,
+	toHex,
+} from "./sha256";
+
+const ALGORITHM = "pbkdf2_sha256";
+const DEFAULT_ITERATIONS = 10000;
+const KEY_LENGTH = 32;
+// No PBKDF2 em JS, iterações entre as pausas que devolvem a vez à interface
+const ITERATIONS_PER_SLICE = 250;
+
+const yieldToEventLoop = () =>
+	new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+// Implementação em JS para o Hermes, que não tem WebCrypto. É executada em
+// fatias para que o app continue respondendo enquanto o hash é calculado.
+const pbkdf2InSlices = async (
+	password: Uint8Array,
+	salt: Uint8Array,
+	iterations: number,
+	keyLength: number
+) => {
+	const hmac = createHmac(password);
+	const derived = new Uint8Array(keyLength);
+
+	for (let block = 1, offset = 0; offset < keyLength; block++) {
+		const index = new Uint8Array([
+			block >>> 24,
+			(block >>> 16) & 0xff,
+			(block >>> 8) & 0xff,
+			block & 0xff,
+		]);
+
+		let u = hmac(concat(salt, index));
+		const t = u.slice();
+		for (let i = 1; i < iterations; i++) {
+			if (i % ITERATIONS_PER_SLICE === 0) await yieldToEventLoop();
+			u = hmac(u);
+			for (let j = 0; j < t.length; j++) t[j] ^= u[j];
+		}
+
+		derived.set(t.subarray(0, keyLength - offset), offset);
+		offset += t.length;
+	}
+
+	return derived;
+};
+
+// PBKDF2 nativo do WebCrypto (servidor mock e web), fora da thread do JS
+const pbkdf2Native = async (
+	subtle: SubtleCrypto,
+	password: Uint8Array,
+	salt: Uint8Array,
+	iterations: number,
+	keyLength: number
+) => {
+	const key = await subtle.importKey("raw", password, "PBKDF2", false, [
+		"deriveBits",
+	]);
+	const bits = await subtle.deriveBits(
+		{ name: "PBKDF2", hash: "SHA-256", salt, iterations },
+		key,
+		keyLength * 8
+	);
+	return new Uint8Array(bits);
+};
+
+const pbkdf2 = (
+	password: Uint8Array,
+	salt: Uint8Array,
+	iterations: number,
+	keyLength: number
+) => {
+	const subtle = globalThis.crypto?.subtle;
+	return subtle
+		? pbkdf2Native(subtle, password, salt, iterations, keyLength)
+		: pbkdf2InSlices(password, salt, iterations, keyLength);
+};
+
+// "salt" em hexadecimal: cada ambiente o gera com a fonte aleatória que tem
+export const hashPassword = async (
+	password: string,
+	salt: string,
+	iterations: number = DEFAULT_ITERATIONS
+) => {
+	const hash = await pbkdf2(
+		encodeUtf8(password),
+		fromHex(salt),
+		iterations,
+		KEY_LENGTH
+	);
+	return `${ALGORITHM}$${iterations}$${salt}$${toHex(hash)}`;
+};
+
+export const verifyPassword = async (password: string, stored: string) => {
+	const [algorithm, iterations, salt] = stored.split("$");
+	if (algorithm !== ALGORITHM || !salt || !Number(iterations)) {
+		return false;
+	}
+	return safeEqual(
+		await hashPassword(password, salt, Number(iterations)),
+		stored
+	);
+};
@@ -0,0 +1,338 @@
+import { faker } from "@faker-js/faker";
+import {
+	Product,
+	PaginatedResponse,
+	CursorPage,
+	ProductFilters,
+	ProductQuery,
+	ProductCursorQuery,
+	ProductSort,
+} from "../types";
+import { NewProductData, ProductChanges } from "./backend";
+import { SearchIndex } from "./searchIndex";
+import { withProductImages } from "./productImages";
+
+export const DEFAULT_PAGE_SIZE = 10;
+// Ids aceitos por consulta em lote
+export const MAX_BATCH_IDS = 100;
+
+export const paginate = <T>(
+	items: T[],
+	page: number,
+	limit: number
+): PaginatedResponse<T> => {
+	const startIndex = (page - 1) * limit;
+	const endIndex = startIndex + limit;
+
+	return {
+		data: items.slice(startIndex, endIndex),
+		page,
+		limit,
+		total: items.length,
+		totalPages: Math.ceil(items.length / limit),
+	};
+};
+
+const comparators = {
+	newest: (a: Product, b: Product) =>
+		new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
+	price_asc: (a: Product, b: Product) => a.price - b.price,
+	price_desc: (a: Product, b: Product) => b.price - a.price,
+	name: (a: Product, b: Product) => a.name.localeCompare(b.name, "pt-BR"),
+};
+
+// Aplicar filtros e ordenação; sem "sort" mantém a ordem do catálogo
+export const applyProductFilters = (
+	products: Product[],
+	filters: ProductFilters
+): Product[] => {
+	const createdAfter = filters.createdAfter
+		? new Date(filters.createdAfter).getTime()
+		: undefined;
+
+	const filtered = products.filter(
+		(product) =>
+			(!filters.category || product.category === filters.category) &&
+			(filters.minPrice === undefined ||
+				product.price >= filters.minPrice) &&
+			(filters.maxPrice === undefined ||
+				product.price <= filters.maxPrice) &&
+			(!filters.inStockOnly || product.inStock) &&
+			(!filters.sellerId || product.sellerId === filters.sellerId) &&
+			(createdAfter === undefined ||
+				new Date(product.createdAt).getTime() >= createdAfter)
+	);
+
+	return filters.sort ? filtered.sort(comparators[filters.sort]) : filtered;
+};
+
+// Chave de ordenação usada na paginação por cursor (keyset). "seq" é a
+// posição de inserção no catálogo e desempata valores iguais.
+interface SortKey {
+	value: number | string;
+	seq: number;
+}
+
+export class InvalidCursorError extends Error {
+	constructor() {
+		super("Cursor de paginação inválido");
+		this.name = "InvalidCursorError";
+	}
+}
+
+const encodeCursor = (key: SortKey) =>
+	btoa(encodeURIComponent(JSON.stringify(key)));
+
+const decodeCursor = (cursor: string): SortKey => {
+	try {
+		const key = JSON.parse(decodeURIComponent(atob(cursor)));
+		if (typeof key.seq === "number" && key.value !== undefined) {
+			return key;
+		}
+	} catch {
+		// tratado abaixo
+	}
+	throw new InvalidCursorError();
+};
+
+const isAscending = (sort?: ProductSort) =>
+	sort === "price_asc" || sort === "name";
+
+// Ordem total: valor principal e, em caso de empate, o mais recente no catálogo
+const compareKeys = (a: SortKey, b: SortKey, ascending: boolean) => {
+	const order =
+		typeof a.value === "string" && typeof b.value === "string"
+			? a.value.localeCompare(b.value, "pt-BR")
+			: Number(a.value) - Number(b.value);
+
+	if (order !== 0) {
+		return ascending ? order : -order;
+	}
+	return b.seq - a.seq;
+};
+
+// Catálogo em memória compartilhado pelo backend mock e pelo servidor mock.
+// "createId" gera os ids dos produtos cadastrados.
+export class ProductCatalog {
+	private byId = new Map<string, Product>();
+	private sequence = new Map<string, number>();
+	private lastSequence = 0;
+	private index: SearchIndex;
+
+	constructor(
+		private products: Product[],
+		private createId: () => string = () => faker.string.uuid()
+	) {
+		products.forEach((product) => this.byId.set(product.id, product));
+		// O primeiro item do catálogo é o mais recente
+		[...products]
+			.reverse()
+			.forEach((product) =>
+				this.sequence.set(product.id, ++this.lastSequence)
+			);
+		this.index = new SearchIndex(products);
+	}
+
+	private sortKey(
+		product: Product,
+		sort: ProductSort | undefined,
+		score: number | undefined
+	): SortKey {
+		const seq = this.sequence.get(product.id) ?? 0;
+
+		switch (sort) {
+			case "newest":
+				return { value: new Date(product.createdAt).getTime(), seq };
+			case "price_asc":
+			case "price_desc":
+				return { value: product.price, seq };
+			case "name":
+				return { value: product.name, seq };
+			default:
+				// Busca: relevância; listagem: ordem do catálogo
+				return { value: score ?? 0, seq };
+		}
+	}
+
+	// Paginação por cursor: itens inseridos depois não deslocam as páginas
+	listPage(query: ProductCursorQuery = {}): CursorPage<Product> {
+		const {
+			search,
+			cursor,
+			limit = DEFAULT_PAGE_SIZE,
+			sort,
+			...filters
+		} = query;
+
+		const scores = new Map<string, number>();
+		let candidates = this.products;
+
+		if (search?.trim()) {
+			const hits = this.index.search(search);
+			hits.forEach((hit) => scores.set(hit.id, hit.score));
+			candidates = hits
+				.map((hit) => this.byId.get(hit.id))
+				.filter((product): product is Product => !!product);
+		}
+
+		const ascending = isAscending(sort);
+		const keyed = applyProductFilters(candidates, filters)
+			.map((product) => ({
+				product,
+				key: this.sortKey(product, sort, scores.get(product.id)),
+			}))
+			.sort((a, b) => compareKeys(a.key, b.key, ascending));
+
+		let start = 0;
+		if (cursor) {
+			const after = decodeCursor(cursor);
+			start = keyed.findIndex(
+				(item) => compareKeys(item.key, after, ascending) > 0
+			);
+			if (start === -1) start = keyed.length;
+		}
+
+		const pageItems = keyed.slice(start, start + limit);
+		const hasMore = start + limit < keyed.length;
+
+		return {
+			data: pageItems.map((item) => item.product),
+			nextCursor:
+				hasMore && pageItems.length > 0
+					? encodeCursor(pageItems[pageItems.length - 1].key)
+					: null,
+			total: keyed.length,
+		};
+	}
+
+	list(query: ProductQuery = {}): PaginatedResponse<Product> {
+		const { page = 1, limit = DEFAULT_PAGE_SIZE, ...filters } = query;
+		return paginate(
+			applyProductFilters(this.products, filters),
+			page,
+			limit
+		);
+	}
+
+	get(id: string): Product | null {
+		return this.byId.get(id) || null;
+	}
+
+	getMany(ids: string[]): Product[] {
+		return ids
+			.map((id) => this.byId.get(id))
+			.filter((product): product is Product => !!product);
+	}
+
+	add(productData: NewProductData, sellerId?: string): Product {
+		const newProduct: Product = {
+			...withProductImages(productData),
+			id: this.createId(),
+			sellerId,
+			createdAt: new Date(),
+			updatedAt: new Date(),
+		};
+
+		this.insert(newProduct);
+		return newProduct;
+	}
+
+	// Produto já existente que não veio na geração do catálogo (backend mock
+	// reaberto). Entra como o mais recente; ids conhecidos são ignorados.
+	restore(product: Product) {
+		if (this.byId.has(product.id)) return;
+		this.insert(withProductImages(product));
+	}
+
+	private insert(product: Product) {
+		this.products.unshift(product);
+		this.byId.set(product.id, product);
+		this.sequence.set(product.id, ++this.lastSequence);
+		this.index.add(product);
+	}
+
+	// A posição no catálogo não muda com a edição
+	update(id: string, changes: ProductChanges): Product | null {
+		const current = this.byId.get(id);
+		if (!current || current.archivedAt) return null;
+
+		const updated: Product = {
+			...withProductImages({ ...current, ...changes }),
+			id,
+			createdAt: current.createdAt,
+			updatedAt: new Date(),
+		};
+
+		this.products[this.products.indexOf(current)] = updated;
+		this.byId.set(id, updated);
+		this.index.add(updated);
+		return updated;
+	}
+
+	// Sai das listagens, da busca e das categorias; "get" ainda o encontra
+	archive(id: string): Product | null {
+		const current = this.byId.get(id);
+		if (!current || current.archivedAt) return null;
+
+		const archived: Product = {
+			...current,
+			archivedAt: new Date(),
+			updatedAt: new Date(),
+		};
+
+		this.products.splice(this.products.indexOf(current), 1);
+		this.byId.set(id, archived);
+		this.index.remove(id);
+		return archived;
+	}
+
+	// Produtos de um vendedor que excluiu a conta
+	archiveBySeller(sellerId: string): Product[] {
+		return this.products
+			.filter((product) => product.sellerId === sellerId)
+			.map((product) => this.archive(product.id)!);
+	}
+
+	search(text: string, query: ProductQuery = {}): PaginatedResponse<Product> {
+		const { page = 1, limit = DEFAULT_PAGE_SIZE, ...filters } = query;
+		// Resultados já vêm ordenados por relevância; "sort" sobrescreve
+		const matches = this.index
+			.search(text)
+			.map((hit) => this.byId.get(hit.id))
+			.filter((product): product is Product => !!product);
+
+		return paginate(applyProductFilters(matches, filters), page, limit);
+	}
+
+	// Nomes de produtos para autocompletar a busca
+	suggest(text: string, limit: number = 5): string[] {
+		const names = new Set<string>();
+
+		for (const hit of this.index.search(text, { namesOnly: true })) {
+			const product = this.byId.get(hit.id);
+			if (product) names.add(product.name);
+			if (names.size >= limit) break;
+		}
+
+		return Array.from(names);
+	}
+
+	// Categorias com mais produtos no catálogo
+	popularCategories(limit: number = 6): string[] {
+		const counts = new Map<string, number>();
+		this.products.forEach(({ category }) =>
+			counts.set(category, (counts.get(category) ?? 0) + 1)
+		);
+
+		return Array.from(counts)
+			.sort((a, b) => b[1] - a[1])
+			.slice(0, limit)
+			.map(([category]) => category);
+	}
+
+	categories(): string[] {
+		return Array.from(
+			new Set(this.products.map((product) => product.category))
+		).sort((a, b) => a.localeCompare(b, "pt-BR"));
+	}
+}
@@ -0,0 +1,36 @@
+import { Product } from "../types";
+
+// Fotos por produto aceitas no cadastro e na edição
+export const MAX_PRODUCT_IMAGES = 8;
+
+type ProductImages = Pick<Product, "image" | "images">;
+
+// A capa é sempre a primeira foto. Produtos de antes das várias fotos só
+// têm "image", que vira uma lista com uma foto.
+export const withProductImages = <T extends Partial<ProductImages>>(
+	data: T
+): T & ProductImages => {
+	const images = data.images?.length
+		? data.images
+		: data.image
+		? [data.image]
+		: [];
+	return { ...data, images, image: images[0] ?? "" };
+};
+
+const hasOnlyCover = (value: unknown): value is { image: string } =>
+	typeof value === "object" &&
+	value !== null &&
+	typeof (value as { image?: unknown }).image === "string" &&
+	!Array.isArray((value as { images?: unknown }).images);
+
+// Reviver de JSON.parse que completa os produtos salvos no formato antigo
+export const reviveProductImages = (_key: string, value: unknown) =>
+	hasOnlyCover(value) ? withProductImages(value) : value;
+
+// Lista de fotos válida vinda de fora (corpo de requisição)
+export const isProductImageList = (value: unknown): value is string[] =>
+	Array.isArray(value) &&
+	value.length > 0 &&
+	value.length <= MAX_PRODUCT_IMAGES &&
+	value.every((uri) => typeof uri === "string" && uri.length > 0);
@@ -0,0 +1,304 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { Product } from "../types";
+import { MyProductsService, ProductService } from "./api";
+import { NewProductData } from "./backend";
+import { connectivity } from "./connectivity";
+import { ApiError } from "./errors";
+import { reviveStoredData } from "./httpClient";
+import { deleteProductPhoto, keepProductPhoto } from "./productPhotos";
+import { userStorageKey } from "./userStorage";
+
+const MAX_ATTEMPTS = 5;
+const BASE_RETRY_DELAY_MS = 5 * 1000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+export type OutboxStatus = "pending" | "syncing" | "failed";
+
+// Criação de produto aguardando envio ao servidor
+export interface OutboxEntry {
+	id: string;
+	data: NewProductData;
+	status: OutboxStatus;
+	attempts: number;
+	nextAttemptAt: number;
+	lastError?: string;
+	// Produto já criado no catálogo, faltando salvar em "Meus Produtos"
+	createdProduct?: Product;
+	createdAt: number;
+}
+
+type OutboxListener = (entries: OutboxEntry[]) => void;
+
+const retryDelay = (attempts: number) =>
+	Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+
+// Erros de validação do servidor não se resolvem tentando de novo
+const isRetryable = (error: unknown) =>
+	!(error instanceof ApiError && error.status >= 400 && error.status < 500);
+
+// Fila persistente de produtos criados pela câmera. Sobrevive ao fechamento do
+// app e reenvia com espera exponencial até o servidor aceitar. Cada conta tem
+// a própria fila; só a da conta logada é enviada.
+export class ProductOutbox {
+	private userId: string | null = null;
+	private entries: OutboxEntry[] = [];
+	private loaded: Promise<void> | null = null;
+	private listeners = new Set<OutboxListener>();
+	private timer: ReturnType<typeof setTimeout> | null = null;
+	private processing: Promise<void> | null = null;
+
+	// Carregar a fila salva e reenviar ao reconectar
+	start() {
+		connectivity.subscribe((online) => {
+			if (online) this.process();
+		});
+		return this.process();
+	}
+
+	// Trocar para a fila da conta logada (null ao sair)
+	setUser(userId: string | null) {
+		if (userId === this.userId) return Promise.resolve();
+
+		if (this.timer) clearTimeout(this.timer);
+		this.timer = null;
+		this.userId = userId;
+		this.entries = [];
+		this.loaded = null;
+		this.listeners.forEach((listener) => listener([]));
+		return this.process();
+	}
+
+	async getEntries(): Promise<OutboxEntry[]> {
+		await this.load();
+		return this.entries;
+	}
+
+	subscribe(listener: OutboxListener) {
+		this.listeners.add(listener);
+		return () => {
+			this.listeners.delete(listener);
+		};
+	}
+
+	// Enfileira o produto e tenta enviá-lo na hora. Retorna o produto criado
+	// ou null se ele ficou na fila para uma nova tentativa.
+	async submit(data: NewProductData): Promise<Product | null> {
+		await this.load();
+
+		const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+		const images = await Promise.all(
+			data.images.map((uri, index) =>
+				keepProductPhoto(`${id}-${index}`, uri)
+			)
+		);
+		const entry: OutboxEntry = {
+			id,
+			data: { ...data, images },
+			status: "syncing",
+			attempts: 0,
+			nextAttemptAt: Date.now(),
+			createdAt: Date.now(),
+		};
+
+		await this.update([entry, ...this.entries]);
+		return this.send(entry);
+	}
+
+	async retry(id: string) {
+		await this.load();
+		await this.patch(id, {
+			status: "pending",
+			attempts: 0,
+			nextAttemptAt: Date.now(),
+		});
+		return this.process();
+	}
+
+	async discard(id: string) {
+		await this.load();
+		const entry = this.entries.find((item) => item.id === id);
+		if (!entry || entry.status === "syncing") return;
+
+		await this.update(this.entries.filter((item) => item.id !== id));
+		if (!entry.createdProduct) {
+			await Promise.all(entry.data.images.map(deleteProductPhoto));
+		}
+	}
+
+	// Descartar a fila inteira da conta, junto com as fotos guardadas
+	async clear() {
+		await this.load();
+		const photos = this.entries
+			.filter((entry) => !entry.createdProduct)
+			.flatMap((entry) => entry.data.images);
+
+		await this.update([]);
+		await Promise.all(photos.map((uri) => deleteProductPhoto(uri)));
+	}
+
+	// Envia as entradas cuja próxima tentativa já venceu
+	process(): Promise<void> {
+		if (!this.processing) {
+			this.processing = this.processDue().finally(() => {
+				this.processing = null;
+				this.schedule();
+			});
+		}
+		return this.processing;
+	}
+
+	private async processDue() {
+		await this.load();
+		const due = this.entries.filter(
+			(entry) =>
+				entry.status === "pending" && entry.nextAttemptAt <= Date.now()
+		);
+
+		for (const { id } of due) {
+			// Pode ter sido descartada ou reenviada enquanto a fila andava
+			const entry = this.entries.find((item) => item.id === id);
+			if (entry?.status === "pending") await this.send(entry);
+		}
+	}
+
+	private async send(entry: OutboxEntry): Promise<Product | null> {
+		const userId = this.userId;
+		await this.patch(entry.id, { status: "syncing" });
+
+		try {
+			const product =
+				entry.createdProduct ??
+				(await ProductService.addProduct(entry.data));
+
+			// A conta mudou durante o envio: a entrada volta para a fila dela,
+			// já com o produto criado, para não ser criado de novo
+			if (this.userId !== userId) {
+				if (userId) {
+					await this.patchStored(userId, entry.id, {
+						createdProduct: product,
+					});
+				}
+				return null;
+			}
+			await this.patch(entry.id, { createdProduct: product });
+
+			await MyProductsService.addMyProduct(product);
+			await this.update(
+				this.entries.filter((item) => item.id !== entry.id)
+			);
+			return product;
+		} catch (error) {
+			const current = this.entries.find((item) => item.id === entry.id);
+			const attempts = (current?.attempts ?? 0) + 1;
+			const failed = !isRetryable(error) || attempts >= MAX_ATTEMPTS;
+
+			await this.patch(entry.id, {
+				status: failed ? "failed" : "pending",
+				attempts,
+				nextAttemptAt: Date.now() + retryDelay(attempts),
+				lastError:
+					error instanceof Error ? error.message : String(error),
+			});
+			this.schedule();
+			return null;
+		}
+	}
+
+	// Agendar a próxima tentativa pendente
+	private schedule() {
+		if (this.timer) clearTimeout(this.timer);
+		this.timer = null;
+
+		const next = Math.min(
+			...this.entries
+				.filter((entry) => entry.status === "pending")
+				.map((entry) => entry.nextAttemptAt)
+		);
+		if (Number.isFinite(next)) {
+			this.timer = setTimeout(
+				() => this.process(),
+				Math.max(0, next - Date.now())
+			);
+		}
+	}
+
+	private load() {
+		if (!this.loaded) {
+			this.loaded = this.readEntries();
+		}
+		return this.loaded;
+	}
+
+	private async readStored(userId: string): Promise<OutboxEntry[]> {
+		const data = await AsyncStorage.getItem(
+			userStorageKey("product_outbox", userId)
+		);
+		return data ? JSON.parse(data, reviveStoredData) : [];
+	}
+
+	private async readEntries() {
+		const userId = this.userId;
+		this.entries = [];
+		if (!userId) return;
+
+		try {
+			const entries = await this.readStored(userId);
+			if (this.userId !== userId) return;
+
+			// Envios interrompidos pelo fechamento do app voltam para a fila
+			this.entries = entries.map((entry) =>
+				entry.status === "syncing"
+					? { ...entry, status: "pending" }
+					: entry
+			);
+		} catch (error) {
+			console.error("Erro ao carregar fila de envio:", error);
+		}
+	}
+
+	private patch(id: string, changes: Partial<OutboxEntry>) {
+		return this.update(
+			this.entries.map((entry) =>
+				entry.id === id ? { ...entry, ...changes } : entry
+			)
+		);
+	}
+
+	// Altera uma entrada salva de outra conta, fora da fila em memória
+	private async patchStored(
+		userId: string,
+		id: string,
+		changes: Partial<OutboxEntry>
+	) {
+		try {
+			const entries = await this.readStored(userId);
+			await AsyncStorage.setItem(
+				userStorageKey("product_outbox", userId),
+				JSON.stringify(
+					entries.map((entry) =>
+						entry.id === id ? { ...entry, ...changes } : entry
+					)
+				)
+			);
+		} catch (error) {
+			console.error("Erro ao salvar fila de envio:", error);
+		}
+	}
+
+	private async update(entries: OutboxEntry[]) {
+		this.entries = entries;
+		this.listeners.forEach((listener) => listener(entries));
+		if (!this.userId) return;
+
+		try {
+			await AsyncStorage.setItem(
+				userStorageKey("product_outbox", this.userId),
+				JSON.stringify(entries)
+			);
+		} catch (error) {
+			console.error("Erro ao salvar fila de envio:", error);
+		}
+	}
+}
+
+export const productOutbox = new ProductOutbox();
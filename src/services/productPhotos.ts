@@ -0,0 +1,36 @@
+import * as FileSystem from "expo-file-system";
+
+// Fotos de produtos tiradas ou escolhidas no aparelho. O diretório guarda
+// também as fotos da fila de envio, que começou usando-o.
+const PHOTOS_DIRECTORY = `${FileSystem.documentDirectory}outbox/`;
+
+// Copiar a foto para o diretório do app: o cache da câmera pode ser limpo
+export const keepProductPhoto = async (name: string, uri: string) => {
+	if (!uri.startsWith("file://") || !FileSystem.documentDirectory) {
+		return uri;
+	}
+	if (uri.startsWith(PHOTOS_DIRECTORY)) return uri;
+
+	try {
+		await FileSystem.makeDirectoryAsync(PHOTOS_DIRECTORY, {
+			intermediates: true,
+		});
+		const extension = uri.split(".").pop() || "jpg";
+		const destination = `${PHOTOS_DIRECTORY}${name}.${extension}`;
+		await FileSystem.copyAsync({ from: uri, to: destination });
+		return destination;
+	} catch (error) {
+		console.error("Erro ao salvar foto do produto:", error);
+		return uri;
+	}
+};
+
+// Fotos fora do diretório do app não são apagadas
+export const deleteProductPhoto = async (uri: string) => {
+	if (!uri.startsWith(PHOTOS_DIRECTORY)) return;
+	try {
+		await FileSystem.deleteAsync(uri, { idempotent: true });
+	} catch (error) {
+		console.error("Erro ao remover foto do produto:", error);
+	}
+};
@@ -0,0 +1,66 @@
+import { Product } from "../types";
+import { ProductService } from "./api";
+
+export const isProductAvailable = (product: Product) => !product.archivedAt;
+
+export interface SnapshotRefresh {
+	products: Product[];
+	// Estavam disponíveis na cópia e deixaram de estar
+	newlyUnavailable: Product[];
+}
+
+const timeOf = (date?: Date | string) => (date ? new Date(date).getTime() : 0);
+
+// Produto que ficou de fora do lote: só é dado como removido se o catálogo
+// responder que ele não existe. Em caso de falha, a cópia fica como está.
+const confirmRemoved = async (snapshot: Product): Promise<Product> => {
+	try {
+		const product = await ProductService.getProduct(snapshot.id);
+		if (product) return product;
+	} catch (error) {
+		console.error("Erro ao verificar produto:", error);
+		return snapshot;
+	}
+	return snapshot.archivedAt
+		? snapshot
+		: { ...snapshot, archivedAt: new Date() };
+};
+
+// Atualiza cópias de produtos guardadas no aparelho (carrinho, favoritos)
+// com a versão atual do catálogo, na mesma ordem. Produtos que o catálogo
+// confirma não existirem mais ficam marcados como arquivados. Retorna null
+// se nada mudou.
+export const refreshProductSnapshots = async (
+	snapshots: Product[]
+): Promise<SnapshotRefresh | null> => {
+	const current = new Map(
+		(
+			await ProductService.getProductsByIds(
+				snapshots.map((product) => product.id)
+			)
+		).map((product) => [product.id, product])
+	);
+	const missing = snapshots.filter((product) => !current.has(product.id));
+	for (const product of await Promise.all(missing.map(confirmRemoved))) {
+		current.set(product.id, product);
+	}
+
+	let changed = false;
+	const newlyUnavailable: Product[] = [];
+	const products = snapshots.map((snapshot) => {
+		const product = current.get(snapshot.id)!;
+
+		if (
+			timeOf(product.updatedAt) !== timeOf(snapshot.updatedAt) ||
+			timeOf(product.archivedAt) !== timeOf(snapshot.archivedAt)
+		) {
+			changed = true;
+		}
+		if (isProductAvailable(snapshot) && !isProductAvailable(product)) {
+			newlyUnavailable.push(product);
+		}
+		return product;
+	});
+
+	return changed ? { products, newlyUnavailable } : null;
+};
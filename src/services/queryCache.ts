@@ -0,0 +1,114 @@
+import { RequestCancelledError } from "./errors";
+
+interface CacheEntry<T> {
+	data: T;
+	updatedAt: number;
+}
+
+interface InFlightRequest {
+	promise: Promise<unknown>;
+	controller: AbortController;
+	subscribers: number;
+}
+
+type InvalidationListener = (scope: string) => void;
+
+// Chave estável para uma consulta: "escopo:{parâmetros ordenados}"
+export const createQueryKey = (
+	scope: string,
+	params: Record<string, unknown> = {}
+) => `${scope}:${JSON.stringify(params, Object.keys(params).sort())}`;
+
+// Cache em memória das consultas (stale-while-revalidate) com
+// de-duplicação de requisições em andamento
+export class QueryCache {
+	private entries = new Map<string, CacheEntry<unknown>>();
+	private inFlight = new Map<string, InFlightRequest>();
+	private listeners = new Set<InvalidationListener>();
+
+	get<T>(key: string): CacheEntry<T> | undefined {
+		return this.entries.get(key) as CacheEntry<T> | undefined;
+	}
+
+	set<T>(key: string, data: T) {
+		this.entries.set(key, { data, updatedAt: Date.now() });
+	}
+
+	isStale(key: string, staleTimeMs: number) {
+		const entry = this.entries.get(key);
+		return !entry || Date.now() - entry.updatedAt > staleTimeMs;
+	}
+
+	// Marca como desatualizadas as consultas do escopo e avisa quem as exibe
+	invalidate(scope: string) {
+		this.entries.forEach((entry, key) => {
+			if (key.startsWith(`${scope}:`)) entry.updatedAt = 0;
+		});
+		this.listeners.forEach((listener) => listener(scope));
+	}
+
+	subscribe(listener: InvalidationListener) {
+		this.listeners.add(listener);
+		return () => {
+			this.listeners.delete(listener);
+		};
+	}
+
+	clear() {
+		this.entries.clear();
+	}
+
+	// Chamadas com a mesma chave compartilham a requisição em andamento.
+	// Ela só é abortada quando todos os interessados cancelam.
+	fetch<T>(
+		key: string,
+		fetcher: (signal: AbortSignal) => Promise<T>,
+		signal?: AbortSignal
+	): Promise<T> {
+		if (signal?.aborted) {
+			return Promise.reject(new RequestCancelledError());
+		}
+
+		let request = this.inFlight.get(key);
+		if (!request) {
+			const controller = new AbortController();
+			const created: InFlightRequest = {
+				controller,
+				subscribers: 0,
+				promise: fetcher(controller.signal).finally(() => {
+					if (this.inFlight.get(key) === created) {
+						this.inFlight.delete(key);
+					}
+				}),
+			};
+			this.inFlight.set(key, created);
+			request = created;
+		}
+
+		const shared = request;
+		shared.subscribers++;
+
+		// O ouvinte sai junto com a requisição: sinais reaproveitados não
+		// acumulam ouvintes
+		let onAbort = () => {};
+		return new Promise<T>((resolve, reject) => {
+			(shared.promise as Promise<T>).then(resolve, reject);
+
+			onAbort = () => {
+				reject(new RequestCancelledError());
+
+				shared.subscribers--;
+				if (
+					shared.subscribers === 0 &&
+					this.inFlight.get(key) === shared
+				) {
+					this.inFlight.delete(key);
+					shared.controller.abort();
+				}
+			};
+			signal?.addEventListener("abort", onAbort, { once: true });
+		}).finally(() => signal?.removeEventListener("abort", onAbort));
+	}
+}
+
+export const queryCache = new QueryCache();
@@ -0,0 +1,283 @@
+import {
+	Product,
+	PaginatedResponse,
+	CursorPage,
+	ProductQuery,
+	ProductCursorQuery,
+	Seller,
+	User,
+} from "../types";
+import {
+	AccessTokenProvider,
+	AuthBackend,
+	AuthResult,
+	AuthTokens,
+	Backend,
+	MyProductsBackend,
+	NewProductData,
+	OidcAuthorization,
+	OtpChallenge,
+	ProductBackend,
+	ProductChanges,
+	ProfileChanges,
+} from "./backend";
+import { ApiConfig } from "./config";
+import { ApiError, AuthError, isAuthErrorCode } from "./errors";
+import { HttpClient } from "./httpClient";
+import { MAX_BATCH_IDS } from "./productCatalog";
+
+export class RestProductBackend implements ProductBackend {
+	constructor(private http: HttpClient) {}
+
+	getProducts(query: ProductQuery): Promise<PaginatedResponse<Product>> {
+		return this.http.get("/products", { query: { ...query } });
+	}
+
+	getProductsPage(
+		query: ProductCursorQuery,
+		signal?: AbortSignal
+	): Promise<CursorPage<Product>> {
+		const { search, ...params } = query;
+		return this.http.get("/products/page", {
+			query: { ...params, q: search },
+			signal,
+		});
+	}
+
+	async getProduct(id: string): Promise<Product | null> {
+		try {
+			return await this.http.get<Product>(
+				`/products/${encodeURIComponent(id)}`
+			);
+		} catch (error) {
+			if (error instanceof ApiError && error.status === 404) {
+				return null;
+			}
+			throw error;
+		}
+	}
+
+	// O servidor atende até MAX_BATCH_IDS ids por vez
+	async getProductsByIds(ids: string[]): Promise<Product[]> {
+		const batches: string[][] = [];
+		for (let start = 0; start < ids.length; start += MAX_BATCH_IDS) {
+			batches.push(ids.slice(start, start + MAX_BATCH_IDS));
+		}
+		const pages = await Promise.all(
+			batches.map((batch) =>
+				this.http.get<Product[]>("/products/batch", {
+					query: { ids: batch.join(",") },
+				})
+			)
+		);
+		return pages.flat();
+	}
+
+	addProduct(productData: NewProductData): Promise<Product> {
+		return this.http.post("/products", { body: productData });
+	}
+
+	updateProduct(id: string, changes: ProductChanges): Promise<Product> {
+		return this.http.patch(`/products/${encodeURIComponent(id)}`, {
+			body: changes,
+		});
+	}
+
+	archiveProduct(id: string): Promise<Product> {
+		return this.http.delete(`/products/${encodeURIComponent(id)}`);
+	}
+
+	searchProducts(
+		text: string,
+		query: ProductQuery
+	): Promise<PaginatedResponse<Product>> {
+		return this.http.get("/products/search", {
+			query: { ...query, q: text },
+		});
+	}
+
+	getCategories(): Promise<string[]> {
+		return this.http.get("/categories");
+	}
+
+	getSearchSuggestions(text: string, limit: number): Promise<string[]> {
+		return this.http.get("/products/suggestions", {
+			query: { q: text, limit },
+		});
+	}
+
+	getPopularCategories(limit: number): Promise<string[]> {
+		return this.http.get("/categories/popular", { query: { limit } });
+	}
+}
+
+// Converter códigos de erro de autenticação do servidor em AuthError
+const toAuthError = (error: unknown) =>
+	error instanceof ApiError && isAuthErrorCode(error.code)
+		? new AuthError(error.code, error.message)
+		: error;
+
+export class RestAuthBackend implements AuthBackend {
+	constructor(private http: HttpClient) {}
+
+	private async call<T>(request: Promise<T>): Promise<T> {
+		try {
+			return await request;
+		} catch (error) {
+			throw toAuthError(error);
+		}
+	}
+
+	login(email: string, password: string): Promise<AuthResult> {
+		return this.call(
+			this.http.post("/auth/login", {
+				body: { email, password },
+				authenticate: false,
+			})
+		);
+	}
+
+	loginWithOidc(authorization: OidcAuthorization): Promise<AuthResult> {
+		return this.call(
+			this.http.post("/auth/oidc", {
+				body: authorization,
+				authenticate: false,
+			})
+		);
+	}
+
+	register(userData: {
+		name: string;
+		email: string;
+		password: string;
+	}): Promise<AuthResult> {
+		return this.call(
+			this.http.post("/auth/register", {
+				body: userData,
+				authenticate: false,
+			})
+		);
+	}
+
+	sendResetPasswordOTP(email: string): Promise<OtpChallenge> {
+		return this.http.post("/auth/password-reset/otp", {
+			body: { email },
+			authenticate: false,
+		});
+	}
+
+	async resetPassword(
+		email: string,
+		otp: string,
+		newPassword: string
+	): Promise<void> {
+		await this.call(
+			this.http.post("/auth/password-reset", {
+				body: { email, otp, newPassword },
+				authenticate: false,
+			})
+		);
+	}
+
+	requestEmailChange(newEmail: string): Promise<OtpChallenge> {
+		return this.call(
+			this.http.post("/me/email", { body: { email: newEmail } })
+		);
+	}
+
+	confirmEmailChange(newEmail: string, otp: string): Promise<User> {
+		return this.call(
+			this.http.post("/me/email/confirm", {
+				body: { email: newEmail, otp },
+			})
+		);
+	}
+
+	updateProfile(changes: ProfileChanges): Promise<User> {
+		return this.call(this.http.patch("/me", { body: changes }));
+	}
+
+	changePassword(
+		currentPassword: string,
+		newPassword: string
+	): Promise<AuthTokens> {
+		return this.call(
+			this.http.post("/me/password", {
+				body: { currentPassword, newPassword },
+			})
+		);
+	}
+
+	async deleteAccount(password: string): Promise<void> {
+		await this.call(this.http.delete("/me", { body: { password } }));
+	}
+
+	refreshSession(refreshToken: string): Promise<AuthTokens> {
+		return this.call(
+			this.http.post("/auth/refresh", {
+				body: { refreshToken },
+				authenticate: false,
+			})
+		);
+	}
+
+	getCurrentUser(): Promise<User> {
+		return this.call(this.http.get("/auth/me"));
+	}
+
+	async getSeller(userId: string): Promise<Seller | null> {
+		try {
+			return await this.http.get<Seller>(
+				`/sellers/${encodeURIComponent(userId)}`
+			);
+		} catch (error) {
+			if (error instanceof ApiError && error.status === 404) {
+				return null;
+			}
+			throw error;
+		}
+	}
+
+	async logout(refreshToken: string): Promise<void> {
+		await this.http.post("/auth/logout", {
+			body: { refreshToken },
+			authenticate: false,
+		});
+	}
+}
+
+export class RestMyProductsBackend implements MyProductsBackend {
+	constructor(private http: HttpClient) {}
+
+	getMyProducts(): Promise<Product[]> {
+		return this.http.get("/me/products");
+	}
+
+	async addMyProduct(product: Product): Promise<void> {
+		await this.http.post("/me/products", {
+			body: { productId: product.id },
+		});
+	}
+
+	// O servidor atualiza a lista junto com o catálogo
+	async updateMyProduct(): Promise<void> {}
+
+	async removeMyProduct(productId: string): Promise<void> {
+		await this.http.delete(
+			`/me/products/${encodeURIComponent(productId)}`
+		);
+	}
+}
+
+export const createRestBackend = (
+	config: ApiConfig,
+	auth: AccessTokenProvider
+): Backend => {
+	const http = new HttpClient(config.baseUrl, config.timeoutMs, auth);
+
+	return {
+		products: new RestProductBackend(http),
+		auth: new RestAuthBackend(http),
+		myProducts: new RestMyProductsBackend(http),
+	};
+};
@@ -0,0 +1,55 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { foldText } from "./searchIndex";
+import { userStorageKey } from "./userStorage";
+
+const MAX_RECENT_SEARCHES = 10;
+
+// Buscas recentes salvas por usuário
+class SearchHistoryService {
+	private static storageKey(userId: string) {
+		return userStorageKey("recent_searches", userId);
+	}
+
+	static async getRecentSearches(userId: string): Promise<string[]> {
+		try {
+			const data = await AsyncStorage.getItem(this.storageKey(userId));
+			return data ? JSON.parse(data) : [];
+		} catch (error) {
+			console.error("Erro ao carregar buscas recentes:", error);
+			return [];
+		}
+	}
+
+	static async addRecentSearch(
+		userId: string,
+		query: string
+	): Promise<string[]> {
+		const recentSearches = await this.getRecentSearches(userId);
+		const updated = [
+			query,
+			...recentSearches.filter(
+				(item) => foldText(item) !== foldText(query)
+			),
+		].slice(0, MAX_RECENT_SEARCHES);
+
+		try {
+			await AsyncStorage.setItem(
+				this.storageKey(userId),
+				JSON.stringify(updated)
+			);
+		} catch (error) {
+			console.error("Erro ao salvar busca recente:", error);
+		}
+		return updated;
+	}
+
+	static async clearRecentSearches(userId: string): Promise<void> {
+		try {
+			await AsyncStorage.removeItem(this.storageKey(userId));
+		} catch (error) {
+			console.error("Erro ao limpar buscas recentes:", error);
+		}
+	}
+}
+
+export { SearchHistoryService };
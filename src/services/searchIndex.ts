@@ -0,0 +1,199 @@
+import { Product } from "../types";
+
+// Remover acentos/diacríticos e normalizar para minúsculas ("Café" -> "cafe")
+export const foldText = (text: string) =>
+	text
+		.normalize("NFD")
+		.replace(/[\u0300-\u036f]/g, "")
+		.toLowerCase();
+
+export const tokenize = (text: string) =>
+	foldText(text)
+		.split(/[^a-z0-9]+/)
+		.filter(Boolean);
+
+// Peso por campo: nome > categoria > descrição
+const FIELD_WEIGHTS = {
+	name: 3,
+	category: 2,
+	description: 1,
+} as const;
+
+const EXACT_MATCH = 1;
+const PREFIX_MATCH = 0.7;
+const TYPO_MATCH = 0.5;
+
+const MIN_PREFIX_LENGTH = 2;
+
+// Distância de edição tolerada conforme o tamanho do termo buscado
+const maxTyposFor = (length: number) => (length >= 8 ? 2 : length >= 4 ? 1 : 0);
+
+// Distância de edição (Damerau-Levenshtein restrita: transposição conta 1)
+// com parada antecipada ao exceder "max"
+export const editDistance = (a: string, b: string, max: number) => {
+	if (Math.abs(a.length - b.length) > max) return max + 1;
+
+	let beforePrevious: number[] = [];
+	let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+	let previousMin = 0;
+
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i];
+		let rowMin = i;
+
+		for (let j = 1; j <= b.length; j++) {
+			const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+			current[j] = Math.min(
+				previous[j] + 1,
+				current[j - 1] + 1,
+				previous[j - 1] + cost
+			);
+
+			if (
+				i > 1 &&
+				j > 1 &&
+				a[i - 1] === b[j - 2] &&
+				a[i - 2] === b[j - 1]
+			) {
+				current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+			}
+
+			rowMin = Math.min(rowMin, current[j]);
+		}
+
+		// Uma transposição ainda pode reaproveitar a linha anterior
+		if (rowMin > max && previousMin > max) return max + 1;
+		beforePrevious = previous;
+		previous = current;
+		previousMin = rowMin;
+	}
+
+	return previous[b.length];
+};
+
+export interface SearchHit {
+	id: string;
+	score: number;
+}
+
+export interface SearchOptions {
+	// Considerar apenas correspondências no nome (usado no autocompletar)
+	namesOnly?: boolean;
+}
+
+// Índice invertido do catálogo para busca textual ranqueada
+export class SearchIndex {
+	// termo -> (id do produto -> peso do campo mais relevante)
+	private postings = new Map<string, Map<string, number>>();
+	private documentTerms = new Map<string, Set<string>>();
+
+	constructor(products: Product[] = []) {
+		products.forEach((product) => this.add(product));
+	}
+
+	add(product: Product) {
+		this.remove(product.id);
+
+		const terms = new Set<string>();
+		(Object.keys(FIELD_WEIGHTS) as (keyof typeof FIELD_WEIGHTS)[]).forEach(
+			(field) => {
+				tokenize(product[field]).forEach((term) => {
+					terms.add(term);
+
+					let documents = this.postings.get(term);
+					if (!documents) {
+						documents = new Map();
+						this.postings.set(term, documents);
+					}
+					documents.set(
+						product.id,
+						Math.max(
+							documents.get(product.id) ?? 0,
+							FIELD_WEIGHTS[field]
+						)
+					);
+				});
+			}
+		);
+
+		this.documentTerms.set(product.id, terms);
+	}
+
+	remove(id: string) {
+		const terms = this.documentTerms.get(id);
+		if (!terms) return;
+
+		terms.forEach((term) => {
+			const documents = this.postings.get(term);
+			documents?.delete(id);
+			if (documents && documents.size === 0) {
+				this.postings.delete(term);
+			}
+		});
+		this.documentTerms.delete(id);
+	}
+
+	// Termos do índice que correspondem ao termo buscado e o fator de cada um
+	private expandTerm(queryTerm: string): Map<string, number> {
+		const matches = new Map<string, number>();
+		const maxTypos = maxTyposFor(queryTerm.length);
+
+		this.postings.forEach((_, term) => {
+			if (term === queryTerm) {
+				matches.set(term, EXACT_MATCH);
+			} else if (
+				queryTerm.length >= MIN_PREFIX_LENGTH &&
+				term.startsWith(queryTerm)
+			) {
+				matches.set(term, PREFIX_MATCH);
+			} else if (
+				maxTypos > 0 &&
+				editDistance(queryTerm, term, maxTypos) <= maxTypos
+			) {
+				matches.set(term, TYPO_MATCH);
+			}
+		});
+
+		return matches;
+	}
+
+	// Todos os termos buscados precisam corresponder; resultados por relevância
+	search(query: string, options: SearchOptions = {}): SearchHit[] {
+		const queryTerms = Array.from(new Set(tokenize(query)));
+		if (queryTerms.length === 0) return [];
+
+		let scores = new Map<string, number>();
+
+		for (const [index, queryTerm] of queryTerms.entries()) {
+			const termScores = new Map<string, number>();
+
+			this.expandTerm(queryTerm).forEach((factor, term) => {
+				this.postings.get(term)?.forEach((weight, id) => {
+					if (options.namesOnly && weight !== FIELD_WEIGHTS.name) {
+						return;
+					}
+					termScores.set(
+						id,
+						Math.max(termScores.get(id) ?? 0, factor * weight)
+					);
+				});
+			});
+
+			// Manter apenas produtos que corresponderam a todos os termos até aqui
+			const merged = new Map<string, number>();
+			termScores.forEach((score, id) => {
+				const previous = index === 0 ? 0 : scores.get(id);
+				if (previous !== undefined) {
+					merged.set(id, previous + score);
+				}
+			});
+
+			scores = merged;
+			if (scores.size === 0) return [];
+		}
+
+		return Array.from(scores, ([id, score]) => ({ id, score })).sort(
+			(a, b) => b.score - a.score
+		);
+	}
+}
@@ -0,0 +1,172 @@
+import * as SecureStore from "expo-secure-store";
+import { AuthTokens } from "./backend";
+import { AuthError } from "./errors";
+
+// Cada conta guarda os próprios tokens; só a conta ativa fica em memória
+const tokensKey = (accountId: string) => `authTokens_${accountId}`;
+
+// Renovar o token de acesso um pouco antes de ele expirar
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+type SessionExpiredListener = (accountId: string) => void;
+
+// Tokens da sessão atual: guarda no SecureStore, entrega o token de acesso
+// para as chamadas e o renova em segundo plano antes de expirar
+export class SessionManager {
+	private accountId: string | null = null;
+	private tokens: AuthTokens | null = null;
+	private refreshing: Promise<string | null> | null = null;
+	private timer: ReturnType<typeof setTimeout> | null = null;
+	private expiredListeners = new Set<SessionExpiredListener>();
+
+	constructor(
+		private requestRefresh: (refreshToken: string) => Promise<AuthTokens>
+	) {}
+
+	getAccountId() {
+		return this.accountId;
+	}
+
+	getTokens() {
+		return this.tokens;
+	}
+
+	// Ativar a sessão salva da conta. Refresh token vencido é descartado e
+	// a sessão atual continua como estava.
+	async restore(accountId: string): Promise<AuthTokens | null> {
+		const stored = await SecureStore.getItemAsync(tokensKey(accountId));
+		const tokens: AuthTokens | null = stored ? JSON.parse(stored) : null;
+
+		if (!tokens || tokens.refreshTokenExpiresAt <= Date.now()) {
+			await SecureStore.deleteItemAsync(tokensKey(accountId));
+			return null;
+		}
+
+		this.activate(accountId, tokens);
+		return tokens;
+	}
+
+	async start(accountId: string, tokens: AuthTokens) {
+		this.activate(accountId, tokens);
+		await SecureStore.setItemAsync(
+			tokensKey(accountId),
+			JSON.stringify(tokens)
+		);
+	}
+
+	// Encerrar a sessão ativa, apagando os tokens dela
+	async clear() {
+		const accountId = this.accountId;
+		this.detach();
+		if (accountId) {
+			await SecureStore.deleteItemAsync(tokensKey(accountId));
+		}
+	}
+
+	// Deixar de usar a sessão ativa sem apagá-la (troca ou nova conta)
+	detach() {
+		this.accountId = null;
+		this.tokens = null;
+		this.refreshing = null;
+		if (this.timer) clearTimeout(this.timer);
+		this.timer = null;
+	}
+
+	// Apagar a sessão salva de qualquer conta, retornando o refresh token
+	// para ser revogado no backend
+	async discard(accountId: string): Promise<string | null> {
+		if (accountId === this.accountId) {
+			const refreshToken = this.tokens?.refreshToken ?? null;
+			await this.clear();
+			return refreshToken;
+		}
+
+		const stored = await SecureStore.getItemAsync(tokensKey(accountId));
+		await SecureStore.deleteItemAsync(tokensKey(accountId));
+		return stored ? (JSON.parse(stored) as AuthTokens).refreshToken : null;
+	}
+
+	onExpired(listener: SessionExpiredListener) {
+		this.expiredListeners.add(listener);
+		return () => {
+			this.expiredListeners.delete(listener);
+		};
+	}
+
+	// Token de acesso válido, renovando antes se estiver perto de expirar
+	async getAccessToken(): Promise<string | null> {
+		if (!this.tokens) return null;
+
+		const renewAt = this.tokens.accessTokenExpiresAt - REFRESH_MARGIN_MS;
+		if (Date.now() >= renewAt) {
+			return this.refresh();
+		}
+		return this.tokens.accessToken;
+	}
+
+	// Chamadas simultâneas compartilham a mesma renovação
+	refresh(): Promise<string | null> {
+		if (!this.refreshing) {
+			const refreshing = this.renew().finally(() => {
+				if (this.refreshing === refreshing) this.refreshing = null;
+			});
+			this.refreshing = refreshing;
+		}
+		return this.refreshing;
+	}
+
+	private async renew(): Promise<string | null> {
+		const accountId = this.accountId;
+		const refreshToken = this.tokens?.refreshToken;
+		if (!accountId || !refreshToken) return null;
+
+		try {
+			const tokens = await this.requestRefresh(refreshToken);
+
+			// A conta foi trocada durante a renovação: só guardar os tokens
+			if (this.accountId !== accountId) {
+				await SecureStore.setItemAsync(
+					tokensKey(accountId),
+					JSON.stringify(tokens)
+				);
+				return null;
+			}
+
+			await this.start(accountId, tokens);
+			return tokens.accessToken;
+		} catch (error) {
+			// Sem conexão a sessão continua; recusa do backend a encerra
+			if (!(error instanceof AuthError)) throw error;
+
+			if (this.accountId !== accountId) {
+				await SecureStore.deleteItemAsync(tokensKey(accountId));
+				return null;
+			}
+
+			await this.clear();
+			this.expiredListeners.forEach((listener) => listener(accountId));
+			return null;
+		}
+	}
+
+	private activate(accountId: string, tokens: AuthTokens) {
+		if (accountId !== this.accountId) this.detach();
+
+		this.accountId = accountId;
+		this.tokens = tokens;
+		this.scheduleRefresh();
+	}
+
+	private scheduleRefresh() {
+		if (this.timer) clearTimeout(this.timer);
+		if (!this.tokens) return;
+
+		const delay =
+			this.tokens.accessTokenExpiresAt - REFRESH_MARGIN_MS - Date.now();
+		this.timer = setTimeout(() => {
+			this.refresh().catch((error) =>
+				console.error("Erro ao renovar sessão:", error)
+			);
+		}, Math.max(delay, 0));
+	}
+}
@@ -0,0 +1,138 @@
+import { AuthTokens } from "./backend";
+import { AuthError } from "./errors";
+import { createHmac, encodeUtf8, safeEqual, toHex } from "./sha256";
+
+export const ACCESS_TOKEN_TTL_MS = 15 * 60 * 1000;
+export const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export interface RefreshSession {
+	id: string;
+	token: string;
+	userId: string;
+	expiresAt: number;
+}
+
+interface AccessTokenPayload {
+	sub: string;
+	sid: string;
+	exp: number;
+}
+
+export interface SessionStoreOptions {
+	accessTokenTtlMs?: number;
+	refreshTokenTtlMs?: number;
+}
+
+// Sessões compartilhadas pelo backend mock e pelo servidor mock. O token de
+// acesso é assinado ("<payload base64>.<hmac>") e carrega usuário, sessão e
+// expiração; o refresh token é opaco, guardado aqui e trocado a cada uso.
+// Encerrar a sessão invalida também os tokens de acesso dela.
+export class SessionStore {
+	private sign: (message: Uint8Array) => Uint8Array;
+	private accessTokenTtlMs: number;
+	private refreshTokenTtlMs: number;
+
+	constructor(
+		secret: string,
+		private createToken: () => string,
+		private sessions: RefreshSession[] = [],
+		options: SessionStoreOptions = {}
+	) {
+		this.sign = createHmac(encodeUtf8(secret));
+		this.accessTokenTtlMs = options.accessTokenTtlMs ?? ACCESS_TOKEN_TTL_MS;
+		this.refreshTokenTtlMs =
+			options.refreshTokenTtlMs ?? REFRESH_TOKEN_TTL_MS;
+	}
+
+	all(): RefreshSession[] {
+		return this.sessions;
+	}
+
+	issue(userId: string): AuthTokens {
+		const now = Date.now();
+		const session: RefreshSession = {
+			id: this.createToken(),
+			token: this.createToken(),
+			userId,
+			expiresAt: now + this.refreshTokenTtlMs,
+		};
+
+		this.sessions = [
+			...this.sessions.filter((item) => item.expiresAt > now),
+			session,
+		];
+		return this.tokensFor(session);
+	}
+
+	// Retorna o id do usuário dono do token
+	verifyAccessToken(token: string | null | undefined): string {
+		const [body, signature] = (token ?? "").split(".");
+		const isSigned =
+			!!body && !!signature && safeEqual(signature, this.signature(body));
+		if (!isSigned) {
+			throw new AuthError("INVALID_TOKEN");
+		}
+
+		let payload: AccessTokenPayload;
+		try {
+			payload = JSON.parse(atob(body));
+		} catch {
+			throw new AuthError("INVALID_TOKEN");
+		}
+
+		if (!this.sessions.some((item) => item.id === payload.sid)) {
+			throw new AuthError("INVALID_TOKEN");
+		}
+		if (payload.exp <= Date.now()) {
+			throw new AuthError("TOKEN_EXPIRED");
+		}
+		return payload.sub;
+	}
+
+	// Troca o refresh token por um novo par de tokens (o antigo deixa de valer)
+	refresh(refreshToken: string): { userId: string; tokens: AuthTokens } {
+		const session = this.sessions.find(
+			(item) => item.token === refreshToken
+		);
+
+		if (!session || session.expiresAt <= Date.now()) {
+			this.revoke(refreshToken);
+			throw new AuthError("SESSION_EXPIRED");
+		}
+
+		session.token = this.createToken();
+		session.expiresAt = Date.now() + this.refreshTokenTtlMs;
+		return { userId: session.userId, tokens: this.tokensFor(session) };
+	}
+
+	revoke(refreshToken: string) {
+		this.sessions = this.sessions.filter(
+			(item) => item.token !== refreshToken
+		);
+	}
+
+	// Encerrar todas as sessões do usuário, em qualquer aparelho
+	revokeUser(userId: string) {
+		this.sessions = this.sessions.filter((item) => item.userId !== userId);
+	}
+
+	private tokensFor(session: RefreshSession): AuthTokens {
+		const payload: AccessTokenPayload = {
+			sub: session.userId,
+			sid: session.id,
+			exp: Date.now() + this.accessTokenTtlMs,
+		};
+		const body = btoa(JSON.stringify(payload));
+
+		return {
+			accessToken: `${body}.${this.signature(body)}`,
+			accessTokenExpiresAt: payload.exp,
+			refreshToken: session.token,
+			refreshTokenExpiresAt: session.expiresAt,
+		};
+	}
+
+	private signature(body: string) {
+		return toHex(this.sign(encodeUtf8(body)));
+	}
+}
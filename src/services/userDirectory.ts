@@ -0,0 +1,244 @@
+import { faker } from "@faker-js/faker";
+import { Seller, User } from "../types";
+import {
+	PasswordContext,
+	getPasswordPolicyError,
+} from "../utils/passwordPolicy";
+import { ProfileChanges } from "./backend";
+import { AuthError } from "./errors";
+import { OidcProfile } from "./oidc";
+import { hashPassword, verifyPassword } from "./passwordHashing";
+
+// Conta de um provedor OIDC vinculada ao usuário
+export interface LinkedIdentity {
+	issuer: string;
+	subject: string;
+}
+
+// Usuário como o backend guarda: o hash da senha e as identidades vinculadas
+// nunca saem do backend
+export interface StoredUser extends User {
+	// null nas contas criadas pelo login social até definirem uma senha
+	passwordHash: string | null;
+	identities?: LinkedIdentity[];
+}
+
+export interface NewUserData {
+	// Contas fixas, como a de demonstração, mantêm o id entre execuções
+	id?: string;
+	name: string;
+	email: string;
+	password: string | null;
+	phone?: string;
+	profileImage?: string;
+}
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+export const toPublicUser = ({
+	passwordHash,
+	identities,
+	...user
+}: StoredUser): User => ({ ...user, hasPassword: passwordHash !== null });
+
+// O backend confere a política de senhas por conta própria; a interface só
+// antecipa o aviso
+export const requirePasswordPolicy = (
+	password: string,
+	context: PasswordContext
+) => {
+	const message = getPasswordPolicyError(password, context);
+	if (message) {
+		throw new AuthError("WEAK_PASSWORD", message);
+	}
+};
+
+// Cadastro de usuários compartilhado pelo backend mock e pelo servidor mock.
+// "createSalt" e "createId" vêm de fora porque cada ambiente tem sua fonte
+// aleatória.
+export class UserDirectory {
+	constructor(
+		private users: StoredUser[],
+		private createSalt: () => string,
+		private createId: () => string = () => faker.string.uuid()
+	) {}
+
+	all(): StoredUser[] {
+		return this.users;
+	}
+
+	findById(id: string): StoredUser | undefined {
+		return this.users.find((user) => user.id === id);
+	}
+
+	// Só o que aparece para outros usuários (sem email e telefone)
+	getSeller(id: string): Seller | null {
+		const user = this.findById(id);
+		if (!user) return null;
+
+		const { name, profileImage, createdAt } = user;
+		return { id, name, profileImage, createdAt };
+	}
+
+	findByEmail(email: string): StoredUser | undefined {
+		const normalized = normalizeEmail(email);
+		return this.users.find((user) => user.email === normalized);
+	}
+
+	async authenticate(email: string, password: string): Promise<User> {
+		const user = this.findByEmail(email);
+		if (!user) {
+			throw new AuthError("USER_NOT_FOUND");
+		}
+		if (
+			user.passwordHash === null ||
+			!(await verifyPassword(password, user.passwordHash))
+		) {
+			throw new AuthError("WRONG_PASSWORD");
+		}
+		return toPublicUser(user);
+	}
+
+	async create(data: NewUserData): Promise<User> {
+		const passwordHash =
+			data.password === null
+				? null
+				: await hashPassword(data.password, this.createSalt());
+		// Conferido depois do hash, sem pausa até a inclusão: dois cadastros
+		// simultâneos com o mesmo email não passam
+		if (this.findByEmail(data.email)) {
+			throw new AuthError("EMAIL_IN_USE");
+		}
+
+		const user: StoredUser = {
+			id: data.id ?? this.createId(),
+			email: normalizeEmail(data.email),
+			name: data.name,
+			phone: data.phone ?? faker.phone.number(),
+			profileImage: data.profileImage,
+			passwordHash,
+			createdAt: new Date(),
+			updatedAt: new Date(),
+		};
+
+		this.users.push(user);
+		return toPublicUser(user);
+	}
+
+	// Login social: a identidade já vinculada entra direto; senão é vinculada
+	// à conta com o mesmo email, que precisa ter sido verificado pelo
+	// provedor, ou a uma conta nova, sem senha até o usuário definir uma
+	async signInWithIdentity(profile: OidcProfile): Promise<User> {
+		const linked = this.users.find((user) =>
+			user.identities?.some(
+				(identity) =>
+					identity.issuer === profile.issuer &&
+					identity.subject === profile.subject
+			)
+		);
+		if (linked) return toPublicUser(linked);
+
+		if (!profile.emailVerified) {
+			throw new AuthError("EMAIL_NOT_VERIFIED");
+		}
+
+		if (!this.findByEmail(profile.email)) {
+			await this.create({
+				name: profile.name || profile.email.split("@")[0],
+				email: profile.email,
+				password: null,
+			});
+		}
+
+		const user = this.findByEmail(profile.email)!;
+		user.identities = [
+			...(user.identities ?? []),
+			{ issuer: profile.issuer, subject: profile.subject },
+		];
+		user.updatedAt = new Date();
+		return toPublicUser(user);
+	}
+
+	// O email só muda se nenhuma outra conta o usar
+	updateProfile(id: string, changes: ProfileChanges): User {
+		const user = this.findById(id);
+		if (!user) {
+			throw new AuthError("USER_NOT_FOUND");
+		}
+
+		if (changes.name !== undefined) {
+			user.name = changes.name;
+		}
+		if (changes.phone !== undefined) {
+			user.phone = changes.phone || undefined;
+		}
+		if (changes.profileImage !== undefined) {
+			user.profileImage = changes.profileImage || undefined;
+		}
+		user.updatedAt = new Date();
+		return toPublicUser(user);
+	}
+
+	changeEmail(id: string, email: string): User {
+		const user = this.findById(id);
+		if (!user) {
+			throw new AuthError("USER_NOT_FOUND");
+		}
+
+		const owner = this.findByEmail(email);
+		if (owner && owner.id !== id) {
+			throw new AuthError("EMAIL_IN_USE");
+		}
+
+		user.email = normalizeEmail(email);
+		user.updatedAt = new Date();
+		return toPublicUser(user);
+	}
+
+	// Contas sem senha não têm o que confirmar: a sessão basta
+	private async confirmPassword(user: StoredUser, password: string) {
+		if (
+			user.passwordHash !== null &&
+			!(await verifyPassword(password, user.passwordHash))
+		) {
+			throw new AuthError("WRONG_PASSWORD");
+		}
+	}
+
+	// Troca pedida pelo próprio usuário, que confirma a senha atual; contas
+	// do login social definem a primeira senha sem ela
+	async changePassword(
+		id: string,
+		currentPassword: string,
+		newPassword: string
+	) {
+		const user = this.findById(id);
+		if (!user) {
+			throw new AuthError("USER_NOT_FOUND");
+		}
+		await this.confirmPassword(user, currentPassword);
+
+		user.passwordHash = await hashPassword(newPassword, this.createSalt());
+		user.updatedAt = new Date();
+	}
+
+	// Exclusão pedida pelo próprio usuário, que confirma a senha (se tiver)
+	async remove(id: string, password: string) {
+		const user = this.findById(id);
+		if (!user) {
+			throw new AuthError("USER_NOT_FOUND");
+		}
+		await this.confirmPassword(user, password);
+
+		this.users = this.users.filter((item) => item !== user);
+	}
+
+	async setPassword(email: string, password: string): Promise<boolean> {
+		const user = this.findByEmail(email);
+		if (!user) return false;
+
+		user.passwordHash = await hashPassword(password, this.createSalt());
+		user.updatedAt = new Date();
+		return true;
+	}
+}
@@ -0,0 +1,74 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+const USER_PREFIX = "@photo_product_app:user:";
+
+// Chaves de versões anteriores, fora do espaço de cada conta, e o nome do
+// dado correspondente na conta
+const LEGACY_KEYS: Record<string, string> = {
+	cart: "cart",
+	favorites: "favorites",
+	notifications: "notifications",
+	"@photo_product_app:product_outbox": "product_outbox",
+	"@photo_product_app:offline:products": "offline:products",
+};
+const LEGACY_QUERY_PREFIX = "@photo_product_app:offline:query:";
+// As buscas recentes já eram separadas por usuário
+const LEGACY_SEARCHES_PREFIX = "@photo_product_app:recent_searches:";
+// A lista do backend mock continua fora do espaço da conta
+const LEGACY_MY_PRODUCTS_KEY = "@photo_product_app:my_products";
+
+// Chave do AsyncStorage para dados salvos separadamente por conta
+export const userStorageKey = (name: string, userId: string) =>
+	`${USER_PREFIX}${userId}:${name}`;
+
+// Apagar tudo o que a conta guardou no aparelho
+export const clearUserStorage = async (userId: string) => {
+	const keys = await AsyncStorage.getAllKeys();
+	await AsyncStorage.multiRemove(
+		keys.filter((key) => key.startsWith(userStorageKey("", userId)))
+	);
+};
+
+// Destino de uma chave antiga para a conta, ou null se não for dela
+const legacyDestination = (key: string, userId: string) => {
+	if (key in LEGACY_KEYS) {
+		return userStorageKey(LEGACY_KEYS[key], userId);
+	}
+	if (key === LEGACY_MY_PRODUCTS_KEY) {
+		return `${LEGACY_MY_PRODUCTS_KEY}:${userId}`;
+	}
+	if (key.startsWith(LEGACY_QUERY_PREFIX)) {
+		const query = key.slice(LEGACY_QUERY_PREFIX.length);
+		return userStorageKey(`offline:query:${query}`, userId);
+	}
+	if (key === `${LEGACY_SEARCHES_PREFIX}${userId}`) {
+		return userStorageKey("recent_searches", userId);
+	}
+	return null;
+};
+
+// Dados de antes das várias contas passam para a primeira conta que entrar;
+// as buscas recentes, só para o dono. A chave antiga só é apagada depois da
+// cópia, e o que a conta já tem prevalece sobre o dado antigo.
+export const migrateLegacyStorage = async (userId: string) => {
+	const keys = await AsyncStorage.getAllKeys();
+	const moves = keys.flatMap((key) => {
+		const destination = legacyDestination(key, userId);
+		return destination ? [{ key, destination }] : [];
+	});
+	if (moves.length === 0) return;
+
+	const existing = new Set(keys);
+	const values = new Map(
+		await AsyncStorage.multiGet(moves.map((move) => move.key))
+	);
+	await AsyncStorage.multiSet(
+		moves.flatMap(({ key, destination }) => {
+			const value = values.get(key);
+			return value != null && !existing.has(destination)
+				? [[destination, value] as [string, string]]
+				: [];
+		})
+	);
+	await AsyncStorage.multiRemove(moves.map((move) => move.key));
+};
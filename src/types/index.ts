@@ -4,6 +4,9 @@ export interface User {
 	name: string;
 	phone?: string;
 	profileImage?: string;
+	// false nas contas criadas pelo login social que ainda não definiram uma
+	// senha; ausente em contas salvas por versões anteriores
+	hasPassword?: boolean;
 	createdAt: Date;
 	updatedAt: Date;
 }
@@ -13,17 +16,31 @@ export interface Product {
 	name: string;
 	description: string;
 	price: number;
+	// Capa do produto: sempre a primeira de "images"
 	image: string;
+	images: string[];
 	category: string;
 	inStock: boolean;
+	// Usuário que cadastrou o produto; ausente nos produtos do catálogo fake
+	sellerId?: string;
 	createdAt: Date;
 	updatedAt: Date;
+	// Retirado do catálogo: some das listagens, mas continua acessível pelo
+	// id para quem o tem no carrinho ou nos favoritos
+	archivedAt?: Date;
 }
 
+// Dados públicos de quem vende um produto
+export type Seller = Pick<User, "id" | "name" | "profileImage" | "createdAt">;
+
 export interface AuthState {
 	user: User | null;
 	isLoading: boolean;
 	isAuthenticated: boolean;
+	// A sessão acabou sem o usuário sair (refresh token vencido ou revogado)
+	sessionExpired: boolean;
+	// Contas com sessão salva no aparelho, para trocar sem digitar a senha
+	accounts: User[];
 }
 
 export interface NotificationData {
@@ -43,6 +60,36 @@ export interface PaginatedResponse<T> {
 	totalPages: number;
 }
 
+// Paginação por cursor: "nextCursor" é opaco e nulo na última página
+export interface CursorPage<T> {
+	data: T[];
+	nextCursor: string | null;
+	total: number;
+}
+
+export type ProductSort = "newest" | "price_asc" | "price_desc" | "name";
+
+export interface ProductFilters {
+	category?: string;
+	minPrice?: number;
+	maxPrice?: number;
+	inStockOnly?: boolean;
+	createdAfter?: Date;
+	sellerId?: string;
+	sort?: ProductSort;
+}
+
+export interface ProductQuery extends ProductFilters {
+	page?: number;
+	limit?: number;
+}
+
+export interface ProductCursorQuery extends ProductFilters {
+	search?: string;
+	cursor?: string | null;
+	limit?: number;
+}
+
 export interface LoginCredentials {
 	email: string;
 	password: string;
@@ -65,15 +112,29 @@ export type RootStackParamList = {
 	Login: undefined;
 	Register: undefined;
 	ForgotPassword: undefined;
-	ResetPassword: { email: string };
+	// Datas do código enviado, em milissegundos desde a época
+	ResetPassword: {
+		email: string;
+		expiresAt: number;
+		resendAvailableAt: number;
+	};
 	MainTabs: undefined;
 	ProductDetail: { productId: string };
+	SellerProfile: { sellerId: string };
 	Camera: undefined;
 	Profile: undefined;
 	EditProfile: undefined;
+	ChangePassword: undefined;
+	// Novo email aguardando o código de confirmação
+	VerifyEmail: {
+		email: string;
+		expiresAt: number;
+		resendAvailableAt: number;
+	};
 	Notifications: undefined;
 	Favorites: undefined;
 	MyProducts: undefined;
+	EditProduct: { productId: string };
 	Cart: undefined;
 };
 
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  PASSWORD_MIN_LENGTH,
+  checkPassword,
+  getPasswordPolicyError,
+} from '../passwordPolicy';
+
+// Regras não atendidas pela senha
+const failedRules = (password: string, context = {}) =>
+  checkPassword(password, context)
+    .rules.filter((rule) => !rule.passed)
+    .map((rule) => rule.id);
+
+describe('checkPassword', () => {
+  it('aceita senha que atende todas as regras', () => {
+    const check = checkPassword('Girassol42');
+
+    expect(check.isValid).toBe(true);
+    expect(failedRules('Girassol42')).toEqual([]);
+  });
+
+  it('aponta cada regra não atendida', () => {
+    expect(failedRules('Ab1')).toEqual(['length']);
+    expect(failedRules('girassol42')).toEqual(['mixedCase']);
+    expect(failedRules('Girassolzinho')).toEqual(['number']);
+    expect(failedRules('a'.repeat(PASSWORD_MIN_LENGTH))).toEqual([
+      'mixedCase',
+      'number',
+    ]);
+  });
+
+  it('recusa senhas comuns sem diferenciar maiúsculas', () => {
+    expect(failedRules('Password123')).toEqual(['notCommon']);
+  });
+
+  it('recusa senha com o nome ou o email, mesmo sem acentos', () => {
+    const context = { name: 'João Silva', email: 'jsilva@example.com' };
+
+    expect(failedRules('Joao2024xy', context)).toEqual(['notPersonal']);
+    expect(failedRules('XjsilvA2024', context)).toEqual(['notPersonal']);
+    expect(failedRules('Girassol42', context)).toEqual([]);
+  });
+
+  it('ignora trechos pessoais curtos', () => {
+    expect(failedRules('Girassol42', { name: 'Gi' })).toEqual([]);
+  });
+
+  it('fica mais forte com comprimento e símbolos', () => {
+    expect(checkPassword('abc').strength).toBe('weak');
+    expect(checkPassword('girassol42').score).toBe(1);
+    expect(checkPassword('Girassol42').strength).toBe('fair');
+    expect(checkPassword('Girassol4242').strength).toBe('good');
+    expect(checkPassword('Girassol#4242').strength).toBe('strong');
+  });
+});
+
+describe('getPasswordPolicyError', () => {
+  it('retorna a mensagem da primeira regra não atendida', () => {
+    expect(getPasswordPolicyError('abc')).toBe(
+      `Senha deve ter pelo menos ${PASSWORD_MIN_LENGTH} caracteres`
+    );
+    expect(getPasswordPolicyError('Girassol42')).toBeNull();
+  });
+});
\ No newline at end of file
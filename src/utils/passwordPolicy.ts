@@ -0,0 +1,151 @@
+// Política de senhas usada no cadastro e na redefinição de senha
+
+export const PASSWORD_MIN_LENGTH = 8;
+
+export type PasswordRuleId =
+  | 'length'
+  | 'mixedCase'
+  | 'number'
+  | 'notCommon'
+  | 'notPersonal';
+
+export interface PasswordRule {
+  id: PasswordRuleId;
+  label: string;
+  passed: boolean;
+}
+
+export type PasswordStrength = 'weak' | 'fair' | 'good' | 'strong';
+
+export interface PasswordCheck {
+  rules: PasswordRule[];
+  isValid: boolean;
+  // 0 a 4, usado pelo medidor de força
+  score: number;
+  strength: PasswordStrength;
+}
+
+// Dados da conta que a senha não pode conter
+export interface PasswordContext {
+  email?: string;
+  name?: string;
+}
+
+// Senhas mais usadas em vazamentos públicos (comparação sem maiúsculas)
+const COMMON_PASSWORDS = new Set([
+  '123456',
+  '12345678',
+  '123456789',
+  '1234567890',
+  '12345678910',
+  'password',
+  'password1',
+  'password123',
+  'passw0rd',
+  'qwerty',
+  'qwerty123',
+  'qwertyuiop',
+  'abc123',
+  'abcd1234',
+  '111111',
+  '11111111',
+  '000000',
+  '00000000',
+  'iloveyou',
+  'admin',
+  'admin123',
+  'welcome',
+  'welcome1',
+  'letmein',
+  'monkey',
+  'dragon',
+  'football',
+  'baseball',
+  'sunshine',
+  'princess',
+  'senha',
+  'senha123',
+  'senha1234',
+  'mudar123',
+  'brasil',
+  'brasil123',
+  'flamengo',
+  'corinthians',
+  'palmeiras',
+  'minhasenha',
+]);
+
+const RULE_LABELS: Record<PasswordRuleId, string> = {
+  length: `Pelo menos ${PASSWORD_MIN_LENGTH} caracteres`,
+  mixedCase: 'Letras maiúsculas e minúsculas',
+  number: 'Pelo menos um número',
+  notCommon: 'Não é uma senha comum',
+  notPersonal: 'Não contém seu nome ou email',
+};
+
+const RULE_ERRORS: Record<PasswordRuleId, string> = {
+  length: `Senha deve ter pelo menos ${PASSWORD_MIN_LENGTH} caracteres`,
+  mixedCase: 'Senha deve ter letras maiúsculas e minúsculas',
+  number: 'Senha deve ter pelo menos um número',
+  notCommon: 'Essa senha é muito comum. Escolha outra',
+  notPersonal: 'Senha não pode conter seu nome ou email',
+};
+
+const STRENGTHS: PasswordStrength[] = ['weak', 'weak', 'fair', 'good', 'strong'];
+
+// Minúsculas e sem acentos, para "João" bater com "joao"
+const simplify = (text: string) =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+// Trechos do nome e do email com 3 letras ou mais
+const personalTerms = ({ email, name }: PasswordContext) => {
+  const emailUser = simplify(email?.trim() ?? '').split('@')[0];
+  const nameParts = simplify(name?.trim() ?? '').split(/\s+/);
+
+  return [emailUser, ...nameParts].filter((term) => term.length >= 3);
+};
+
+export const checkPassword = (
+  password: string,
+  context: PasswordContext = {}
+): PasswordCheck => {
+  const lower = password.toLowerCase();
+  const hasSymbol = /[^A-Za-z0-9]/.test(password);
+
+  const results: Record<PasswordRuleId, boolean> = {
+    length: password.length >= PASSWORD_MIN_LENGTH,
+    mixedCase: /[a-z]/.test(password) && /[A-Z]/.test(password),
+    number: /\d/.test(password),
+    notCommon: !COMMON_PASSWORDS.has(lower),
+    notPersonal: !personalTerms(context).some((term) =>
+      simplify(password).includes(term)
+    ),
+  };
+
+  const rules = (Object.keys(results) as PasswordRuleId[]).map((id) => ({
+    id,
+    label: RULE_LABELS[id],
+    passed: results[id],
+  }));
+  const isValid = rules.every((rule) => rule.passed);
+
+  // Senha fora da política é sempre fraca; comprimento e símbolos a
+  // deixam mais forte
+  const passedCount = rules.filter((rule) => rule.passed).length;
+  const score = isValid
+    ? 2 + Number(password.length >= 12) + Number(hasSymbol)
+    : Number(passedCount >= rules.length - 1);
+
+  return { rules, isValid, score, strength: STRENGTHS[score] };
+};
+
+// Mensagem da primeira regra não atendida, ou null se a senha é aceita
+export const getPasswordPolicyError = (
+  password: string,
+  context: PasswordContext = {}
+): string | null => {
+  const failed = checkPassword(password, context).rules.find(
+    (rule) => !rule.passed
+  );
+  return failed ? RULE_ERRORS[failed.id] : null;
+};